@@ -0,0 +1,110 @@
+// BookBrain のサービスワーカー
+// アプリの画面（HTML・JS・CSS）をキャッシュして、オフラインでも起動できるようにする
+// Firestore / Cloud Storage のデータは Firebase 側のオフラインキャッシュに任せる
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `bookbrain-shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `bookbrain-static-${CACHE_VERSION}`;
+
+// インストール時にキャッシュしておく画面・ファイル
+const PRECACHE_URLS = ['/', '/manifest.json', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+
+const OFFLINE_HTML = `<!doctype html>
+<html lang="ja">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>BookBrain</title></head>
+<body style="font-family: sans-serif; text-align: center; padding: 3rem 1rem; color: #475569;">
+<p>オフラインのため、このページはまだ表示できません。</p>
+<p><a href="/" style="color: #2563eb;">ホームに戻る</a></p>
+</body>
+</html>`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('bookbrain-') && key !== SHELL_CACHE && key !== STATIC_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// RSC（画面遷移時のデータ）はクエリの _rsc が毎回変わるので、パスごとにキャッシュする
+const getCacheKey = (request) => {
+  const url = new URL(request.url);
+  if (request.headers.get('RSC') === '1') {
+    return `${url.origin}${url.pathname}?__rsc`;
+  }
+  return request;
+};
+
+// 通信を優先し、つながらないときはキャッシュを返す（画面は常に最新を表示したいため）
+const networkFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const key = getCacheKey(request);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(key, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    if (request.mode === 'navigate') {
+      return new Response(OFFLINE_HTML, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+    }
+    throw error;
+  }
+};
+
+// キャッシュがあればすぐ返し、裏で新しいものに入れ替える（ビルドごとにファイル名が変わる静的ファイル用）
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  const fetching = fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch((error) => {
+      if (cached) return cached;
+      throw error;
+    });
+  return cached || fetching;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  // Firebase・Google Books などの外部通信、API はキャッシュしない
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  // 先読み（prefetch）はキャッシュを汚さないよう素通しする
+  if (request.headers.get('Next-Router-Prefetch')) return;
+
+  if (url.pathname.startsWith('/_next/static/') || (url.pathname !== '/' && PRECACHE_URLS.includes(url.pathname))) {
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  if (request.mode === 'navigate' || request.headers.get('RSC') === '1') {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -9,9 +9,21 @@ import { BookList } from '@/components/BookList';
 import { SearchBox } from '@/components/SearchBox';
 import { SearchResults } from '@/components/SearchResults';
 import { BulkEditDialog } from '@/components/BulkEditDialog';
-import { getBooks, bulkUpdateBooks, updateBook } from '@/lib/books';
+import {
+  getBooksPage,
+  bulkUpdateBooks,
+  updateBook,
+  watchBookUpdates,
+  mergeBookUpdates,
+} from '@/lib/books';
 import { getAllNoteCounts } from '@/lib/notes';
-import { getTags, getTagColorClasses } from '@/lib/tags';
+import { watchTags, getTagColorClasses, tagPath } from '@/lib/tags';
+import { purgeExpiredTrashIfDue } from '@/lib/trash';
+import { changeReadingStatusMany } from '@/lib/statusHistory';
+import { createChangeContext } from '@/lib/bookHistory';
+import { getSeriesList } from '@/lib/series';
+import { isLentOut, getOverdueLoans } from '@/lib/loans';
+import { setSaleDateMany } from '@/lib/ledger';
 import {
   searchAll,
   SearchOptions,
@@ -19,8 +31,9 @@ import {
   SearchResult,
   preloadSearchData,
   clearSearchCache,
+  updateSearchCache,
 } from '@/lib/search';
-import { Book, Tag } from '@/types/book';
+import { Book, Series, Tag } from '@/types/book';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -43,17 +56,30 @@ import {
   Square,
   Edit3,
   Tag as TagIcon,
+  Trash2,
+  Layers,
+  HandHelping,
+  AlertTriangle,
+  Heart,
+  Wallet,
+  Archive,
+  QrCode,
+  Copy,
+  StickyNote,
 } from 'lucide-react';
 
 const SEARCH_STATE_KEY = 'bookbrain_search_state';
 
+// 変更の購読は読み込み開始より少し前から（端末の時計のずれを吸収する）
+const SYNC_MARGIN_MS = 60 * 1000;
+
 interface SavedSearchState {
   query: string;
   options: SearchOptions;
   timestamp: number;
 }
 
-type FilterType = 'all' | 'reading' | 'completed' | 'sold' | null;
+type FilterType = 'all' | 'reading' | 'completed' | 'sold' | 'lent' | null;
 
 export default function HomeContent() {
   const router = useRouter();
@@ -62,15 +88,24 @@ export default function HomeContent() {
 
   const [books, setBooks] = useState<Book[]>([]);
   const [loadingBooks, setLoadingBooks] = useState(false);
+  // 2ページ目以降を読み込み中（その間の件数・フィルタ結果は読み込み済みの分だけ）
+  const [loadingMoreBooks, setLoadingMoreBooks] = useState(false);
+  const loadIdRef = useRef(0);
+  // 全ページを読み込んだら、この時刻以降の変更を購読する
+  const [syncSince, setSyncSince] = useState<Date | null>(null);
   const [filter, setFilter] = useState<FilterType>('all');
   const [showImport, setShowImport] = useState(false);
   
-  // メモ数の状態
-  const [noteCounts, setNoteCounts] = useState<Map<string, number>>(new Map());
+  // メモ数（書籍に記録したメモ数を使う）
+  const noteCounts = getAllNoteCounts(books);
   
   // タグ関連
   const [allTags, setAllTags] = useState<Tag[]>([]);
   const [selectedTagFilter, setSelectedTagFilter] = useState<string | null>(null);
+
+  // シリーズ
+  const [allSeries, setAllSeries] = useState<Series[]>([]);
+  const [groupBySeries, setGroupBySeries] = useState(true);
   
   // 選択モード
   const [selectionMode, setSelectionMode] = useState(false);
@@ -85,34 +120,79 @@ export default function HomeContent() {
   const [searched, setSearched] = useState(false);
 
   // 書籍を取得 & 検索データを事前ロード
+  // 最初のページを表示してから、残りのページを順に読み込む
   const fetchBooksData = async () => {
     if (!user) return;
+    const loadId = ++loadIdRef.current;
+    const startedAt = new Date(Date.now() - SYNC_MARGIN_MS);
     setLoadingBooks(true);
+    setSyncSince(null);
+    let loaded: Book[] = [];
+    let cursor: string | null = null;
     try {
-      const [data, tags] = await Promise.all([
-        getBooks(user.uid),
-        getTags(user.uid),
+      const [firstPage, series] = await Promise.all([
+        getBooksPage(user.uid, null),
+        getSeriesList(user.uid),
       ]);
-      setBooks(data);
-      setAllTags(tags);
+      if (loadId !== loadIdRef.current) return;
+      loaded = firstPage.books;
+      cursor = firstPage.cursor;
+      setBooks(loaded);
+      setAllSeries(series);
       preloadSearchData(user.uid);
-      
-      // メモ数を取得
-      if (data.length > 0) {
-        const bookIds = data.map(book => book.id!).filter(Boolean);
-        const counts = await getAllNoteCounts(user.uid, bookIds);
-        setNoteCounts(counts);
-      }
     } catch (error) {
       console.error('Error fetching books:', error);
+      return;
     } finally {
-      setLoadingBooks(false);
+      if (loadId === loadIdRef.current) setLoadingBooks(false);
+    }
+
+    setLoadingMoreBooks(cursor !== null);
+    try {
+      while (cursor) {
+        const page = await getBooksPage(user.uid, cursor);
+        // 読み込み中に再取得が始まったら古い読み込みはやめる
+        if (loadId !== loadIdRef.current) return;
+        loaded = [...loaded, ...page.books];
+        cursor = page.cursor;
+        setBooks(loaded);
+      }
+      setSyncSince(startedAt);
+    } catch (error) {
+      console.error('Error fetching more books:', error);
+    } finally {
+      if (loadId === loadIdRef.current) setLoadingMoreBooks(false);
     }
   };
 
+  // 他の端末での変更を一覧・検索キャッシュに反映
+  useEffect(() => {
+    if (!user || !syncSince) return;
+    return watchBookUpdates(
+      user.uid,
+      syncSince,
+      (updated, removedIds) => {
+        setBooks((prev) => mergeBookUpdates(prev, updated, removedIds));
+        updateSearchCache(user.uid, updated, removedIds).catch((error) => console.error('Error updating search cache:', error));
+      },
+      (error) => console.error('Error watching books:', error)
+    );
+  }, [user, syncSince]);
+
+  // タグ一覧を購読
+  useEffect(() => {
+    if (!user) return;
+    return watchTags(user.uid, setAllTags, (error) => console.error('Error fetching tags:', error));
+  }, [user]);
+
   useEffect(() => {
     fetchBooksData();
 
+    // 保持期間を過ぎたゴミ箱の項目を削除（1日1回まで）
+    if (user) {
+      purgeExpiredTrashIfDue(user.uid).catch((error) => console.error('Error purging trash:', error));
+    }
+
     return () => {
       clearSearchCache();
     };
@@ -252,10 +332,26 @@ export default function HomeContent() {
     if (!user || selectedBooks.size === 0) return;
 
     const bookIds = Array.from(selectedBooks);
+    // 変更履歴から一括編集全体を元に戻せるよう、同じ操作として記録する
+    const context = createChangeContext('bulk-edit');
     
+    // 読書ステータスは書籍ごとに履歴を残すため個別に更新
+    const { readingStatus, soldAt, ...otherUpdates } = updates;
+    let skippedBooks: Book[] = [];
+    if (readingStatus) {
+      const targets = books.filter((b) => selectedBooks.has(b.id!));
+      const result = await changeReadingStatusMany(user.uid, targets, readingStatus, context);
+      skippedBooks = result.skipped;
+    }
+
+    // 売却日は履歴の売却イベントと連動するため個別に更新
+    if (soldAt) {
+      await setSaleDateMany(user.uid, bookIds, soldAt, context);
+    }
+
     // 通常の属性更新
-    if (fieldsToUpdate.length > 0) {
-      await bulkUpdateBooks(user.uid, bookIds, updates);
+    if (fieldsToUpdate.some((field) => field !== 'readingStatus' && field !== 'soldAt')) {
+      await bulkUpdateBooks(user.uid, bookIds, otherUpdates, context);
     }
     
     // タグ追加（各書籍の既存タグに追加）
@@ -265,7 +361,7 @@ export default function HomeContent() {
         if (book) {
           const existingTags = book.tags || [];
           const newTags = [...new Set([...existingTags, ...tagsToAdd])];
-          await updateBook(user.uid, bookId, { tags: newTags });
+          await updateBook(user.uid, bookId, { tags: newTags }, context);
         }
       }
     }
@@ -278,7 +374,13 @@ export default function HomeContent() {
     setSelectionMode(false);
     setSelectedBooks(new Set());
     
-    alert(`${bookIds.length}冊を更新しました`);
+    if (skippedBooks.length > 0) {
+      alert(
+        `${bookIds.length}冊を更新しました。\n\n貸出中のため次の書籍のステータスは変更していません:\n${skippedBooks.map((b) => `・${b.title}`).join('\n')}`
+      );
+    } else {
+      alert(`${bookIds.length}冊を更新しました`);
+    }
   };
 
   const stats = {
@@ -286,13 +388,25 @@ export default function HomeContent() {
     reading: books.filter((b) => b.readingStatus === 'reading').length,
     completed: books.filter((b) => b.readingStatus === 'completed').length,
     sold: books.filter((b) => b.readingStatus === 'sold').length,
+    lent: books.filter(isLentOut).length,
   };
 
+  // 全ページを読み込むまでは、件数・絞り込みの結果は読み込み済みの書籍の分だけ
+  const partialMark = loadingMoreBooks && (
+    <span className="text-xs text-gray-400 font-normal ml-0.5" title="読み込み中のため、読み込み済みの書籍の分だけ数えています">+</span>
+  );
+  const isFiltered = (filter !== null && filter !== 'all') || !!selectedTagFilter;
+
+  // 返却期限を過ぎた貸出
+  const overdueLoans = getOverdueLoans(books);
+
   // フィルタリング＆ソートされた書籍
   const filteredBooks = books
     .filter((book) => {
       // ステータスフィルタ
-      if (filter !== null && filter !== 'all') {
+      if (filter === 'lent') {
+        if (!isLentOut(book)) return false;
+      } else if (filter !== null && filter !== 'all') {
         if (book.readingStatus !== filter) return false;
       }
       // タグフィルタ
@@ -320,6 +434,7 @@ export default function HomeContent() {
       case 'reading': return '読書中の書籍';
       case 'completed': return '読了した書籍';
       case 'sold': return '売却済みの書籍';
+      case 'lent': return '貸出中の書籍';
       default: return '';
     }
   };
@@ -358,6 +473,30 @@ export default function HomeContent() {
                     <Upload className="h-4 w-4 mr-2" />
                     Excelからインポート
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/wishlist')}>
+                    <Heart className="h-4 w-4 mr-2" />
+                    ウィッシュリスト
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/locations')}>
+                    <Archive className="h-4 w-4 mr-2" />
+                    保管場所
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/duplicates')}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    重複チェック
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/labels')}>
+                    <QrCode className="h-4 w-4 mr-2" />
+                    ラベル印刷
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/report')}>
+                    <Wallet className="h-4 w-4 mr-2" />
+                    購入・売却レポート
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/trash')}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    ゴミ箱
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
@@ -380,6 +519,8 @@ export default function HomeContent() {
                 onSearch={handleSearch}
                 searching={searching}
                 initialQuery={searchQuery}
+                initialOptions={searchOptions}
+                tags={allTags}
               />
             </div>
 
@@ -400,6 +541,7 @@ export default function HomeContent() {
                 </div>
                 <SearchResults
                   results={searchResults}
+                  allTags={allTags}
                   searchQuery={searchQuery}
                   searching={searching}
                   searched={searched}
@@ -419,7 +561,10 @@ export default function HomeContent() {
                     >
                       <Library className="h-5 w-5 text-blue-600" />
                       <span className="text-gray-600">総蔵書</span>
-                      <span className="font-bold text-lg">{stats.total}</span>
+                      <span className="font-bold text-lg">
+                        {stats.total}
+                        {partialMark}
+                      </span>
                     </button>
                     <div className="h-6 w-px bg-gray-200 hidden sm:block" />
                     <button
@@ -430,7 +575,7 @@ export default function HomeContent() {
                     >
                       <BookMarked className="h-5 w-5 text-orange-500" />
                       <span className="text-gray-600">読書中</span>
-                      <span className="font-bold text-lg">{stats.reading}</span>
+                      <span className="font-bold text-lg">{stats.reading}{partialMark}</span>
                     </button>
                     <div className="h-6 w-px bg-gray-200 hidden sm:block" />
                     <button
@@ -441,7 +586,7 @@ export default function HomeContent() {
                     >
                       <CheckCircle className="h-5 w-5 text-green-500" />
                       <span className="text-gray-600">読了</span>
-                      <span className="font-bold text-lg">{stats.completed}</span>
+                      <span className="font-bold text-lg">{stats.completed}{partialMark}</span>
                     </button>
                     <div className="h-6 w-px bg-gray-200 hidden sm:block" />
                     <button
@@ -452,8 +597,23 @@ export default function HomeContent() {
                     >
                       <PackageX className="h-5 w-5 text-red-500" />
                       <span className="text-gray-600">売却済</span>
-                      <span className="font-bold text-lg">{stats.sold}</span>
+                      <span className="font-bold text-lg">{stats.sold}{partialMark}</span>
                     </button>
+                    {stats.lent > 0 && (
+                      <>
+                        <div className="h-6 w-px bg-gray-200 hidden sm:block" />
+                        <button
+                          onClick={() => handleFilterClick('lent')}
+                          className={`flex items-center gap-2 px-3 py-1 rounded-full transition-colors ${
+                            filter === 'lent' ? 'bg-amber-100 text-amber-700' : 'hover:bg-gray-100'
+                          }`}
+                        >
+                          <HandHelping className="h-5 w-5 text-amber-500" />
+                          <span className="text-gray-600">貸出中</span>
+                          <span className="font-bold text-lg">{stats.lent}{partialMark}</span>
+                        </button>
+                      </>
+                    )}
                   </div>
                   
                   {/* タグフィルター */}
@@ -476,7 +636,7 @@ export default function HomeContent() {
                               onClick={() => handleTagFilterClick(tag.name)}
                             >
                               {tag.name}
-                              <span className="ml-1 opacity-60">({count})</span>
+                              <span className="ml-1 opacity-60">({count}{loadingMoreBooks && '+'})</span>
                             </Badge>
                           );
                         })}
@@ -485,8 +645,31 @@ export default function HomeContent() {
                   )}
                 </div>
 
+                {/* 返却期限切れの貸出 */}
+                {overdueLoans.length > 0 && (
+                  <div className="bg-white rounded-lg shadow border-l-4 border-red-400">
+                    <div className="px-4 py-3 border-b flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 text-red-500" />
+                      <h2 className="font-semibold">返却期限切れ ({overdueLoans.length}冊)</h2>
+                    </div>
+                    <div className="divide-y">
+                      {overdueLoans.map(({ book, loan, daysOverdue }) => (
+                        <div
+                          key={book.id}
+                          onClick={() => router.push(`/books/${book.id}`)}
+                          className="px-4 py-2 flex items-center gap-3 text-sm hover:bg-gray-50 cursor-pointer"
+                        >
+                          <span className="flex-1 truncate font-medium">{book.title}</span>
+                          <span className="text-gray-600 shrink-0">{loan.borrower}さん</span>
+                          <span className="text-red-600 shrink-0">{daysOverdue}日超過</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* 書籍がない場合のインポート案内 */}
-                {books.length === 0 && !showImport && (
+                {books.length === 0 && !showImport && !loadingMoreBooks && (
                   <div className="bg-white rounded-lg shadow p-8 text-center">
                     <Library className="h-12 w-12 text-gray-300 mx-auto mb-4" />
                     <p className="text-gray-500 mb-4">まだ書籍がありません</p>
@@ -524,10 +707,32 @@ export default function HomeContent() {
                       <h2 className="font-semibold">
                         📚 {getFilterLabel()}
                         <span className="text-gray-500 font-normal ml-2">
-                          ({filteredBooks.length}冊)
+                          ({filteredBooks.length}冊{loadingMoreBooks && '以上 / 読み込み中'})
                         </span>
                       </h2>
                       <div className="flex items-center gap-2">
+                        {selectedTagFilter && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => router.push(tagPath(selectedTagFilter))}
+                            title="このタグの付いたメモを表示"
+                          >
+                            <StickyNote className="h-4 w-4 mr-1" />
+                            メモ
+                          </Button>
+                        )}
+                        {allSeries.length > 0 && (
+                          <Button
+                            variant={groupBySeries ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setGroupBySeries(!groupBySeries)}
+                            title="シリーズごとにまとめる"
+                          >
+                            <Layers className="h-4 w-4 mr-1" />
+                            シリーズ
+                          </Button>
+                        )}
                         <Button
                           variant={selectionMode ? "default" : "outline"}
                           size="sm"
@@ -551,6 +756,8 @@ export default function HomeContent() {
                             size="sm"
                             onClick={handleSelectAll}
                             className="text-blue-700 hover:text-blue-800"
+                            disabled={loadingMoreBooks}
+                            title={loadingMoreBooks ? 'すべての書籍を読み込むまでお待ちください' : undefined}
                           >
                             {selectedBooks.size === filteredBooks.length ? (
                               <><Square className="h-4 w-4 mr-1" />全解除</>
@@ -574,7 +781,7 @@ export default function HomeContent() {
                     )}
                     
                     <div className="p-4">
-                      {loadingBooks ? (
+                      {loadingBooks || (loadingMoreBooks && filteredBooks.length === 0) ? (
                         <p className="text-center py-8 text-gray-500">読み込み中...</p>
                       ) : filteredBooks.length === 0 ? (
                         <p className="text-center py-8 text-gray-500">該当する書籍がありません</p>
@@ -587,8 +794,18 @@ export default function HomeContent() {
                           selectionMode={selectionMode}
                           selectedBooks={selectedBooks}
                           onSelectionChange={handleSelectionChange}
+                          allSeries={allSeries}
+                          groupBySeries={groupBySeries && !selectionMode}
+                          onSeriesClick={(series) => router.push(`/series/${series.id}`)}
                         />
                       )}
+                      {!loadingBooks && loadingMoreBooks && filteredBooks.length > 0 && (
+                        <p className="text-center pt-4 text-sm text-gray-500">
+                          {isFiltered
+                            ? `読み込み済みの${books.length}冊から絞り込んでいます。残りの書籍を読み込み中...`
+                            : `残りの書籍を読み込み中...（${books.length}冊まで読み込み済み）`}
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_NOTE_KIND, isAuthorText, NOTE_KIND_LABELS } from '@/lib/noteKinds';
+import { formatPageReference } from '@/lib/pageReference';
+import { NoteKind } from '@/types/book';
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,17 +23,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // メモの内容を整形
+    // メモの内容を整形（誰の文章かを見出しに付ける）
     const notesText = notes
-      .map((note: { title?: string; content: string; pageReference?: string }, index: number) => {
+      .map((note: { kind?: NoteKind; title?: string; content: string; pageReference?: string }, index: number) => {
+        const kind = note.kind && note.kind in NOTE_KIND_LABELS ? note.kind : DEFAULT_NOTE_KIND;
+        const source = isAuthorText(kind) ? '著者の文章' : '読者の文章';
         const header = note.title || `メモ ${index + 1}`;
-        const page = note.pageReference ? ` (p.${note.pageReference})` : '';
-        return `### ${header}${page}\n${note.content}`;
+        const page = note.pageReference ? ` (${formatPageReference(note.pageReference)})` : '';
+        return `### [${NOTE_KIND_LABELS[kind]}・${source}] ${header}${page}\n${note.content}`;
       })
       .join('\n\n');
 
     const prompt = `以下は「${bookTitle}」${bookAuthor ? `（著者: ${bookAuthor}）` : ''}という書籍に関するメモです。
 
+各メモの見出しには種類と、誰の文章かを付けています。
+- 「引用・著者の文章」は本文をそのまま書き写したもので、著者の主張です。
+- 「考え」「要約」「問い」は読者が自分の言葉で書いたもので、読者の解釈・感想・疑問です。
+著者の主張と読者の考えを混同しないでください。「この本の要点」は主に著者の文章と読者の要約から、「読者のインサイト」は読者の考えと問いから書いてください。
+
 これらのメモを分析し、以下の形式で要約してください。各セクションは見出し（##）を使い、箇条書きは「-」を使ってください。
 
 ## この本の要点
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBooks } from '@/lib/books';
+import { getAllNoteCounts } from '@/lib/notes';
+import { getContributorProfile, ContributorProfile, CONTRIBUTOR_ROLE_LABELS } from '@/lib/contributors';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, BookOpen, StickyNote, User } from 'lucide-react';
+
+export default function AuthorDetailClient() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const name = decodeURIComponent(params.name as string);
+
+  const [profile, setProfile] = useState<ContributorProfile | null>(null);
+  const [noteCounts, setNoteCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        const books = await getBooks(user.uid);
+        const result = getContributorProfile(books, name);
+        setProfile(result);
+        if (result.works.length > 0) {
+          setNoteCounts(getAllNoteCounts(result.works.map((w) => w.book)));
+        }
+      } catch (error) {
+        console.error('Error fetching author:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [user, name]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">読み込み中...</p>
+      </div>
+    );
+  }
+
+  const totalNotes = Array.from(noteCounts.values()).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => router.back()}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <User className="h-6 w-6 text-gray-500" />
+                {profile?.name || name}
+              </CardTitle>
+              <p className="text-sm text-gray-600">
+                {profile?.works.length || 0}冊
+                {totalNotes > 0 && <span className="ml-3">メモ {totalNotes}件</span>}
+              </p>
+              {profile && profile.variants.length > 1 && (
+                <p className="text-xs text-gray-500">
+                  表記ゆれ: {profile.variants.join(' / ')}
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              {!profile || profile.works.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">この人物の書籍はありません</p>
+              ) : (
+                <div className="divide-y">
+                  {profile.works.map(({ book, roles }) => {
+                    const noteCount = noteCounts.get(book.id!) || 0;
+                    return (
+                      <div
+                        key={book.id}
+                        onClick={() => router.push(`/books/${book.id}`)}
+                        className="flex items-center gap-3 py-3 px-2 hover:bg-gray-50 cursor-pointer rounded transition-colors"
+                      >
+                        <div className="w-10 h-14 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center">
+                          {book.coverImage ? (
+                            <img src={book.coverImage} alt="" className="w-full h-full object-cover" />
+                          ) : (
+                            <BookOpen className="h-5 w-5 text-gray-300" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <h3 className="font-medium truncate">{book.title}</h3>
+                          <div className="flex items-center gap-2 text-sm text-gray-500">
+                            {book.publisher && <span className="truncate">{book.publisher}</span>}
+                            {noteCount > 0 && (
+                              <span className="flex items-center gap-0.5 text-xs text-amber-600 shrink-0">
+                                <StickyNote className="h-3 w-3" />
+                                {noteCount}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                          {roles.map((role) => (
+                            <Badge key={role} className="bg-gray-100 text-gray-700">
+                              {CONTRIBUTOR_ROLE_LABELS[role]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import AuthorDetailClient from './AuthorDetailClient';
+
+export async function generateStaticParams() {
+  return [];
+}
+
+export default function AuthorDetailPage() {
+  return <AuthorDetailClient />;
+}
@@ -1,13 +1,23 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { getBook, updateBook, deleteBook } from '@/lib/books';
-import { getNotes, deleteNote, updateNote, updateNotesOrder } from '@/lib/notes';
+import { watchBook, updateBook } from '@/lib/books';
+import { trashBook, restoreBook, trashNote } from '@/lib/trash';
+import { changeReadingStatus, getStatusChangeBlocker } from '@/lib/statusHistory';
+import { getSeries, getOrCreateSeries } from '@/lib/series';
+import { getContributors, buildContributorFields, contributorPath, CONTRIBUTOR_ROLE_LABELS } from '@/lib/contributors';
+import { buildSaleDateChange, SALE_CHANNEL_SUGGESTIONS } from '@/lib/ledger';
+import { watchNotes, updateNote, updateNotesOrder } from '@/lib/notes';
 import { searchBookByISBN, getCoverImageUrl } from '@/lib/googleBooks';
-import { Book, Note } from '@/types/book';
-import { TagInput } from '@/components/TagInput';
+import { getIsbnWarning } from '@/lib/isbn';
+import { getNoteKind, NOTE_KIND_LABELS, NOTE_KIND_STYLES, NOTE_KINDS } from '@/lib/noteKinds';
+import { formatPageReference, sortNotesByLocation } from '@/lib/pageReference';
+import { noteAnchor, resolveWikiLinks, WikiLinkMap } from '@/lib/noteLinks';
+import { tagPath, watchTags } from '@/lib/tags';
+import { Book, Contributor, Note, NoteKind, ReadingStatus, Series, Tag } from '@/types/book';
+import { TagBadges, TagInput } from '@/components/TagInput';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -15,6 +25,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { MarkdownViewer } from '@/components/MarkdownViewer';
+import { ReadingProgressCard } from '@/components/ReadingProgressCard';
+import { StatusHistoryCard } from '@/components/StatusHistoryCard';
+import { BookHistoryCard } from '@/components/BookHistoryCard';
+import { NoteLocationStrip } from '@/components/NoteLocationStrip';
+import { BacklinksCard } from '@/components/BacklinksCard';
+import { NoteHistoryDialog } from '@/components/NoteHistoryDialog';
+import { SeriesInput } from '@/components/SeriesInput';
+import { ContributorsInput } from '@/components/ContributorsInput';
+import { LoanCard } from '@/components/LoanCard';
+import { LocationPicker } from '@/components/LocationPicker';
 import {
   ArrowLeft,
   Plus,
@@ -35,9 +55,24 @@ import {
   Smartphone,
   Sparkles,
   RefreshCw,
-  Image,
+  RotateCcw,
+  History,
 } from 'lucide-react';
 
+// yyyy-mm-dd（ローカル日付）
+const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInputValue = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// 同期用の日時を除いた書籍の内容（他の端末での変更の検出用）
+const bookContent = (book: Book) => JSON.stringify({ ...book, updatedAt: null, notesUpdatedAt: null });
+
 const statusOptions = [
   { value: 'unread', label: '未読', color: 'bg-gray-100 text-gray-800' },
   { value: 'reading', label: '読書中', color: 'bg-blue-100 text-blue-800' },
@@ -65,42 +100,141 @@ export default function BookDetailClient() {
   const [fetchingCover, setFetchingCover] = useState(false);
   const [linkCopied, setLinkCopied] = useState(false);
   const [expandedNotes, setExpandedNotes] = useState<Set<string>>(new Set());
+  // メモの種類で絞り込む（null はすべて）
+  const [kindFilter, setKindFilter] = useState<NoteKind | null>(null);
+  // メモの並び順（manual は手動で並べた順、location はページ参照の順）
+  const [noteSort, setNoteSort] = useState<'manual' | 'location'>('manual');
+  // メモ本文の [[書籍名]] リンクの解決結果（メモ ID ごと）
+  const [noteLinks, setNoteLinks] = useState<Map<string, WikiLinkMap>>(new Map());
+  // メモのタグの色の表示用
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  // 履歴を表示しているメモ
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  // 編集中に他の端末で書籍が更新された
+  const [remoteChanged, setRemoteChanged] = useState(false);
+
+  // シリーズ
+  const [series, setSeries] = useState<Series | null>(null);
+  const [seriesName, setSeriesName] = useState('');
+  const [volume, setVolume] = useState('');
+
+  // 著者・訳者など（編集用）
+  const [contributors, setContributors] = useState<Contributor[]>([]);
+
+  // 売却日（編集用。履歴の売却イベントと連動）
+  const [saleDate, setSaleDate] = useState('');
   
   // AI要約
   const [generatingSummary, setGeneratingSummary] = useState(false);
   const [showSummary, setShowSummary] = useState(false);
 
-  const fetchData = async () => {
+  // 書籍とメモを購読（他の端末での変更もそのまま反映）
+  useEffect(() => {
     if (!user || !bookId) return;
     setLoading(true);
-    try {
-      const [bookData, notesData] = await Promise.all([
-        getBook(user.uid, bookId),
-        getNotes(user.uid, bookId),
-      ]);
-      setBook(bookData);
-      setNotes(notesData);
-      if (bookData) {
-        setEditedBook(bookData);
-        // 保存済みのAI要約があれば表示
-        if (bookData.aiSummary) {
-          setShowSummary(true);
+    let previous: Book | null | undefined;
+    let notesLoaded = false;
+    const finishLoading = () => {
+      if (previous !== undefined && notesLoaded) setLoading(false);
+    };
+
+    const unsubscribeBook = watchBook(
+      user.uid,
+      bookId,
+      (bookData, meta) => {
+        if (previous === undefined && bookData) {
+          setEditedBook(bookData);
+          // 保存済みのAI要約があれば表示
+          if (bookData.aiSummary) {
+            setShowSummary(true);
+          }
+        } else if (previous && bookData && !meta.local && bookContent(previous) !== bookContent(bookData)) {
+          setRemoteChanged(true);
         }
+        previous = bookData;
+        setBook(bookData);
+        finishLoading();
+      },
+      (error) => {
+        console.error('Error fetching book:', error);
+        previous = null;
+        finishLoading();
       }
-    } catch (error) {
-      console.error('Error fetching data:', error);
-    } finally {
-      setLoading(false);
+    );
+    const unsubscribeNotes = watchNotes(
+      user.uid,
+      bookId,
+      (notesData) => {
+        setNotes(notesData);
+        notesLoaded = true;
+        finishLoading();
+      },
+      (error) => {
+        console.error('Error fetching notes:', error);
+        notesLoaded = true;
+        finishLoading();
+      }
+    );
+
+    return () => {
+      unsubscribeBook();
+      unsubscribeNotes();
+    };
+  }, [user, bookId]);
+
+  useEffect(() => {
+    if (!user || !book?.seriesId) {
+      setSeries(null);
+      return;
     }
-  };
+    getSeries(user.uid, book.seriesId).then(setSeries).catch(console.error);
+  }, [user, book?.seriesId]);
 
   useEffect(() => {
-    fetchData();
-  }, [user, bookId]);
+    if (!user) return;
+    return watchTags(user.uid, setAllTags, (error) => console.error('Error fetching tags:', error));
+  }, [user]);
+
+  // メモ本文のリンクを、リンク先の今の名前で表示できるよう解決する
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    resolveWikiLinks(user.uid, bookId, notes)
+      .then((links) => {
+        if (!cancelled) setNoteLinks(links);
+      })
+      .catch((error) => console.error('Error resolving note links:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, bookId, notes]);
+
+  // 他のメモのリンク（#note-xxx）から来たら、そのメモを開いてスクロールする
+  const openedHashRef = useRef<string | null>(null);
+  useEffect(() => {
+    const openLinkedNote = () => {
+      const hash = window.location.hash.slice(1);
+      if (!hash || hash === openedHashRef.current) return;
+      const note = notes.find((n) => noteAnchor(n.id!) === hash);
+      if (!note) return;
+      openedHashRef.current = hash;
+      setKindFilter(null);
+      setExpandedNotes((prev) => new Set([...prev, note.id!]));
+      setTimeout(() => document.getElementById(hash)?.scrollIntoView({ behavior: 'smooth', block: 'start' }), 0);
+    };
+    openLinkedNote();
+    window.addEventListener('hashchange', openLinkedNote);
+    return () => window.removeEventListener('hashchange', openLinkedNote);
+  }, [notes]);
 
   const handleStartEdit = () => {
     if (book) {
+      setRemoteChanged(false);
       setEditedBook({ ...book });
+      setSeriesName(series?.name || '');
+      setVolume(book.volume ? String(book.volume) : '');
+      setContributors(getContributors(book));
+      setSaleDate(book.soldAt ? toDateInputValue(book.soldAt) : '');
       setIsEditing(true);
     }
   };
@@ -112,12 +246,31 @@ export default function BookDetailClient() {
     setIsEditing(false);
   };
 
+  // 他の端末での変更を読み込み直す（編集中の内容は破棄）
+  const handleReloadEdit = () => {
+    if (!confirm('編集中の内容を破棄して、最新の内容で編集し直しますか？')) return;
+    handleStartEdit();
+  };
+
   const handleSaveBook = async () => {
     if (!user || !bookId) return;
     setSaving(true);
     try {
-      await updateBook(user.uid, bookId, editedBook);
-      setBook({ ...book, ...editedBook } as Book);
+      // シリーズ名はシリーズIDに変換（空ならシリーズから外す）
+      const nextSeries = seriesName.trim() ? await getOrCreateSeries(user.uid, seriesName) : null;
+      const updates: Partial<Book> = {
+        ...editedBook,
+        ...buildContributorFields(contributors),
+        seriesId: nextSeries ? nextSeries.id : null,
+        volume: nextSeries && volume ? parseInt(volume) : null,
+      };
+      // 売却日が変わった場合は履歴の売却イベントも直す
+      if (book?.readingStatus === 'sold' && saleDate && saleDate !== (book.soldAt ? toDateInputValue(book.soldAt) : '')) {
+        Object.assign(updates, buildSaleDateChange(book, fromDateInputValue(saleDate)));
+      }
+      await updateBook(user.uid, bookId, updates);
+      setBook({ ...book, ...updates } as Book);
+      setSeries(nextSeries);
       setIsEditing(false);
     } catch (error) {
       console.error('Error updating book:', error);
@@ -128,37 +281,57 @@ export default function BookDetailClient() {
 
   const handleDeleteBook = async () => {
     if (!user || !bookId) return;
-    if (!confirm('この書籍を削除しますか？メモも全て削除されます。')) return;
+    if (!confirm('この書籍をゴミ箱に移動しますか？メモもあわせてゴミ箱に入ります。')) return;
     try {
-      await deleteBook(user.uid, bookId);
+      await trashBook(user.uid, bookId);
       router.push('/');
     } catch (error) {
       console.error('Error deleting book:', error);
     }
   };
 
+  const handleRestoreBook = async () => {
+    if (!user || !bookId) return;
+    try {
+      await restoreBook(user.uid, bookId);
+      setBook({ ...book, deletedAt: null } as Book);
+    } catch (error) {
+      console.error('Error restoring book:', error);
+    }
+  };
+
   const handleDeleteNote = async (noteId: string) => {
     if (!user || !bookId) return;
-    if (!confirm('このメモを削除しますか？')) return;
+    if (!confirm('このメモをゴミ箱に移動しますか？')) return;
     try {
-      await deleteNote(user.uid, bookId, noteId);
+      await trashNote(user.uid, bookId, noteId);
       setNotes(notes.filter((n) => n.id !== noteId));
     } catch (error) {
       console.error('Error deleting note:', error);
     }
   };
 
-  const handleStatusChange = async (newStatus: 'unread' | 'reading' | 'completed' | 'sold') => {
-    if (!user || !bookId) return;
+  const handleStatusChange = async (newStatus: ReadingStatus) => {
+    if (!user || !book) return;
+    const blocker = getStatusChangeBlocker(book, newStatus);
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
     try {
-      await updateBook(user.uid, bookId, { readingStatus: newStatus });
-      setBook({ ...book, readingStatus: newStatus } as Book);
-      setEditedBook((prev) => ({ ...prev, readingStatus: newStatus }));
+      const updates = await changeReadingStatus(user.uid, book, newStatus);
+      handleBookUpdated(updates);
     } catch (error) {
       console.error('Error updating status:', error);
     }
   };
 
+  // 子コンポーネントで保存済みの変更を画面に反映
+  const handleBookUpdated = (updates: Partial<Book>) => {
+    setBook((prev) => (prev ? { ...prev, ...updates } : prev));
+    setEditedBook((prev) => ({ ...prev, ...updates }));
+  };
+
   const handleFormatChange = async (newFormat: 'paper' | 'ebook') => {
     if (!user || !bookId) return;
     try {
@@ -207,7 +380,7 @@ export default function BookDetailClient() {
     }
   };
 
-  const updateField = (field: keyof Book, value: string | number | undefined) => {
+  const updateField = (field: keyof Book, value: string | number | null | undefined) => {
     setEditedBook((prev) => ({ ...prev, [field]: value }));
   };
 
@@ -237,6 +410,7 @@ export default function BookDetailClient() {
           bookTitle: book.title,
           bookAuthor: book.author,
           notes: notes.map(n => ({
+            kind: getNoteKind(n),
             title: n.title,
             content: n.content,
             pageReference: n.pageReference,
@@ -280,10 +454,10 @@ export default function BookDetailClient() {
     
     try {
       await updateBook(user.uid, bookId, { 
-        aiSummary: undefined,
-        aiSummaryUpdatedAt: undefined,
+        aiSummary: null,
+        aiSummaryUpdatedAt: null,
       });
-      setBook({ ...book, aiSummary: undefined, aiSummaryUpdatedAt: undefined });
+      setBook({ ...book, aiSummary: null, aiSummaryUpdatedAt: null });
       setShowSummary(false);
     } catch (error) {
       console.error('Error deleting summary:', error);
@@ -303,8 +477,18 @@ export default function BookDetailClient() {
     });
   };
 
+  const filteredNotes = kindFilter ? notes.filter((n) => getNoteKind(n) === kindFilter) : notes;
+  const visibleNotes = noteSort === 'location' ? sortNotesByLocation(filteredNotes, book) : filteredNotes;
+
+  // 帯で選んだ区間のメモを開いて、最初のメモまでスクロールする
+  const showNotes = (noteIds: string[]) => {
+    setKindFilter(null);
+    setExpandedNotes((prev) => new Set([...prev, ...noteIds]));
+    setTimeout(() => document.getElementById(noteAnchor(noteIds[0]))?.scrollIntoView({ behavior: 'smooth', block: 'start' }), 0);
+  };
+
   const expandAllNotes = () => {
-    setExpandedNotes(new Set(notes.map((n) => n.id!)));
+    setExpandedNotes(new Set(visibleNotes.map((n) => n.id!)));
   };
 
   const collapseAllNotes = () => {
@@ -369,6 +553,8 @@ export default function BookDetailClient() {
     );
   }
 
+  const historyNote = notes.find((n) => n.id === historyNoteId);
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
       <header className="border-b bg-white sticky top-0 z-10">
@@ -380,6 +566,17 @@ export default function BookDetailClient() {
           <div className="flex gap-2">
             {isEditing ? (
               <>
+                {remoteChanged && (
+                  <button
+                    type="button"
+                    onClick={handleReloadEdit}
+                    className="flex items-center gap-1 self-center text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-2 py-1 hover:bg-amber-100"
+                    title="保存すると他の端末での変更を上書きします"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    他の端末で更新されました
+                  </button>
+                )}
                 <Button variant="outline" onClick={handleCancelEdit} disabled={saving}>
                   <X className="mr-2 h-4 w-4" />
                   キャンセル
@@ -406,7 +603,7 @@ export default function BookDetailClient() {
                   <Edit className="mr-2 h-4 w-4" />
                   編集
                 </Button>
-                <Button variant="destructive" onClick={handleDeleteBook}>
+                <Button variant="destructive" onClick={handleDeleteBook} disabled={!!book.deletedAt}>
                   <Trash2 className="mr-2 h-4 w-4" />
                   削除
                 </Button>
@@ -418,6 +615,28 @@ export default function BookDetailClient() {
 
       <main className="container mx-auto px-4 py-6">
         <div className="space-y-6 max-w-4xl mx-auto">
+          {/* ゴミ箱にある書籍 */}
+          {book.deletedAt && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between gap-4">
+              <p className="text-sm text-red-800">
+                この書籍はゴミ箱にあります（{book.deletedAt.toLocaleDateString('ja-JP')} に削除）
+              </p>
+              <Button variant="outline" size="sm" onClick={handleRestoreBook}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                復元
+              </Button>
+            </div>
+          )}
+
+          {book.ownership === 'wishlist' && (
+            <div className="p-4 bg-pink-50 border border-pink-200 rounded-lg flex items-center justify-between gap-4">
+              <p className="text-sm text-pink-800">この書籍はウィッシュリストにあります（まだ蔵書ではありません）</p>
+              <Button variant="outline" size="sm" onClick={() => router.push('/wishlist')}>
+                ウィッシュリストを開く
+              </Button>
+            </div>
+          )}
+
           <Card>
             <CardHeader>
               <div className="flex gap-6">
@@ -465,7 +684,7 @@ export default function BookDetailClient() {
                     <Label className="text-sm text-gray-500 mb-2 block">読書ステータス</Label>
                     <div className="flex gap-2 flex-wrap">
                       {statusOptions.map((status) => (
-                        <Badge key={status.value} className={`cursor-pointer ${book.readingStatus === status.value ? status.color : 'bg-gray-50 text-gray-400 hover:bg-gray-100'}`} onClick={() => handleStatusChange(status.value as any)}>
+                        <Badge key={status.value} className={`cursor-pointer ${book.readingStatus === status.value ? status.color : 'bg-gray-50 text-gray-400 hover:bg-gray-100'}`} onClick={() => handleStatusChange(status.value as ReadingStatus)}>
                           {status.label}
                         </Badge>
                       ))}
@@ -498,28 +717,116 @@ export default function BookDetailClient() {
               {isEditing ? (
                 <div className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div><Label htmlFor="author">著者</Label><Input id="author" value={editedBook.author || ''} onChange={(e) => updateField('author', e.target.value)} className="mt-1 bg-white" placeholder="著者名" /></div>
                     <div><Label htmlFor="publisher">出版社</Label><Input id="publisher" value={editedBook.publisher || ''} onChange={(e) => updateField('publisher', e.target.value)} className="mt-1 bg-white" placeholder="出版社名" /></div>
                     <div><Label htmlFor="publishedDate">出版日</Label><Input id="publishedDate" value={editedBook.publishedDate || ''} onChange={(e) => updateField('publishedDate', e.target.value)} className="mt-1 bg-white" placeholder="例: 2024-01-15" /></div>
                     <div><Label htmlFor="pageCount">ページ数</Label><Input id="pageCount" type="number" value={editedBook.pageCount || ''} onChange={(e) => updateField('pageCount', e.target.value ? parseInt(e.target.value) : undefined)} className="mt-1 bg-white" placeholder="ページ数" /></div>
-                    <div><Label htmlFor="isbn13">ISBN</Label><Input id="isbn13" value={editedBook.isbn13 || ''} onChange={(e) => updateField('isbn13', e.target.value)} className="mt-1 bg-white" placeholder="ISBN-13" /></div>
+                    <div>
+                      <Label htmlFor="isbn13">ISBN</Label>
+                      <Input id="isbn13" value={editedBook.isbn13 || ''} onChange={(e) => updateField('isbn13', e.target.value)} className="mt-1 bg-white" placeholder="ISBN-13" />
+                      {getIsbnWarning(editedBook.isbn13) && <p className="text-xs text-red-600 mt-1">{getIsbnWarning(editedBook.isbn13)}</p>}
+                    </div>
                     <div><Label htmlFor="ndc">NDC</Label><Input id="ndc" value={editedBook.ndc || ''} onChange={(e) => updateField('ndc', e.target.value)} className="mt-1 bg-white" placeholder="例: 913.6" /></div>
                     <div><Label htmlFor="category">カテゴリ</Label><Input id="category" value={editedBook.category || ''} onChange={(e) => updateField('category', e.target.value)} className="mt-1 bg-white" placeholder="カテゴリ" /></div>
-                    <div><Label htmlFor="location">保管場所</Label><Input id="location" value={editedBook.location || ''} onChange={(e) => updateField('location', e.target.value)} className="mt-1 bg-white" placeholder="例: 本棚A-3" /></div>
+                    <div>
+                      <Label htmlFor="location">保管場所</Label>
+                      {user && (
+                        <LocationPicker
+                          userId={user.uid}
+                          id="location"
+                          locationId={editedBook.locationId}
+                          legacyLocation={editedBook.location}
+                          onChange={(locationId, location) => setEditedBook((prev) => ({ ...prev, locationId, location }))}
+                          className="mt-1"
+                        />
+                      )}
+                    </div>
                   </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div><Label htmlFor="purchasedAt">購入日</Label><Input id="purchasedAt" type="date" value={editedBook.purchasedAt ? toDateInputValue(editedBook.purchasedAt) : ''} onChange={(e) => setEditedBook((prev) => ({ ...prev, purchasedAt: e.target.value ? fromDateInputValue(e.target.value) : null }))} className="mt-1 bg-white" /></div>
+                    <div><Label htmlFor="purchasePrice">購入価格（円）</Label><Input id="purchasePrice" type="number" min={0} value={editedBook.purchasePrice ?? ''} onChange={(e) => updateField('purchasePrice', e.target.value ? parseInt(e.target.value) : null)} className="mt-1 bg-white" placeholder="例: 1980" /></div>
+                    <div><Label htmlFor="purchaseStore">購入店</Label><Input id="purchaseStore" value={editedBook.purchaseStore || ''} onChange={(e) => updateField('purchaseStore', e.target.value)} className="mt-1 bg-white" placeholder="例: 紀伊國屋書店" /></div>
+                  </div>
+                  {book.readingStatus === 'sold' && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div><Label htmlFor="saleDate">売却日</Label><Input id="saleDate" type="date" value={saleDate} onChange={(e) => setSaleDate(e.target.value)} className="mt-1 bg-white" /></div>
+                      <div><Label htmlFor="salePrice">売却価格（円）</Label><Input id="salePrice" type="number" min={0} value={editedBook.salePrice ?? ''} onChange={(e) => updateField('salePrice', e.target.value ? parseInt(e.target.value) : null)} className="mt-1 bg-white" placeholder="例: 300" /></div>
+                      <div>
+                        <Label htmlFor="saleChannel">売却先</Label>
+                        <Input id="saleChannel" list="sale-channel-options" value={editedBook.saleChannel || ''} onChange={(e) => updateField('saleChannel', e.target.value)} className="mt-1 bg-white" placeholder="例: 古書店" />
+                        <datalist id="sale-channel-options">
+                          {SALE_CHANNEL_SUGGESTIONS.map((channel) => <option key={channel} value={channel} />)}
+                        </datalist>
+                      </div>
+                    </div>
+                  )}
+                  <div><Label>著者・訳者など</Label><div className="mt-1"><ContributorsInput contributors={contributors} onChange={setContributors} /></div></div>
+                  {user && (
+                    <SeriesInput
+                      userId={user.uid}
+                      seriesName={seriesName}
+                      volume={volume}
+                      onSeriesNameChange={setSeriesName}
+                      onVolumeChange={setVolume}
+                    />
+                  )}
                   <div><Label htmlFor="description">説明</Label><Textarea id="description" value={editedBook.description || ''} onChange={(e) => updateField('description', e.target.value)} className="mt-1 bg-white min-h-[100px]" placeholder="書籍の説明や概要" /></div>
                 </div>
               ) : (
                 <div className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {book.author && <div><span className="text-sm text-gray-500">著者</span><p className="font-medium">{book.author}</p></div>}
+                    {series && (
+                      <div>
+                        <span className="text-sm text-gray-500">シリーズ</span>
+                        <p className="font-medium">
+                          <button type="button" className="text-blue-600 hover:underline" onClick={() => router.push(`/series/${series.id}`)}>
+                            {series.name}
+                          </button>
+                          {book.volume && <span className="ml-1">第{book.volume}巻</span>}
+                        </p>
+                      </div>
+                    )}
+                    {getContributors(book).length > 0 && (
+                      <div>
+                        <span className="text-sm text-gray-500">著者</span>
+                        <p className="font-medium">
+                          {getContributors(book).map((c, i) => (
+                            <span key={`${c.name}-${c.role}`}>
+                              {i > 0 && ', '}
+                              <button type="button" className="text-blue-600 hover:underline" onClick={() => router.push(contributorPath(c.name))}>
+                                {c.name}
+                              </button>
+                              {c.role !== 'author' && <span className="text-gray-500">（{CONTRIBUTOR_ROLE_LABELS[c.role]}）</span>}
+                            </span>
+                          ))}
+                        </p>
+                      </div>
+                    )}
                     {book.publisher && <div><span className="text-sm text-gray-500">出版社</span><p className="font-medium">{book.publisher}</p></div>}
                     {book.publishedDate && <div><span className="text-sm text-gray-500">出版日</span><p className="font-medium">{book.publishedDate}</p></div>}
                     {book.pageCount && book.pageCount > 0 && <div><span className="text-sm text-gray-500">ページ数</span><p className="font-medium">{book.pageCount}ページ</p></div>}
                     {book.isbn13 && <div><span className="text-sm text-gray-500">ISBN</span><p className="font-medium">{book.isbn13}</p></div>}
                     {book.ndc && <div><span className="text-sm text-gray-500">NDC</span><p className="font-medium">{book.ndc}</p></div>}
                     {book.category && <div><span className="text-sm text-gray-500">カテゴリ</span><p className="font-medium">{book.category}</p></div>}
-                    {book.location && <div><span className="text-sm text-gray-500">保管場所</span><p className="font-medium">{book.location}</p></div>}
+                    {book.location && (
+                      <div>
+                        <span className="text-sm text-gray-500">保管場所</span>
+                        <p className="font-medium">
+                          {book.locationId ? (
+                            <button type="button" className="text-blue-600 hover:underline" onClick={() => router.push(`/locations/${book.locationId}`)}>
+                              {book.location}
+                            </button>
+                          ) : (
+                            book.location
+                          )}
+                        </p>
+                      </div>
+                    )}
+                    {book.purchasedAt && <div><span className="text-sm text-gray-500">購入日</span><p className="font-medium">{book.purchasedAt.toLocaleDateString('ja-JP')}{book.purchasePrice != null && `（${book.purchasePrice.toLocaleString()}円）`}</p></div>}
+                    {book.purchaseStore && <div><span className="text-sm text-gray-500">購入店</span><p className="font-medium">{book.purchaseStore}</p></div>}
+                    {book.startedAt && <div><span className="text-sm text-gray-500">読み始めた日</span><p className="font-medium">{book.startedAt.toLocaleDateString('ja-JP')}</p></div>}
+                    {book.completedAt && <div><span className="text-sm text-gray-500">読み終えた日</span><p className="font-medium">{book.completedAt.toLocaleDateString('ja-JP')}</p></div>}
+                    {book.soldAt && <div><span className="text-sm text-gray-500">売却日</span><p className="font-medium">{book.soldAt.toLocaleDateString('ja-JP')}{book.salePrice != null && `（${book.salePrice.toLocaleString()}円）`}</p></div>}
+                    {book.saleChannel && <div><span className="text-sm text-gray-500">売却先</span><p className="font-medium">{book.saleChannel}</p></div>}
                   </div>
                   {book.description && <div className="pt-4 border-t"><span className="text-sm text-gray-500">説明</span><p className="mt-1 text-gray-700 whitespace-pre-wrap">{book.description}</p></div>}
                 </div>
@@ -527,6 +834,26 @@ export default function BookDetailClient() {
             </CardContent>
           </Card>
 
+          {/* 読書記録カード */}
+          {user && (
+            <ReadingProgressCard
+              userId={user.uid}
+              book={book}
+              onBookUpdated={handleBookUpdated}
+            />
+          )}
+
+          {/* 貸出カード（紙の書籍のみ） */}
+          {user && (book.format !== 'ebook' || (book.loans && book.loans.length > 0)) && (
+            <LoanCard userId={user.uid} book={book} onBookUpdated={handleBookUpdated} />
+          )}
+
+          {/* ステータス履歴カード */}
+          {user && <StatusHistoryCard userId={user.uid} book={book} onBookUpdated={handleBookUpdated} />}
+
+          {/* 変更履歴カード */}
+          {user && <BookHistoryCard userId={user.uid} book={book} />}
+
           {/* AI要約カード */}
           {showSummary && (
             <Card className="border-purple-200 bg-purple-50/50">
@@ -602,7 +929,7 @@ export default function BookDetailClient() {
                           {book.aiSummary ? 'AI要約を表示' : 'AI要約'}
                         </Button>
                       )}
-                      <Button variant="outline" size="sm" onClick={expandAllNotes} disabled={expandedNotes.size === notes.length}>
+                      <Button variant="outline" size="sm" onClick={expandAllNotes} disabled={visibleNotes.every((n) => expandedNotes.has(n.id!))}>
                         <ChevronDown className="h-4 w-4 mr-1" />すべて開く
                       </Button>
                       <Button variant="outline" size="sm" onClick={collapseAllNotes} disabled={expandedNotes.size === 0}>
@@ -617,40 +944,84 @@ export default function BookDetailClient() {
               </div>
             </CardHeader>
             <CardContent>
+              <NoteLocationStrip book={book} notes={notes} onSelect={showNotes} />
+              {notes.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <Button variant={kindFilter === null ? 'default' : 'outline'} size="sm" onClick={() => setKindFilter(null)}>
+                    すべて
+                  </Button>
+                  {NOTE_KINDS.map((kind) => {
+                    const count = notes.filter((n) => getNoteKind(n) === kind).length;
+                    return (
+                      <Button
+                        key={kind}
+                        variant={kindFilter === kind ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setKindFilter(kind)}
+                        disabled={count === 0 && kindFilter !== kind}
+                      >
+                        {NOTE_KIND_LABELS[kind]} ({count})
+                      </Button>
+                    );
+                  })}
+                  <div className="ml-auto flex border rounded-md overflow-hidden">
+                    <Button variant={noteSort === 'manual' ? 'default' : 'ghost'} size="sm" className="rounded-none" onClick={() => setNoteSort('manual')}>
+                      手動
+                    </Button>
+                    <Button variant={noteSort === 'location' ? 'default' : 'ghost'} size="sm" className="rounded-none" onClick={() => setNoteSort('location')}>
+                      ページ順
+                    </Button>
+                  </div>
+                </div>
+              )}
               {notes.length === 0 ? (
                 <p className="text-center text-gray-500 py-8">まだメモがありません。「メモを追加」ボタンから追加できます。</p>
+              ) : visibleNotes.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">この種類のメモはありません</p>
               ) : (
                 <div className="space-y-3">
-                  {notes.map((note, noteIndex) => {
+                  {visibleNotes.map((note, noteIndex) => {
                     const isExpanded = expandedNotes.has(note.id!);
                     const hasImages = note.images && note.images.length > 0;
+                    const kind = getNoteKind(note);
+                    // 絞り込み中・ページ順の表示中は手動の並び順と違うので並べ替えない
+                    const canReorder = !kindFilter && noteSort === 'manual';
+                    const canMoveUp = canReorder && noteIndex > 0;
+                    const canMoveDown = canReorder && noteIndex < notes.length - 1;
                     return (
-                      <div key={note.id} className="border rounded-lg overflow-hidden">
+                      <div key={note.id} id={noteAnchor(note.id!)} className="border rounded-lg overflow-hidden scroll-mt-4">
                         <div className="flex justify-between items-center p-4 bg-gray-50 cursor-pointer hover:bg-gray-100 transition-colors" onClick={() => toggleNote(note.id!)}>
                           <div className="flex items-center gap-3 flex-1 min-w-0">
                             {isExpanded ? <ChevronUp className="h-5 w-5 text-gray-500 shrink-0" /> : <ChevronDown className="h-5 w-5 text-gray-500 shrink-0" />}
                             <div className="min-w-0">
                               <div className="flex items-center gap-2">
+                                <Badge variant="outline" className={`shrink-0 ${NOTE_KIND_STYLES[kind]}`}>{NOTE_KIND_LABELS[kind]}</Badge>
                                 <h4 className="font-semibold truncate">{note.title || '無題のメモ'}</h4>
-                                {hasImages && <Image className="h-4 w-4 text-gray-400" />}
+                                {hasImages && <ImageIcon className="h-4 w-4 text-gray-400" aria-label="画像あり" />}
                               </div>
                               <div className="text-sm text-gray-500">
-                                {note.pageReference && <span className="mr-4">📄 {note.pageReference}</span>}
+                                {note.pageReference && <span className="mr-4">📄 {formatPageReference(note.pageReference)}</span>}
                                 <span>{note.createdAt.toLocaleDateString('ja-JP', { year: 'numeric', month: 'long', day: 'numeric' })}</span>
                               </div>
+                              {note.tags && (
+                                <div className="mt-1">
+                                  <TagBadges tags={note.tags} allTags={allTags} maxDisplay={0} onTagClick={(tagName) => router.push(tagPath(tagName))} />
+                                </div>
+                              )}
                             </div>
                           </div>
                           <div className="flex gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
-                            <Button variant="ghost" size="sm" onClick={() => handleMoveNote(note.id!, 'up')} disabled={noteIndex === 0} title="上に移動"><ArrowUp className={`h-4 w-4 ${noteIndex === 0 ? 'text-gray-300' : 'text-gray-500'}`} /></Button>
-                            <Button variant="ghost" size="sm" onClick={() => handleMoveNote(note.id!, 'down')} disabled={noteIndex === notes.length - 1} title="下に移動"><ArrowDown className={`h-4 w-4 ${noteIndex === notes.length - 1 ? 'text-gray-300' : 'text-gray-500'}`} /></Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleMoveNote(note.id!, 'up')} disabled={!canMoveUp} title="上に移動"><ArrowUp className={`h-4 w-4 ${canMoveUp ? 'text-gray-500' : 'text-gray-300'}`} /></Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleMoveNote(note.id!, 'down')} disabled={!canMoveDown} title="下に移動"><ArrowDown className={`h-4 w-4 ${canMoveDown ? 'text-gray-500' : 'text-gray-300'}`} /></Button>
                             <div className="w-px h-6 bg-gray-200 mx-1" />
                             <Button variant="ghost" size="sm" onClick={() => router.push(`/books/${bookId}/notes/${note.id}/edit`)}><Edit className="h-4 w-4 text-gray-500" /></Button>
+                            <Button variant="ghost" size="sm" onClick={() => setHistoryNoteId(note.id!)} title="履歴"><History className="h-4 w-4 text-gray-500" /></Button>
                             <Button variant="ghost" size="sm" onClick={() => handleDeleteNote(note.id!)}><Trash2 className="h-4 w-4 text-red-500" /></Button>
                           </div>
                         </div>
                         {isExpanded && (
                           <div className="p-4 border-t bg-white">
-                            <MarkdownViewer content={note.content} onContentChange={(newContent) => handleNoteContentChange(note.id!, newContent)} />
+                            <MarkdownViewer content={note.content} kind={kind} citation={note.pageReference && formatPageReference(note.pageReference)} links={noteLinks.get(note.id!)} onContentChange={(newContent) => handleNoteContentChange(note.id!, newContent)} />
                             {/* 添付画像の表示 */}
                             {hasImages && (
                               <div className="mt-4 pt-4 border-t">
@@ -679,8 +1050,18 @@ export default function BookDetailClient() {
               )}
             </CardContent>
           </Card>
+
+          {user && <BacklinksCard userId={user.uid} book={book} />}
         </div>
       </main>
+      {user && historyNote && (
+        <NoteHistoryDialog
+          userId={user.uid}
+          note={historyNote}
+          open
+          onOpenChange={(open) => !open && setHistoryNoteId(null)}
+        />
+      )}
     </div>
   );
 }
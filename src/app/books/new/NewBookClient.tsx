@@ -4,13 +4,20 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { addBook, findBookByISBN } from '@/lib/books';
+import { getOrCreateSeries } from '@/lib/series';
+import { parseContributors, buildContributorFields } from '@/lib/contributors';
 import { searchBookByISBN, getCoverImageUrl } from '@/lib/googleBooks';
+import { checkIsbn, getIsbnWarning } from '@/lib/isbn';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { SeriesInput } from '@/components/SeriesInput';
+import { ContributorsInput } from '@/components/ContributorsInput';
+import { LocationPicker } from '@/components/LocationPicker';
+import { Contributor } from '@/types/book';
 import {
   ArrowLeft,
   Save,
@@ -23,6 +30,11 @@ import {
   Smartphone,
 } from 'lucide-react';
 
+const fromDateInputValue = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
 const formatOptions = [
   { value: 'paper', label: '紙の書籍', icon: BookText, color: 'bg-amber-100 text-amber-800' },
   { value: 'ebook', label: '電子書籍', icon: Smartphone, color: 'bg-purple-100 text-purple-800' },
@@ -34,7 +46,7 @@ export default function NewBookClient() {
 
   const [title, setTitle] = useState('');
   const [subtitle, setSubtitle] = useState('');
-  const [author, setAuthor] = useState('');
+  const [contributors, setContributors] = useState<Contributor[]>([]);
   const [publisher, setPublisher] = useState('');
   const [publishedDate, setPublishedDate] = useState('');
   const [isbn13, setIsbn13] = useState('');
@@ -42,7 +54,13 @@ export default function NewBookClient() {
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
   const [ndc, setNdc] = useState('');
-  const [location, setLocation] = useState('');
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [location, setLocation] = useState<string | null>(null);
+  const [purchasedAt, setPurchasedAt] = useState('');
+  const [purchasePrice, setPurchasePrice] = useState('');
+  const [purchaseStore, setPurchaseStore] = useState('');
+  const [seriesName, setSeriesName] = useState('');
+  const [volume, setVolume] = useState('');
   const [coverImage, setCoverImage] = useState('');
   const [format, setFormat] = useState<'paper' | 'ebook'>('paper');
 
@@ -62,33 +80,39 @@ export default function NewBookClient() {
     return false;
   };
 
+  const isbnWarning = getIsbnWarning(isbn13);
+
   const handleIsbnSearch = async () => {
     if (!isbn13.trim()) return;
+    // 形式やチェックディジットが正しくない番号では検索しない（2段目のバーコードの読み取りなど）
+    const checked = checkIsbn(isbn13);
+    if (!checked.valid) return;
 
     setSearching(true);
     setDuplicateWarning(null);
     
     try {
       if (user) {
-        const isDuplicate = await checkDuplicate(isbn13);
+        const isDuplicate = await checkDuplicate(checked.isbn13!);
         if (isDuplicate) {
           setSearching(false);
           return;
         }
       }
 
-      const bookInfo = await searchBookByISBN(isbn13);
+      const bookInfo = await searchBookByISBN(checked.isbn13!);
       if (bookInfo) {
         setTitle(bookInfo.title || '');
         setSubtitle(bookInfo.subtitle || '');
-        setAuthor(bookInfo.authors?.join(', ') || '');
+        // 「〇〇 訳」のように役割つきで返ってくる場合もあるので名前ごとに解析
+        setContributors((bookInfo.authors || []).flatMap(parseContributors));
         setPublisher(bookInfo.publisher || '');
         setPublishedDate(bookInfo.publishedDate || '');
         setPageCount(bookInfo.pageCount?.toString() || '');
         setDescription(bookInfo.description || '');
         setCategory(bookInfo.categories?.join(', ') || '');
         setCoverImage(getCoverImageUrl(bookInfo.imageLinks) || '');
-        if (bookInfo.isbn13) setIsbn13(bookInfo.isbn13);
+        setIsbn13(checkIsbn(bookInfo.isbn13 || '').isbn13 || checked.isbn13!);
       } else {
         alert('書籍情報が見つかりませんでした');
       }
@@ -106,6 +130,10 @@ export default function NewBookClient() {
       return;
     }
 
+    if (isbnWarning && !confirm(`ISBN: ${isbnWarning}\nこのまま登録しますか？`)) {
+      return;
+    }
+
     if (isbn13.trim()) {
       const existingBook = await findBookByISBN(user.uid, isbn13);
       if (existingBook) {
@@ -118,18 +146,27 @@ export default function NewBookClient() {
 
     setSaving(true);
     try {
+      const series = seriesName.trim() ? await getOrCreateSeries(user.uid, seriesName) : null;
       const newBook = await addBook(user.uid, {
         title: title.trim(),
         subtitle: subtitle.trim() || undefined,
-        author: author.trim() || undefined,
+        ...buildContributorFields(contributors),
         publisher: publisher.trim() || undefined,
         publishedDate: publishedDate.trim() || undefined,
-        isbn13: isbn13.trim() || undefined,
+        // 正しい ISBN は ISBN-13 / ISBN-10 の両方を保存（誤りがある場合は入力のまま）
+        isbn13: checkIsbn(isbn13).isbn13 || isbn13.trim() || undefined,
+        isbn10: checkIsbn(isbn13).isbn10,
         pageCount: pageCount ? parseInt(pageCount) : undefined,
         description: description.trim() || undefined,
         category: category.trim() || undefined,
         ndc: ndc.trim() || undefined,
-        location: location.trim() || undefined,
+        locationId: locationId || undefined,
+        location: location || undefined,
+        purchasedAt: purchasedAt ? fromDateInputValue(purchasedAt) : undefined,
+        purchasePrice: purchasePrice ? parseInt(purchasePrice) : undefined,
+        purchaseStore: purchaseStore.trim() || undefined,
+        seriesId: series?.id,
+        volume: series && volume ? parseInt(volume) : undefined,
         coverImage: coverImage.trim() || undefined,
         readingStatus: 'unread',
         format: format,
@@ -195,7 +232,7 @@ export default function NewBookClient() {
                     <Button
                       variant="outline"
                       onClick={handleIsbnSearch}
-                      disabled={searching || !isbn13.trim()}
+                      disabled={searching || !isbn13.trim() || !!isbnWarning}
                     >
                       {searching ? (
                         <Loader2 className="h-4 w-4 animate-spin" />
@@ -204,9 +241,16 @@ export default function NewBookClient() {
                       )}
                     </Button>
                   </div>
-                  <p className="text-xs text-gray-500 mt-2">
-                    ISBNを入力して検索ボタンを押すと、Google Books APIから書籍情報を自動取得します
-                  </p>
+                  {isbnWarning ? (
+                    <p className="text-xs text-red-600 mt-2 flex items-center gap-1">
+                      <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                      {isbnWarning}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-2">
+                      ISBNを入力して検索ボタンを押すと、Google Books APIから書籍情報を自動取得します
+                    </p>
+                  )}
 
                   {duplicateWarning && (
                     <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-2">
@@ -283,17 +327,14 @@ export default function NewBookClient() {
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="author">著者</Label>
-                      <Input
-                        id="author"
-                        value={author}
-                        onChange={(e) => setAuthor(e.target.value)}
-                        placeholder="著者名"
-                        className="mt-1 bg-white"
-                      />
+                  <div>
+                    <Label>著者・訳者など</Label>
+                    <div className="mt-1">
+                      <ContributorsInput contributors={contributors} onChange={setContributors} />
                     </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <Label htmlFor="publisher">出版社</Label>
                       <Input
@@ -347,16 +388,66 @@ export default function NewBookClient() {
                     </div>
                     <div>
                       <Label htmlFor="location">保管場所</Label>
+                      {user && (
+                        <LocationPicker
+                          userId={user.uid}
+                          id="location"
+                          locationId={locationId}
+                          onChange={(id, label) => {
+                            setLocationId(id);
+                            setLocation(label);
+                          }}
+                          className="mt-1"
+                        />
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="purchasedAt">購入日</Label>
+                      <Input
+                        id="purchasedAt"
+                        type="date"
+                        value={purchasedAt}
+                        onChange={(e) => setPurchasedAt(e.target.value)}
+                        className="mt-1 bg-white"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="purchasePrice">購入価格（円）</Label>
                       <Input
-                        id="location"
-                        value={location}
-                        onChange={(e) => setLocation(e.target.value)}
-                        placeholder="例: 本棚A-3"
+                        id="purchasePrice"
+                        type="number"
+                        min={0}
+                        value={purchasePrice}
+                        onChange={(e) => setPurchasePrice(e.target.value)}
+                        placeholder="例: 1980"
+                        className="mt-1 bg-white"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="purchaseStore">購入店</Label>
+                      <Input
+                        id="purchaseStore"
+                        value={purchaseStore}
+                        onChange={(e) => setPurchaseStore(e.target.value)}
+                        placeholder="例: 紀伊國屋書店"
                         className="mt-1 bg-white"
                       />
                     </div>
                   </div>
 
+                  {user && (
+                    <SeriesInput
+                      userId={user.uid}
+                      seriesName={seriesName}
+                      volume={volume}
+                      onSeriesNameChange={setSeriesName}
+                      onVolumeChange={setVolume}
+                    />
+                  )}
+
                   <div>
                     <Label htmlFor="description">説明</Label>
                     <Textarea
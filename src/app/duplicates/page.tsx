@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBooks } from '@/lib/books';
+import { getAllNoteCounts } from '@/lib/notes';
+import {
+  findDuplicateGroups,
+  getDismissedDuplicates,
+  dismissDuplicateGroup,
+  mergeBooks,
+  DuplicateGroup,
+} from '@/lib/duplicates';
+import { STATUS_LABELS } from '@/lib/statusHistory';
+import { clearSearchCache } from '@/lib/search';
+import { Book } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, BookOpen, Check, Combine, Loader2, StickyNote, X } from 'lucide-react';
+
+const REASON_LABELS: Record<DuplicateGroup['reason'], string> = {
+  isbn: 'ISBNが同じ',
+  title: 'タイトル・著者が似ている',
+};
+
+export default function DuplicatesPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [noteCounts, setNoteCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  // まとまりごとに残す書籍（未選択ならメモの多いもの）
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+
+  const fetchData = async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const books = await getBooks(user.uid);
+      const dismissed = getDismissedDuplicates();
+      const found = findDuplicateGroups(books).filter((g) => !dismissed.has(g.key));
+      setGroups(found);
+      setNoteCounts(getAllNoteCounts(found.flatMap((g) => g.books)));
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [user]);
+
+  const getSurvivorId = (group: DuplicateGroup) => {
+    if (survivors[group.key]) return survivors[group.key];
+    const [first] = [...group.books].sort(
+      (a, b) => (noteCounts.get(b.id!) || 0) - (noteCounts.get(a.id!) || 0) || a.createdAt.getTime() - b.createdAt.getTime()
+    );
+    return first.id!;
+  };
+
+  const handleDismiss = (group: DuplicateGroup) => {
+    dismissDuplicateGroup(group.key);
+    setGroups((prev) => prev.filter((g) => g.key !== group.key));
+  };
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    if (!user) return;
+    const survivor = group.books.find((b) => b.id === getSurvivorId(group))!;
+    const others = group.books.filter((b) => b.id !== survivor.id);
+    if (!confirm(`「${survivor.title}」に${others.length}冊をまとめますか？メモ・読書記録・タグは残す書籍に移り、他の書籍は削除されます。`)) return;
+
+    setMergingKey(group.key);
+    try {
+      const result = await mergeBooks(user.uid, survivor, others);
+      clearSearchCache();
+      if (result.failures.length > 0) {
+        alert(`一部の書籍を削除できませんでした:\n${result.failures.join('\n')}`);
+      }
+      await fetchData();
+    } catch (error) {
+      console.error('Error merging books:', error);
+      alert('まとめる途中でエラーが発生しました。もう一度お試しください。');
+      await fetchData();
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  const renderField = (label: string, value: React.ReactNode) => (
+    <div className="flex gap-2 text-sm">
+      <span className="text-gray-500 w-16 shrink-0">{label}</span>
+      <span className="min-w-0 break-words">{value || <span className="text-gray-300">—</span>}</span>
+    </div>
+  );
+
+  const renderBook = (group: DuplicateGroup, book: Book) => {
+    const selected = getSurvivorId(group) === book.id;
+    const noteCount = noteCounts.get(book.id!) || 0;
+    return (
+      <div
+        key={book.id}
+        className={`p-3 rounded-lg border space-y-2 ${selected ? 'border-blue-500 bg-blue-50' : 'bg-white'}`}
+      >
+        <div className="flex gap-3">
+          <div className="w-12 h-16 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center">
+            {book.coverImage ? (
+              <img src={book.coverImage} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <BookOpen className="h-5 w-5 text-gray-300" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <button type="button" className="font-medium text-left hover:underline" onClick={() => router.push(`/books/${book.id}`)}>
+              {book.title}
+            </button>
+            {book.subtitle && <p className="text-xs text-gray-500">{book.subtitle}</p>}
+          </div>
+        </div>
+        {renderField('著者', book.author)}
+        {renderField('出版社', book.publisher)}
+        {renderField('ISBN', book.isbn13 || book.isbn10)}
+        {renderField('形式', book.format === 'ebook' ? '電子書籍' : book.format === 'paper' ? '紙の書籍' : undefined)}
+        {renderField('状態', STATUS_LABELS[book.readingStatus])}
+        {renderField('保管場所', book.location)}
+        {renderField('タグ', book.tags?.join(', '))}
+        {renderField('AI要約', book.aiSummary ? 'あり' : undefined)}
+        {renderField('登録日', book.createdAt.toLocaleDateString('ja-JP'))}
+        <div className="flex items-center justify-between pt-1">
+          <span className="flex items-center gap-1 text-xs text-amber-600">
+            <StickyNote className="h-3 w-3" />
+            メモ {noteCount}件
+          </span>
+          <Button
+            variant={selected ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSurvivors((prev) => ({ ...prev, [group.key]: book.id! }))}
+          >
+            {selected && <Check className="h-4 w-4 mr-1" />}
+            {selected ? '残す' : 'これを残す'}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => router.push('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-5xl mx-auto">
+          <h1 className="text-2xl font-bold">🔁 重複した書籍</h1>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+            </div>
+          ) : groups.length === 0 ? (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-center text-gray-500">重複の候補は見つかりませんでした</p>
+              </CardContent>
+            </Card>
+          ) : (
+            groups.map((group) => (
+              <Card key={group.key}>
+                <CardHeader>
+                  <div className="flex justify-between items-center gap-2 flex-wrap">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {group.books.length}冊
+                      <Badge className={group.reason === 'isbn' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}>
+                        {REASON_LABELS[group.reason]}
+                      </Badge>
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleDismiss(group)} disabled={mergingKey === group.key}>
+                        <X className="h-4 w-4 mr-1" />
+                        重複ではない
+                      </Button>
+                      <Button size="sm" onClick={() => handleMerge(group)} disabled={mergingKey !== null}>
+                        {mergingKey === group.key ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Combine className="h-4 w-4 mr-1" />}
+                        まとめる
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {group.books.map((book) => renderBook(group, book))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBooks } from '@/lib/books';
+import { getLocations, getBooksAtLocation, buildLocationTree, flattenLocationTree, LOCATION_KIND_LABELS } from '@/lib/locations';
+import {
+  LABEL_LAYOUTS,
+  A4_WIDTH_MM,
+  A4_HEIGHT_MM,
+  LabelItem,
+  buildBookLabels,
+  buildLocationLabels,
+  paginateLabels,
+  getLabelPosition,
+  generateQrCodes,
+  renderLabelSheet,
+} from '@/lib/labels';
+import { Book, StorageLocation } from '@/types/book';
+import { LocationPicker } from '@/components/LocationPicker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, Download, Loader2, Printer } from 'lucide-react';
+
+type LabelMode = 'books' | 'locations';
+
+export default function LabelsClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
+
+  const [books, setBooks] = useState<Book[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const [mode, setMode] = useState<LabelMode>('books');
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[1].id);
+  const [filterLocationId, setFilterLocationId] = useState<string | null>(searchParams.get('location'));
+  const [excluded, setExcluded] = useState<Set<string>>(new Set()); // 印刷しない書籍・保管場所の ID
+  const [qrCodes, setQrCodes] = useState<Map<string, string>>(new Map());
+
+  const fetchData = async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [booksData, locationsData] = await Promise.all([getBooks(user.uid), getLocations(user.uid)]);
+      setBooks(booksData.filter((b) => b.readingStatus !== 'sold'));
+      setLocations(locationsData);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [user]);
+
+  const layout = LABEL_LAYOUTS.find((l) => l.id === layoutId) || LABEL_LAYOUTS[0];
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+  const candidateBooks = filterLocationId ? getBooksAtLocation(books, locations, filterLocationId) : books;
+  const candidateLocations = flattenLocationTree(buildLocationTree(locations)).map((node) => node.location);
+  const candidates = mode === 'books' ? candidateBooks : candidateLocations;
+
+  const items: LabelItem[] = mode === 'books'
+    ? buildBookLabels(candidateBooks.filter((b) => !excluded.has(b.id!)), origin)
+    : buildLocationLabels(candidateLocations.filter((l) => !excluded.has(l.id!)), locations, origin);
+  const pages = paginateLabels(items, layout);
+  const urlsKey = items.map((item) => item.url).join('\n');
+
+  // QRコードはブラウザ内で生成（外部サービスには送らない）
+  useEffect(() => {
+    if (!urlsKey) return;
+    let cancelled = false;
+    generateQrCodes(urlsKey.split('\n'))
+      .then((images) => {
+        if (!cancelled) setQrCodes(images);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [urlsKey]);
+
+  const handleModeChange = (value: string) => {
+    setMode(value as LabelMode);
+    setExcluded(new Set());
+  };
+
+  const handleToggle = (id: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleAll = () => {
+    setExcluded(excluded.size === 0 ? new Set(candidates.map((c) => c.id!)) : new Set());
+  };
+
+  const handleExportPng = async () => {
+    setExporting(true);
+    try {
+      for (let i = 0; i < pages.length; i++) {
+        const canvas = await renderLabelSheet(pages[i], layout, qrCodes);
+        const link = document.createElement('a');
+        link.href = canvas.toDataURL('image/png');
+        link.download = `labels-${mode}-${i + 1}.png`;
+        link.click();
+      }
+    } catch (error) {
+      console.error('Error exporting labels:', error);
+      alert('PNGの書き出しに失敗しました');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 print:bg-white print:min-h-0">
+      {/* 印刷時は余白なしの A4 にする */}
+      <style>{'@page { size: A4; margin: 0; }'}</style>
+
+      <header className="border-b bg-white sticky top-0 z-10 print:hidden">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Button variant="ghost" onClick={() => router.back()}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExportPng} disabled={exporting || items.length === 0}>
+              {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+              PNGで保存
+            </Button>
+            <Button onClick={() => window.print()} disabled={items.length === 0}>
+              <Printer className="h-4 w-4 mr-1" />
+              印刷 / PDFで保存
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 print:p-0 print:m-0 print:max-w-none">
+        <div className="space-y-6 print:hidden">
+          <h1 className="text-2xl font-bold">🏷️ ラベル印刷</h1>
+
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <Tabs value={mode} onValueChange={handleModeChange}>
+                <TabsList>
+                  <TabsTrigger value="books">書籍のQRコード</TabsTrigger>
+                  <TabsTrigger value="locations">棚のQRコード</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="label-layout">用紙</Label>
+                  <select
+                    id="label-layout"
+                    value={layoutId}
+                    onChange={(e) => setLayoutId(e.target.value)}
+                    className="mt-1 w-full h-9 border rounded-md px-2 bg-white text-sm"
+                  >
+                    {LABEL_LAYOUTS.map((l) => (
+                      <option key={l.id} value={l.id}>A4 {l.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {mode === 'books' && user && (
+                  <div>
+                    <Label htmlFor="label-location">保管場所で絞り込み</Label>
+                    <LocationPicker
+                      userId={user.uid}
+                      id="label-location"
+                      locationId={filterLocationId}
+                      onChange={(id) => {
+                        setFilterLocationId(id);
+                        setExcluded(new Set());
+                      }}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {loading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                </div>
+              ) : candidates.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {mode === 'books' ? '対象の書籍はありません' : '保管場所が登録されていません'}
+                </p>
+              ) : (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-gray-600">
+                      {items.length}枚（用紙{pages.length}枚）
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={handleToggleAll}>
+                      {excluded.size === 0 ? 'すべて外す' : 'すべて選択'}
+                    </Button>
+                  </div>
+                  <div className="max-h-64 overflow-y-auto border rounded divide-y bg-white">
+                    {mode === 'books'
+                      ? candidateBooks.map((book) => (
+                          <label key={book.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer">
+                            <Checkbox checked={!excluded.has(book.id!)} onCheckedChange={() => handleToggle(book.id!)} />
+                            <span className="flex-1 truncate">{book.title}</span>
+                            {book.location && <span className="text-xs text-gray-400 truncate max-w-[40%]">{book.location}</span>}
+                          </label>
+                        ))
+                      : candidateLocations.map((location) => (
+                          <label key={location.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer">
+                            <Checkbox checked={!excluded.has(location.id!)} onCheckedChange={() => handleToggle(location.id!)} />
+                            <span className="flex-1 truncate">{location.name}</span>
+                            <span className="text-xs text-gray-400">{LOCATION_KIND_LABELS[location.kind]}</span>
+                          </label>
+                        ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {pages.length > 0 && <h2 className="text-lg font-semibold">プレビュー</h2>}
+        </div>
+
+        {/* 用紙（印刷時はこれだけを出力） */}
+        <div className="space-y-6 mt-4 print:space-y-0 print:mt-0 overflow-x-auto">
+          {pages.map((page, pageIndex) => (
+            <div
+              key={pageIndex}
+              className="relative bg-white shadow mx-auto print:shadow-none print:break-after-page"
+              style={{ width: `${A4_WIDTH_MM}mm`, height: `${A4_HEIGHT_MM}mm` }}
+            >
+              {page.map((item, i) => {
+                const { left, top } = getLabelPosition(layout, i);
+                const qrSize = layout.labelHeight - 5;
+                const qr = qrCodes.get(item.url);
+                return (
+                  <div
+                    key={item.key}
+                    className="absolute flex gap-[2.5mm] p-[2.5mm] overflow-hidden outline outline-1 outline-dashed outline-gray-200 print:outline-none"
+                    style={{ left: `${left}mm`, top: `${top}mm`, width: `${layout.labelWidth}mm`, height: `${layout.labelHeight}mm` }}
+                  >
+                    {qr && <img src={qr} alt="" className="shrink-0" style={{ width: `${qrSize}mm`, height: `${qrSize}mm` }} />}
+                    <div className="flex-1 min-w-0 flex flex-col text-[8pt] leading-tight">
+                      <p className="font-bold line-clamp-2">{item.title}</p>
+                      {item.subtitle && <p className="text-gray-600 truncate">{item.subtitle}</p>}
+                      {item.caption && <p className="text-gray-500 truncate mt-auto text-[7pt]">{item.caption}</p>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
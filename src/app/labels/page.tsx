@@ -0,0 +1,11 @@
+import { Suspense } from 'react';
+import LabelsClient from './LabelsClient';
+
+// ?location=<id> で保管場所を指定して開ける（useSearchParams のため Suspense で囲む）
+export default function LabelsPage() {
+  return (
+    <Suspense>
+      <LabelsClient />
+    </Suspense>
+  );
+}
@@ -1,6 +1,9 @@
 import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { MigrationRunner } from "@/components/MigrationRunner";
+import { ServiceWorkerRegistration } from "@/components/ServiceWorkerRegistration";
+import { SyncStatus } from "@/components/SyncStatus";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -50,7 +53,12 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <AuthProvider>{children}</AuthProvider>
+        <AuthProvider>
+          {children}
+          <MigrationRunner />
+          <SyncStatus />
+        </AuthProvider>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBooks } from '@/lib/books';
+import {
+  getLocations,
+  buildLocationTree,
+  flattenLocationTree,
+  getLocationPath,
+  getLocationSubtreeIds,
+  LOCATION_KIND_LABELS,
+  LOCATION_PATH_SEPARATOR,
+} from '@/lib/locations';
+import { Book, StorageLocation } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, BookOpen, ChevronRight, QrCode } from 'lucide-react';
+
+export default function LocationDetailClient() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const locationId = params.id as string;
+
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    if (!user || !locationId) return;
+    setLoading(true);
+    try {
+      const [locationsData, booksData] = await Promise.all([getLocations(user.uid), getBooks(user.uid)]);
+      setLocations(locationsData);
+      setBooks(booksData);
+    } catch (error) {
+      console.error('Error fetching location:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [user, locationId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">読み込み中...</p>
+      </div>
+    );
+  }
+
+  const location = locations.find((l) => l.id === locationId);
+  if (!location) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">保管場所が見つかりません</p>
+      </div>
+    );
+  }
+
+  const path = getLocationPath(locations, locationId);
+  const subtree = getLocationSubtreeIds(locations, locationId);
+  // この場所と下の階層を表示順に並べ、それぞれに置かれている書籍をまとめる
+  const sections = flattenLocationTree(buildLocationTree(locations))
+    .filter(({ location: l }) => subtree.has(l.id!))
+    .map(({ location: l }) => ({
+      location: l,
+      books: books
+        .filter((b) => b.locationId === l.id)
+        .sort((a, b) => a.title.localeCompare(b.title, 'ja', { numeric: true })),
+    }))
+    .filter((section) => section.books.length > 0);
+  const totalCount = sections.reduce((sum, section) => sum + section.books.length, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Button variant="ghost" onClick={() => router.push('/locations')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            保管場所一覧
+          </Button>
+          <Button variant="outline" onClick={() => router.push(`/labels?location=${locationId}`)}>
+            <QrCode className="h-4 w-4 mr-1" />
+            ラベルを印刷
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <div>
+            <div className="flex items-center gap-1 text-sm text-gray-500 flex-wrap">
+              {path.slice(0, -1).map((l) => (
+                <span key={l.id} className="flex items-center gap-1">
+                  <button type="button" className="hover:underline" onClick={() => router.push(`/locations/${l.id}`)}>
+                    {l.name}
+                  </button>
+                  <ChevronRight className="h-3 w-3" />
+                </span>
+              ))}
+            </div>
+            <h1 className="text-2xl font-bold">
+              {location.name}
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {LOCATION_KIND_LABELS[location.kind]}・{totalCount}冊
+              </span>
+            </h1>
+          </div>
+
+          {sections.length === 0 ? (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-center text-gray-500">この場所に置かれている書籍はありません</p>
+              </CardContent>
+            </Card>
+          ) : (
+            sections.map((section) => (
+              <Card key={section.location.id}>
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    {getLocationPath(locations, section.location.id!)
+                      .slice(path.length - 1)
+                      .map((l) => l.name)
+                      .join(LOCATION_PATH_SEPARATOR)}
+                    <span className="ml-2 text-sm font-normal text-gray-500">{section.books.length}冊</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y">
+                    {section.books.map((book) => (
+                      <div
+                        key={book.id}
+                        onClick={() => router.push(`/books/${book.id}`)}
+                        className="flex items-center gap-3 py-2 px-2 hover:bg-gray-50 cursor-pointer rounded transition-colors"
+                      >
+                        <div className="w-8 h-11 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center">
+                          {book.coverImage ? (
+                            <img src={book.coverImage} alt="" className="w-full h-full object-cover" />
+                          ) : (
+                            <BookOpen className="h-4 w-4 text-gray-300" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <h3 className="font-medium truncate">{book.title}</h3>
+                          {book.author && <p className="text-sm text-gray-500 truncate">{book.author}</p>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
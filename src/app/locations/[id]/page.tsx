@@ -0,0 +1,9 @@
+import LocationDetailClient from './LocationDetailClient';
+
+export async function generateStaticParams() {
+  return [];
+}
+
+export default function LocationDetailPage() {
+  return <LocationDetailClient />;
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBooks } from '@/lib/books';
+import {
+  getLocations,
+  addLocation,
+  renameLocation,
+  deleteLocation,
+  buildLocationTree,
+  flattenLocationTree,
+  getBooksAtLocation,
+  planLocationMigration,
+  migrateLocations,
+  CHILD_LOCATION_KIND,
+  LOCATION_KIND_LABELS,
+  LOCATION_PATH_SEPARATOR,
+} from '@/lib/locations';
+import { clearSearchCache } from '@/lib/search';
+import { Book, StorageLocation } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Check, Edit, Loader2, Plus, Trash2, Wand2, X } from 'lucide-react';
+
+export default function LocationsPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [migrating, setMigrating] = useState(false);
+
+  // 追加・名前変更のフォーム（addingTo: 親の ID。部屋の追加は 'root'）
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const fetchData = async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [locationsData, booksData] = await Promise.all([getLocations(user.uid), getBooks(user.uid)]);
+      setLocations(locationsData);
+      setBooks(booksData);
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [user]);
+
+  const nodes = flattenLocationTree(buildLocationTree(locations));
+  const migrationPlans = planLocationMigration(books);
+
+  const handleStartAdd = (parentId: string) => {
+    setEditingId(null);
+    setAddingTo(parentId);
+    setName('');
+  };
+
+  const handleStartRename = (location: StorageLocation) => {
+    setAddingTo(null);
+    setEditingId(location.id!);
+    setName(location.name);
+  };
+
+  const handleCancel = () => {
+    setAddingTo(null);
+    setEditingId(null);
+    setName('');
+  };
+
+  const handleAdd = async () => {
+    if (!user || !addingTo || !name.trim()) return;
+    const parent = addingTo === 'root' ? null : locations.find((l) => l.id === addingTo) || null;
+    try {
+      const created = await addLocation(user.uid, name, parent);
+      setLocations((prev) => [...prev, created]);
+      handleCancel();
+    } catch (error) {
+      console.error('Error adding location:', error);
+      alert(error instanceof Error ? error.message : '保管場所の追加に失敗しました');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!user || !editingId || !name.trim()) return;
+    try {
+      await renameLocation(user.uid, locations, editingId, name);
+      clearSearchCache();
+      handleCancel();
+      await fetchData();
+    } catch (error) {
+      console.error('Error renaming location:', error);
+      alert('名前の変更に失敗しました');
+    }
+  };
+
+  const handleDelete = async (location: StorageLocation) => {
+    if (!user) return;
+    const count = books.filter((b) => b.locationId === location.id).length;
+    const message = count > 0
+      ? `「${location.name}」を削除しますか？置かれている${count}冊は保管場所なしになります。`
+      : `「${location.name}」を削除しますか？`;
+    if (!confirm(message)) return;
+    try {
+      await deleteLocation(user.uid, locations, location.id!);
+      clearSearchCache();
+      await fetchData();
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      alert(error instanceof Error ? error.message : '保管場所の削除に失敗しました');
+    }
+  };
+
+  const handleMigrate = async () => {
+    if (!user) return;
+    setMigrating(true);
+    try {
+      const result = await migrateLocations(user.uid, migrationPlans);
+      clearSearchCache();
+      alert(`${result.books}冊に保管場所を割り当てました（新しく登録した保管場所: ${result.created}件）`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error migrating locations:', error);
+      alert('保管場所の取り込みに失敗しました');
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const renderNameForm = (onSubmit: () => void, placeholder: string) => (
+    <div className="flex items-center gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onSubmit();
+          if (e.key === 'Escape') handleCancel();
+        }}
+        placeholder={placeholder}
+        className="h-8 bg-white"
+        autoFocus
+      />
+      <Button size="sm" onClick={onSubmit} disabled={!name.trim()}>
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={handleCancel}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => router.push('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold">🗄️ 保管場所</h1>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <>
+              {/* 自由入力の保管場所の取り込み */}
+              {migrationPlans.length > 0 && (
+                <Card className="border-amber-200 bg-amber-50">
+                  <CardHeader>
+                    <CardTitle className="text-lg">未登録の保管場所があります</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                      自由入力の保管場所を部屋・本棚・段に分けて登録します。表記ゆれ（「棚2」と「2段目」など）は同じ場所にまとめます。
+                    </p>
+                    <div className="divide-y text-sm bg-white rounded border">
+                      {migrationPlans.map((plan) => (
+                        <div key={plan.value} className="flex items-center gap-3 px-3 py-2">
+                          <span className="flex-1 truncate">{plan.value}</span>
+                          <span className="text-gray-500">→ {plan.path.join(LOCATION_PATH_SEPARATOR)}</span>
+                          <span className="text-gray-400 w-12 text-right">{plan.bookIds.length}冊</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-end">
+                      <Button onClick={handleMigrate} disabled={migrating}>
+                        {migrating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Wand2 className="h-4 w-4 mr-1" />}
+                        取り込む
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <div className="flex justify-between items-center">
+                    <CardTitle className="text-xl">部屋・本棚・段</CardTitle>
+                    <Button variant="outline" size="sm" onClick={() => handleStartAdd('root')}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      部屋を追加
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {addingTo === 'root' && <div className="mb-3">{renderNameForm(handleAdd, '部屋の名前（例: 書斎）')}</div>}
+                  {nodes.length === 0 && addingTo !== 'root' ? (
+                    <p className="text-sm text-gray-500">保管場所はまだ登録されていません</p>
+                  ) : (
+                    <div className="divide-y">
+                      {nodes.map(({ location, depth }) => {
+                        const childKind = CHILD_LOCATION_KIND[location.kind];
+                        const count = getBooksAtLocation(books, locations, location.id!).length;
+                        return (
+                          <div key={location.id} className="py-2" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                            {editingId === location.id ? (
+                              renderNameForm(handleRename, '名前')
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <button
+                                  type="button"
+                                  className="font-medium text-left hover:underline"
+                                  onClick={() => router.push(`/locations/${location.id}`)}
+                                >
+                                  {location.name}
+                                </button>
+                                <span className="text-xs text-gray-400">{LOCATION_KIND_LABELS[location.kind]}</span>
+                                <span className="text-xs text-gray-500 flex-1">{count > 0 && `${count}冊`}</span>
+                                {childKind && (
+                                  <Button variant="ghost" size="sm" onClick={() => handleStartAdd(location.id!)} title={`${LOCATION_KIND_LABELS[childKind]}を追加`}>
+                                    <Plus className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                <Button variant="ghost" size="sm" onClick={() => handleStartRename(location)} title="名前を変更">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleDelete(location)} title="削除">
+                                  <Trash2 className="h-4 w-4 text-red-500" />
+                                </Button>
+                              </div>
+                            )}
+                            {addingTo === location.id && childKind && (
+                              <div className="mt-2" style={{ paddingLeft: '1.5rem' }}>
+                                {renderNameForm(handleAdd, `${LOCATION_KIND_LABELS[childKind]}の名前`)}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBooks } from '@/lib/books';
+import { getLedgerYears, getMonthlyLedger, getCategoryLedger, getLedgerTotals } from '@/lib/ledger';
+import { Book } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+
+const formatYen = (value: number) => `${value.toLocaleString()}円`;
+
+export default function ReportPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [books, setBooks] = useState<Book[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [year, setYear] = useState(new Date().getFullYear());
+
+  const fetchBooks = async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setBooks(await getBooks(user.uid));
+    } catch (error) {
+      console.error('Error fetching books:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBooks();
+  }, [user]);
+
+  const years = getLedgerYears(books);
+  if (!years.includes(year)) years.unshift(year);
+
+  const months = getMonthlyLedger(books, year);
+  const totals = getLedgerTotals(months);
+  const categories = getCategoryLedger(books, year);
+  const maxMonthly = Math.max(1, ...months.map((m) => Math.max(m.spent, m.recovered)));
+  const noPriceCount = books.filter(
+    (book) => book.purchasedAt?.getFullYear() === year && book.purchasePrice == null
+  ).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => router.push('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <div className="flex items-center justify-between gap-4">
+            <h1 className="text-2xl font-bold">💴 購入・売却レポート</h1>
+            <select
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="border rounded px-2 py-1 bg-white text-sm"
+              title="年"
+            >
+              {years.map((y) => (
+                <option key={y} value={y}>{y}年</option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <>
+              {/* 年間の合計 */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-gray-500">購入金額（{totals.purchasedCount}冊）</p>
+                    <p className="text-2xl font-bold">{formatYen(totals.spent)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-gray-500">売却で回収（{totals.soldCount}冊）</p>
+                    <p className="text-2xl font-bold text-green-600">{formatYen(totals.recovered)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-gray-500">実質負担</p>
+                    <p className="text-2xl font-bold">{formatYen(totals.net)}</p>
+                  </CardContent>
+                </Card>
+              </div>
+              {noPriceCount > 0 && (
+                <p className="text-sm text-gray-500">
+                  価格が未入力の書籍が{noPriceCount}冊あります（0円として集計しています）
+                </p>
+              )}
+
+              {/* 月別 */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl">月別</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y text-sm">
+                    {months.map((m) => (
+                      <div key={m.month} className="flex items-center gap-3 py-2">
+                        <span className="w-10 text-gray-500">{Number(m.month.slice(5))}月</span>
+                        <div className="flex-1 space-y-1">
+                          <div className="h-2 bg-blue-500 rounded" style={{ width: `${(m.spent / maxMonthly) * 100}%` }} />
+                          <div className="h-2 bg-green-500 rounded" style={{ width: `${(m.recovered / maxMonthly) * 100}%` }} />
+                        </div>
+                        <span className="w-28 text-right">{formatYen(m.spent)}</span>
+                        <span className="w-28 text-right text-green-600">{m.recovered > 0 ? `-${formatYen(m.recovered)}` : ''}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-4 mt-3 text-xs text-gray-500">
+                    <span className="flex items-center gap-1"><span className="w-3 h-2 bg-blue-500 rounded" />購入</span>
+                    <span className="flex items-center gap-1"><span className="w-3 h-2 bg-green-500 rounded" />売却</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* カテゴリ別 */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl">カテゴリ別の実質負担</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {categories.length === 0 ? (
+                    <p className="text-sm text-gray-500">{year}年の購入・売却の記録はありません</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-500 border-b">
+                          <th className="text-left font-normal py-2">カテゴリ</th>
+                          <th className="text-right font-normal py-2">冊数</th>
+                          <th className="text-right font-normal py-2">購入</th>
+                          <th className="text-right font-normal py-2">売却</th>
+                          <th className="text-right font-normal py-2">実質負担</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {categories.map((c) => (
+                          <tr key={c.category}>
+                            <td className="py-2">{c.category}</td>
+                            <td className="py-2 text-right">{c.bookCount}</td>
+                            <td className="py-2 text-right">{formatYen(c.spent)}</td>
+                            <td className="py-2 text-right text-green-600">{formatYen(c.recovered)}</td>
+                            <td className="py-2 text-right font-medium">{formatYen(c.net)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
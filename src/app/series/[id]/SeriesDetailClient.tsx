@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBooks } from '@/lib/books';
+import { getSeries, updateSeries, deleteSeries, getSeriesVolumes } from '@/lib/series';
+import { Book, Series } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, BookOpen, Edit, Save, Trash2, X } from 'lucide-react';
+
+const statusLabels: Record<Book['readingStatus'], string> = {
+  unread: '未読',
+  reading: '読書中',
+  completed: '読了',
+  sold: '売却済み',
+};
+
+export default function SeriesDetailClient() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const seriesId = params.id as string;
+
+  const [series, setSeries] = useState<Series | null>(null);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [expectedVolumes, setExpectedVolumes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = async () => {
+    if (!user || !seriesId) return;
+    setLoading(true);
+    try {
+      const [seriesData, booksData] = await Promise.all([
+        getSeries(user.uid, seriesId),
+        getBooks(user.uid),
+      ]);
+      setSeries(seriesData);
+      setBooks(booksData);
+    } catch (error) {
+      console.error('Error fetching series:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [user, seriesId]);
+
+  const handleStartEdit = () => {
+    if (!series) return;
+    setName(series.name);
+    setExpectedVolumes(series.expectedVolumes ? String(series.expectedVolumes) : '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!user || !series || !name.trim()) return;
+    setSaving(true);
+    try {
+      const updates: Partial<Series> = {
+        name: name.trim(),
+        expectedVolumes: expectedVolumes ? parseInt(expectedVolumes) : null,
+      };
+      await updateSeries(user.uid, seriesId, updates);
+      setSeries({ ...series, ...updates });
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error updating series:', error);
+      alert('シリーズの更新に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !series) return;
+    if (!confirm(`シリーズ「${series.name}」を削除しますか？書籍は削除されず、シリーズなしになります。`)) return;
+    try {
+      await deleteSeries(user.uid, seriesId);
+      router.push('/');
+    } catch (error) {
+      console.error('Error deleting series:', error);
+      alert('シリーズの削除に失敗しました');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (!series) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">シリーズが見つかりません</p>
+      </div>
+    );
+  }
+
+  const { slots, missing, unnumbered } = getSeriesVolumes(series, books);
+  const ownedCount = slots.filter((slot) => slot.books.length > 0).length;
+
+  const renderBookCard = (book: Book, label: string) => (
+    <button
+      key={book.id}
+      type="button"
+      onClick={() => router.push(`/books/${book.id}`)}
+      className="text-left border rounded-lg p-2 bg-white hover:shadow transition-shadow"
+    >
+      <div className="aspect-[2/3] bg-gray-100 rounded overflow-hidden flex items-center justify-center mb-2">
+        {book.coverImage ? (
+          <img src={book.coverImage} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <BookOpen className="h-8 w-8 text-gray-300" />
+        )}
+      </div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-sm font-medium line-clamp-2">{book.title}</p>
+      <p className="text-xs text-gray-400 mt-1">{statusLabels[book.readingStatus]}</p>
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Button variant="ghost" onClick={() => router.back()}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+          <div className="flex gap-2">
+            {isEditing ? (
+              <>
+                <Button variant="outline" onClick={() => setIsEditing(false)} disabled={saving}>
+                  <X className="mr-2 h-4 w-4" />
+                  キャンセル
+                </Button>
+                <Button onClick={handleSave} disabled={saving || !name.trim()}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {saving ? '保存中...' : '保存'}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={handleStartEdit}>
+                  <Edit className="mr-2 h-4 w-4" />
+                  編集
+                </Button>
+                <Button variant="destructive" onClick={handleDelete}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  削除
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <Card>
+            <CardHeader>
+              {isEditing ? (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="md:col-span-2">
+                    <Label htmlFor="seriesName">シリーズ名</Label>
+                    <Input id="seriesName" value={name} onChange={(e) => setName(e.target.value)} className="mt-1 bg-white" />
+                  </div>
+                  <div>
+                    <Label htmlFor="expectedVolumes">全巻数</Label>
+                    <Input
+                      id="expectedVolumes"
+                      type="number"
+                      min={1}
+                      value={expectedVolumes}
+                      onChange={(e) => setExpectedVolumes(e.target.value)}
+                      placeholder="刊行中なら空欄"
+                      className="mt-1 bg-white"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <CardTitle className="text-2xl">{series.name}</CardTitle>
+                  <p className="text-sm text-gray-600">
+                    {ownedCount}巻所持
+                    {series.expectedVolumes ? ` / 全${series.expectedVolumes}巻` : ''}
+                    {missing.length > 0 && (
+                      <span className="text-red-600 ml-2">欠巻: {missing.join(', ')}</span>
+                    )}
+                  </p>
+                </>
+              )}
+            </CardHeader>
+            <CardContent>
+              {slots.length === 0 && unnumbered.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">このシリーズの書籍はまだありません</p>
+              ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                  {slots.map((slot) =>
+                    slot.books.length > 0 ? (
+                      slot.books.map((book) => renderBookCard(book, `第${slot.volume}巻`))
+                    ) : (
+                      <div
+                        key={`missing-${slot.volume}`}
+                        className="border-2 border-dashed border-red-300 rounded-lg p-2 bg-red-50/50 flex flex-col items-center justify-center text-center aspect-[2/3]"
+                      >
+                        <p className="text-sm font-medium text-red-600">第{slot.volume}巻</p>
+                        <p className="text-xs text-red-400">未所持</p>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+
+              {unnumbered.length > 0 && (
+                <div className="mt-6 pt-4 border-t">
+                  <p className="text-sm text-gray-500 mb-3">巻数未設定</p>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                    {unnumbered.map((book) => renderBookCard(book, '巻数なし'))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
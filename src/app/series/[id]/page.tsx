@@ -0,0 +1,9 @@
+import SeriesDetailClient from './SeriesDetailClient';
+
+export async function generateStaticParams() {
+  return [];
+}
+
+export default function SeriesDetailPage() {
+  return <SeriesDetailClient />;
+}
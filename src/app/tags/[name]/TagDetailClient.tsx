@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getNotesByTag } from '@/lib/notes';
+import { getTags, getTagColorClasses, tagPath } from '@/lib/tags';
+import { getNoteKind, NOTE_KIND_LABELS, NOTE_KIND_STYLES } from '@/lib/noteKinds';
+import { formatPageReference } from '@/lib/pageReference';
+import { noteAnchor } from '@/lib/noteLinks';
+import { Book, Note, Tag } from '@/types/book';
+import { TagBadges } from '@/components/TagInput';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, BookOpen, Tag as TagIcon } from 'lucide-react';
+
+export default function TagDetailClient() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const name = decodeURIComponent(params.name as string);
+
+  const [entries, setEntries] = useState<{ book: Book; note: Note }[]>([]);
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        const [notes, tags] = await Promise.all([getNotesByTag(user.uid, name), getTags(user.uid)]);
+        setEntries(notes);
+        setAllTags(tags);
+      } catch (error) {
+        console.error('Error fetching tagged notes:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [user, name]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">読み込み中...</p>
+      </div>
+    );
+  }
+
+  const colors = getTagColorClasses(allTags.find((tag) => tag.name === name)?.color);
+  const bookCount = new Set(entries.map(({ book }) => book.id)).size;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => router.back()}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <TagIcon className="h-6 w-6 text-gray-500" />
+                <Badge className={`${colors.bg} ${colors.text} text-lg`}>{name}</Badge>
+              </CardTitle>
+              <p className="text-sm text-gray-600">
+                メモ {entries.length}件
+                {bookCount > 0 && <span className="ml-3">{bookCount}冊</span>}
+              </p>
+            </CardHeader>
+            <CardContent>
+              {entries.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">このタグの付いたメモはありません</p>
+              ) : (
+                <div className="divide-y">
+                  {entries.map(({ book, note }) => {
+                    const kind = getNoteKind(note);
+                    const otherTags = (note.tags || []).filter((tag) => tag !== name);
+                    return (
+                      <div
+                        key={note.id}
+                        onClick={() => router.push(`/books/${book.id}#${noteAnchor(note.id!)}`)}
+                        className="py-3 px-2 hover:bg-gray-50 cursor-pointer rounded transition-colors space-y-1"
+                      >
+                        <p className="flex items-center gap-1 text-xs text-gray-500">
+                          <BookOpen className="h-3 w-3 shrink-0" />
+                          <span className="truncate">{book.title}</span>
+                          {note.pageReference && (
+                            <span className="shrink-0 ml-2">📄 {formatPageReference(note.pageReference)}</span>
+                          )}
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className={`shrink-0 ${NOTE_KIND_STYLES[kind]}`}>{NOTE_KIND_LABELS[kind]}</Badge>
+                          <h3 className="font-medium truncate">{note.title || '無題のメモ'}</h3>
+                        </div>
+                        <p className="text-sm text-gray-700 line-clamp-2 whitespace-pre-wrap">{note.content}</p>
+                        {otherTags.length > 0 && (
+                          <TagBadges
+                            tags={otherTags}
+                            allTags={allTags}
+                            maxDisplay={0}
+                            onTagClick={(tagName) => router.push(tagPath(tagName))}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import TagDetailClient from './TagDetailClient';
+
+export async function generateStaticParams() {
+  return [];
+}
+
+export default function TagDetailPage() {
+  return <TagDetailClient />;
+}
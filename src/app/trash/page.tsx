@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteBook, DeleteBookProgress, DeleteBookResult, DELETE_FAILURE_LABELS } from '@/lib/books';
+import {
+  getTrash,
+  restoreBook,
+  restoreNote,
+  deleteNotePermanently,
+  purgeExpiredTrash,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+  TrashContents,
+} from '@/lib/trash';
+import { clearSearchCache } from '@/lib/search';
+import { Book, Note } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DeleteProgressOverlay } from '@/components/DeleteProgressOverlay';
+import { ArrowLeft, BookOpen, FileText, RotateCcw, Trash2 } from 'lucide-react';
+
+const formatDate = (date?: Date | null) =>
+  date ? date.toLocaleDateString('ja-JP', { year: 'numeric', month: 'short', day: 'numeric' }) : '';
+
+// 書籍の完全削除で失敗した項目を表示
+const reportFailures = (title: string, result: DeleteBookResult) => {
+  if (result.failures.length === 0) return;
+  const lines = result.failures.map((f) =>
+    `・${DELETE_FAILURE_LABELS[f.type]}: ${f.label}（${f.message}）`
+  );
+  alert(
+    `「${title}」${result.bookDeleted ? 'を削除しましたが、' : 'を削除できませんでした。'}以下の項目を削除できませんでした:\n\n${lines.join('\n')}`
+  );
+};
+
+export default function TrashPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [trash, setTrash] = useState<TrashContents>({ books: [], notes: [] });
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [deleteProgress, setDeleteProgress] = useState<DeleteBookProgress | null>(null);
+
+  const fetchTrash = async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      await purgeExpiredTrash(user.uid, retentionDays);
+      setTrash(await getTrash(user.uid));
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, [user]);
+
+  const handleRetentionChange = (days: number) => {
+    setRetentionDays(days);
+    setTrashRetentionDays(days);
+  };
+
+  const handleRestoreBook = async (book: Book) => {
+    if (!user) return;
+    try {
+      await restoreBook(user.uid, book.id!);
+      clearSearchCache();
+      setTrash((prev) => ({ ...prev, books: prev.books.filter((b) => b.id !== book.id) }));
+    } catch (error) {
+      console.error('Error restoring book:', error);
+    }
+  };
+
+  const handleRestoreNote = async (note: Note) => {
+    if (!user) return;
+    try {
+      await restoreNote(user.uid, note.bookId, note.id!);
+      clearSearchCache();
+      setTrash((prev) => ({ ...prev, notes: prev.notes.filter((n) => n.note.id !== note.id) }));
+    } catch (error) {
+      console.error('Error restoring note:', error);
+    }
+  };
+
+  const handleDeleteBook = async (book: Book) => {
+    if (!user) return;
+    if (!confirm(`「${book.title}」を完全に削除しますか？メモと添付画像も削除され、元に戻せません。`)) return;
+    try {
+      const result = await deleteBook(user.uid, book.id!, setDeleteProgress);
+      reportFailures(book.title, result);
+      if (result.bookDeleted) {
+        setTrash((prev) => ({ ...prev, books: prev.books.filter((b) => b.id !== book.id) }));
+      }
+    } catch (error) {
+      console.error('Error deleting book:', error);
+      alert('書籍の削除中にエラーが発生しました');
+    } finally {
+      setDeleteProgress(null);
+    }
+  };
+
+  const handleDeleteNote = async (note: Note) => {
+    if (!user) return;
+    if (!confirm('このメモを完全に削除しますか？元に戻せません。')) return;
+    try {
+      await deleteNotePermanently(user.uid, note);
+      setTrash((prev) => ({ ...prev, notes: prev.notes.filter((n) => n.note.id !== note.id) }));
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      alert(`メモの削除中にエラーが発生しました\n${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!user) return;
+    if (!confirm('ゴミ箱を空にしますか？すべての項目が完全に削除され、元に戻せません。')) return;
+    try {
+      // 削除できなかったメモはゴミ箱に残し、残りの項目の削除を続ける
+      const failedNotes: string[] = [];
+      for (const { note } of trash.notes) {
+        try {
+          await deleteNotePermanently(user.uid, note);
+        } catch (error) {
+          console.error('Error deleting note:', error);
+          failedNotes.push(`・${note.title || '無題のメモ'}（${error instanceof Error ? error.message : ''}）`);
+        }
+      }
+      if (failedNotes.length > 0) {
+        alert(`以下のメモを削除できませんでした:\n\n${failedNotes.join('\n')}`);
+      }
+      for (const book of trash.books) {
+        const result = await deleteBook(user.uid, book.id!, setDeleteProgress);
+        reportFailures(book.title, result);
+      }
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      alert('ゴミ箱を空にする途中でエラーが発生しました');
+    } finally {
+      setDeleteProgress(null);
+      await fetchTrash();
+    }
+  };
+
+  const isEmpty = trash.books.length === 0 && trash.notes.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Button variant="ghost" onClick={() => router.push('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+          <Button variant="destructive" onClick={handleEmptyTrash} disabled={isEmpty || loading}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            ゴミ箱を空にする
+          </Button>
+        </div>
+      </header>
+
+      <DeleteProgressOverlay progress={deleteProgress} />
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <h1 className="text-2xl font-bold">🗑️ ゴミ箱</h1>
+            <label className="text-sm text-gray-600 flex items-center gap-2">
+              自動削除
+              <select
+                value={retentionDays}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                className="border rounded px-2 py-1 bg-white"
+              >
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days === 0 ? 'しない' : `${days}日後`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {loading ? (
+            <p className="text-center py-12 text-gray-500">読み込み中...</p>
+          ) : isEmpty ? (
+            <div className="text-center py-16">
+              <Trash2 className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">ゴミ箱は空です</p>
+            </div>
+          ) : (
+            <>
+              {trash.books.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-xl">書籍 ({trash.books.length}件)</CardTitle>
+                  </CardHeader>
+                  <CardContent className="divide-y">
+                    {trash.books.map((book) => (
+                      <div key={book.id} className="flex items-center gap-3 py-3">
+                        <BookOpen className="h-5 w-5 text-blue-600 shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{book.title}</p>
+                          <p className="text-xs text-gray-500">
+                            {book.author && <span className="mr-3">{book.author}</span>}
+                            {formatDate(book.deletedAt)} に削除
+                          </p>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => handleRestoreBook(book)}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          復元
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteBook(book)} title="完全に削除">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {trash.notes.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-xl">メモ ({trash.notes.length}件)</CardTitle>
+                  </CardHeader>
+                  <CardContent className="divide-y">
+                    {trash.notes.map(({ note, book }) => (
+                      <div key={note.id} className="flex items-center gap-3 py-3">
+                        <FileText className="h-5 w-5 text-green-600 shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{note.title || '無題のメモ'}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            <span className="mr-3">📚 {book.title}</span>
+                            {formatDate(note.deletedAt)} に削除
+                          </p>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => handleRestoreNote(note)}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          復元
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteNote(note)} title="完全に削除">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { findBookByISBN } from '@/lib/books';
+import { searchBookByISBN, searchBooksByTitle, getCoverImageUrl, GoogleBookInfo } from '@/lib/googleBooks';
+import {
+  getWishlist,
+  addToWishlist,
+  updateWishlistInfo,
+  markAsPurchased,
+  removeFromWishlist,
+  bookFromGoogleInfo,
+  WISHLIST_PRIORITY_LABELS,
+  DESIRED_FORMAT_LABELS,
+} from '@/lib/wishlist';
+import { clearSearchCache } from '@/lib/search';
+import { checkIsbn, cleanIsbn, ISBN_ERROR_MESSAGES } from '@/lib/isbn';
+import { Book, WishlistInfo, WishlistPriority } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, BookOpen, Heart, Loader2, Plus, Search, ShoppingCart, Trash2, X } from 'lucide-react';
+
+// yyyy-mm-dd（ローカル日付）
+const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInputValue = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// ISBN らしい入力か（10〜13桁の数字はタイトルではなく ISBN として扱う）
+const looksLikeIsbn = (value: string) => /^\d{9,12}[\dX]$/.test(cleanIsbn(value));
+
+export default function WishlistPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [items, setItems] = useState<Book[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // 追加用の検索
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [candidates, setCandidates] = useState<GoogleBookInfo[]>([]);
+
+  // 購入フォーム
+  const [purchasingId, setPurchasingId] = useState<string | null>(null);
+  const [purchaseDate, setPurchaseDate] = useState('');
+  const [purchasePrice, setPurchasePrice] = useState('');
+  const [purchaseStore, setPurchaseStore] = useState('');
+  const [purchaseFormat, setPurchaseFormat] = useState<'paper' | 'ebook'>('paper');
+
+  const fetchWishlist = async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setItems(await getWishlist(user.uid));
+    } catch (error) {
+      console.error('Error fetching wishlist:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWishlist();
+  }, [user]);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+    setSearching(true);
+    try {
+      if (looksLikeIsbn(query)) {
+        const checked = checkIsbn(query);
+        if (!checked.valid) {
+          alert(ISBN_ERROR_MESSAGES[checked.error!]);
+          return;
+        }
+        const info = await searchBookByISBN(checked.isbn13!);
+        setCandidates(info ? [info] : []);
+        if (!info) alert('書籍情報が見つかりませんでした');
+      } else {
+        const results = await searchBooksByTitle(query.trim());
+        setCandidates(results);
+        if (results.length === 0) alert('書籍が見つかりませんでした');
+      }
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleAdd = async (info: GoogleBookInfo) => {
+    if (!user) return;
+    try {
+      if (info.isbn13) {
+        const existing = await findBookByISBN(user.uid, info.isbn13);
+        if (existing) {
+          alert(
+            existing.ownership === 'wishlist'
+              ? `「${existing.title}」はすでにウィッシュリストにあります`
+              : `「${existing.title}」はすでに蔵書にあります`
+          );
+          return;
+        }
+      }
+      await addToWishlist(user.uid, bookFromGoogleInfo(info));
+      setCandidates((prev) => prev.filter((c) => c !== info));
+      await fetchWishlist();
+    } catch (error) {
+      console.error('Error adding to wishlist:', error);
+      alert('ウィッシュリストへの追加に失敗しました');
+    }
+  };
+
+  const handleInfoChange = async (book: Book, updates: Partial<Pick<WishlistInfo, 'priority' | 'desiredFormat'>>) => {
+    if (!user) return;
+    try {
+      const bookUpdates = await updateWishlistInfo(user.uid, book, updates);
+      const next = items.map((item) => (item.id === book.id ? { ...item, ...bookUpdates } : item));
+      setItems(updates.priority ? await getWishlist(user.uid) : next);
+    } catch (error) {
+      console.error('Error updating wishlist:', error);
+    }
+  };
+
+  const handleStartPurchase = (book: Book) => {
+    setPurchasingId(book.id!);
+    setPurchaseDate(toDateInputValue(new Date()));
+    setPurchasePrice('');
+    setPurchaseStore('');
+    setPurchaseFormat(book.wishlist?.desiredFormat === 'ebook' ? 'ebook' : 'paper');
+  };
+
+  const handlePurchase = async (book: Book) => {
+    if (!user || !purchaseDate) return;
+    try {
+      await markAsPurchased(user.uid, book, {
+        purchasedAt: fromDateInputValue(purchaseDate),
+        purchasePrice: purchasePrice ? Number(purchasePrice) : undefined,
+        purchaseStore: purchaseStore.trim() || undefined,
+        format: purchaseFormat,
+      });
+      clearSearchCache();
+      setPurchasingId(null);
+      setItems((prev) => prev.filter((item) => item.id !== book.id));
+    } catch (error) {
+      console.error('Error marking as purchased:', error);
+      alert('購入の記録に失敗しました');
+    }
+  };
+
+  const handleRemove = async (book: Book) => {
+    if (!user) return;
+    if (!confirm(`「${book.title}」をウィッシュリストから削除しますか？`)) return;
+    try {
+      await removeFromWishlist(user.uid, book.id!);
+      setItems((prev) => prev.filter((item) => item.id !== book.id));
+    } catch (error) {
+      console.error('Error removing from wishlist:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <header className="border-b bg-white sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => router.push('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            戻る
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold">💝 ウィッシュリスト</h1>
+
+          {/* 追加 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">ほしい本を追加</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                  placeholder="ISBN またはタイトル"
+                  className="bg-white"
+                />
+                <Button onClick={handleSearch} disabled={searching || !query.trim()}>
+                  {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                </Button>
+              </div>
+
+              {candidates.length > 0 && (
+                <div className="divide-y border rounded-lg">
+                  {candidates.map((info, index) => {
+                    const cover = getCoverImageUrl(info.imageLinks);
+                    return (
+                      <div key={`${info.isbn13 || info.title}-${index}`} className="flex items-center gap-3 p-2">
+                        <div className="w-10 h-14 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center">
+                          {cover ? (
+                            <img src={cover} alt="" className="w-full h-full object-cover" />
+                          ) : (
+                            <BookOpen className="h-5 w-5 text-gray-300" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{info.title}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {info.authors?.join(', ')}
+                            {info.publisher && <span className="ml-2">{info.publisher}</span>}
+                          </p>
+                        </div>
+                        <Button size="sm" variant="outline" onClick={() => handleAdd(info)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          追加
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <div className="p-2 text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setCandidates([])}>
+                      <X className="h-4 w-4 mr-1" />
+                      閉じる
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* 一覧 */}
+          {loading ? (
+            <p className="text-center py-12 text-gray-500">読み込み中...</p>
+          ) : items.length === 0 ? (
+            <div className="text-center py-16">
+              <Heart className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">ウィッシュリストは空です</p>
+            </div>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">ほしい本 ({items.length}冊)</CardTitle>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {items.map((book) => (
+                  <div key={book.id} className="py-3 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-14 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center">
+                        {book.coverImage ? (
+                          <img src={book.coverImage} alt="" className="w-full h-full object-cover" />
+                        ) : (
+                          <BookOpen className="h-5 w-5 text-gray-300" />
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{book.title}</p>
+                        {book.author && <p className="text-xs text-gray-500 truncate">{book.author}</p>}
+                      </div>
+                      <select
+                        value={book.wishlist?.priority || 'medium'}
+                        onChange={(e) => handleInfoChange(book, { priority: e.target.value as WishlistPriority })}
+                        className="border rounded px-2 py-1 bg-white text-sm"
+                        title="優先度"
+                      >
+                        {Object.entries(WISHLIST_PRIORITY_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>優先度: {label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={book.wishlist?.desiredFormat || 'either'}
+                        onChange={(e) => handleInfoChange(book, { desiredFormat: e.target.value as WishlistInfo['desiredFormat'] })}
+                        className="border rounded px-2 py-1 bg-white text-sm hidden sm:block"
+                        title="希望する形式"
+                      >
+                        {Object.entries(DESIRED_FORMAT_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      <Button size="sm" onClick={() => handleStartPurchase(book)} disabled={purchasingId === book.id}>
+                        <ShoppingCart className="h-4 w-4 mr-1" />
+                        購入した
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(book)} title="削除">
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+
+                    {purchasingId === book.id && (
+                      <div className="p-3 border rounded-lg bg-gray-50 flex items-end gap-3 flex-wrap">
+                        <div>
+                          <Label htmlFor="purchase-date" className="text-xs">購入日</Label>
+                          <Input id="purchase-date" type="date" value={purchaseDate} onChange={(e) => setPurchaseDate(e.target.value)} className="mt-1 bg-white" />
+                        </div>
+                        <div>
+                          <Label htmlFor="purchase-price" className="text-xs">価格（円）</Label>
+                          <Input id="purchase-price" type="number" min={0} value={purchasePrice} onChange={(e) => setPurchasePrice(e.target.value)} className="mt-1 bg-white w-32" placeholder="任意" />
+                        </div>
+                        <div>
+                          <Label htmlFor="purchase-store" className="text-xs">購入店</Label>
+                          <Input id="purchase-store" value={purchaseStore} onChange={(e) => setPurchaseStore(e.target.value)} className="mt-1 bg-white w-40" placeholder="任意" />
+                        </div>
+                        <div>
+                          <Label htmlFor="purchase-format" className="text-xs">形式</Label>
+                          <select
+                            id="purchase-format"
+                            value={purchaseFormat}
+                            onChange={(e) => setPurchaseFormat(e.target.value as 'paper' | 'ebook')}
+                            className="mt-1 border rounded-md px-2 h-9 bg-white text-sm block"
+                          >
+                            <option value="paper">紙の書籍</option>
+                            <option value="ebook">電子書籍</option>
+                          </select>
+                        </div>
+                        <div className="flex gap-2 ml-auto">
+                          <Button variant="outline" size="sm" onClick={() => setPurchasingId(null)}>
+                            キャンセル
+                          </Button>
+                          <Button size="sm" onClick={() => handlePurchase(book)} disabled={!purchaseDate}>
+                            蔵書に追加
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
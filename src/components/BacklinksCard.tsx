@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Book } from '@/types/book';
+import { Backlink, getBacklinks, noteAnchor, parseWikiLinks } from '@/lib/noteLinks';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Link2 } from 'lucide-react';
+
+interface BacklinksCardProps {
+  userId: string;
+  book: Book;
+}
+
+// リンクを含む行を抜き出す（どういう文脈でリンクしたかがわかるように）
+const linkContext = (content: string) => {
+  const line = content.split('\n').find((l) => parseWikiLinks(l).length > 0) ?? '';
+  return line.length > 80 ? `${line.slice(0, 80)}…` : line;
+};
+
+export function BacklinksCard({ userId, book }: BacklinksCardProps) {
+  const router = useRouter();
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+
+  // 他の書籍のメモが保存されると、この書籍の更新日時は変わらないので、開くたびに読み込む
+  useEffect(() => {
+    getBacklinks(userId, book.id!)
+      .then(setBacklinks)
+      .catch((error) => console.error('Error fetching backlinks:', error));
+  }, [userId, book.id]);
+
+  if (backlinks.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          この本へのリンク ({backlinks.length}件)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {backlinks.map(({ book: fromBook, note, targetNotes }) => {
+          const targets = [...new Set(targetNotes.map((target) => target?.title || (target ? '無題のメモ' : null)))];
+          return (
+            <button
+              key={note.id}
+              type="button"
+              className="w-full text-left border rounded-lg p-3 hover:bg-gray-50 transition-colors"
+              onClick={() => router.push(`/books/${fromBook.id}#${noteAnchor(note.id!)}`)}
+            >
+              <p className="text-sm">
+                <span className="font-semibold">{fromBook.title}</span>
+                <span className="text-gray-500"> / {note.title || '無題のメモ'}</span>
+              </p>
+              <p className="text-xs text-gray-500 mt-1 truncate">{linkContext(note.content)}</p>
+              <p className="text-xs text-purple-700 mt-1">
+                → {targets.map((title) => title ?? 'この本').join('、')}
+              </p>
+            </button>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
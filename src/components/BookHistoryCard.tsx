@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Book, BookChange } from '@/types/book';
+import {
+  CHANGE_FIELD_LABELS,
+  CHANGE_SOURCE_LABELS,
+  ChangeOperation,
+  formatChangeValue,
+  getBookHistory,
+  getOperationChanges,
+  groupChangeOperations,
+  isVisibleChange,
+  revertChanges,
+  revertOperation,
+  RevertResult,
+} from '@/lib/bookHistory';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowRight, Loader2, Undo2 } from 'lucide-react';
+
+interface BookHistoryCardProps {
+  userId: string;
+  book: Book;
+}
+
+// 最初に表示する操作の数
+const INITIAL_OPERATIONS = 5;
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('ja-JP', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export function BookHistoryCard({ userId, book }: BookHistoryCardProps) {
+  const [operations, setOperations] = useState<ChangeOperation[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [reverting, setReverting] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // 書籍が更新されたら（他の端末・一括編集を含む）読み直す
+  const updatedAt = book.updatedAt.getTime();
+  useEffect(() => {
+    getBookHistory(userId, book.id!)
+      .then((changes) => setOperations(groupChangeOperations(changes.filter(isVisibleChange))))
+      .catch((error) => console.error('Error fetching book history:', error));
+  }, [userId, book.id, updatedAt, reloadKey]);
+
+  const reportSkipped = (result: RevertResult) => {
+    if (result.skipped.length === 0) return;
+    alert(
+      result.reverted > 0
+        ? `${result.reverted}件を元に戻しました。${result.skipped.length}件は後から変更されているため戻していません。`
+        : '後から変更されているため、元に戻しませんでした。'
+    );
+  };
+
+  const handleRevertChange = async (change: BookChange) => {
+    const label = CHANGE_FIELD_LABELS[change.field] ?? change.field;
+    if (!confirm(`${label}を「${formatChangeValue(change.field, change.oldValue)}」に戻しますか？`)) return;
+
+    setReverting(change.id!);
+    try {
+      reportSkipped(await revertChanges(userId, [change]));
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error reverting change:', error);
+      alert('元に戻せませんでした');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  const handleRevertOperation = async (operation: ChangeOperation) => {
+    setReverting(operation.batchId);
+    try {
+      const changes = (await getOperationChanges(userId, operation.batchId)).filter((c) => !c.revertedAt);
+      const bookCount = new Set(changes.map((c) => c.bookId)).size;
+      if (!confirm(`この${CHANGE_SOURCE_LABELS[operation.source]}で変更した${bookCount}冊の変更をすべて元に戻しますか？`)) return;
+      reportSkipped(await revertOperation(userId, operation.batchId));
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error reverting operation:', error);
+      alert('元に戻せませんでした');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  if (operations.length === 0) return null;
+
+  const visible = showAll ? operations : operations.slice(0, INITIAL_OPERATIONS);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">📝 変更履歴</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {visible.map((operation) => {
+          const pending = operation.changes.some((c) => !c.revertedAt);
+          return (
+            <div key={operation.batchId} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-500">
+                  {formatDateTime(operation.changedAt)}・{CHANGE_SOURCE_LABELS[operation.source]}
+                </span>
+                {operation.source === 'bulk-edit' && pending && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => handleRevertOperation(operation)}
+                    disabled={reverting !== null}
+                  >
+                    {reverting === operation.batchId ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Undo2 className="h-3 w-3 mr-1" />
+                    )}
+                    一括編集をすべて戻す
+                  </Button>
+                )}
+              </div>
+              {operation.changes.map((change) => (
+                <div
+                  key={change.id}
+                  className={`flex items-center gap-2 text-sm ${change.revertedAt ? 'text-gray-400' : 'text-gray-700'}`}
+                >
+                  <span className="w-24 shrink-0 text-gray-500">{CHANGE_FIELD_LABELS[change.field] ?? change.field}</span>
+                  <span className="min-w-0 flex-1 flex items-center gap-1 flex-wrap break-all">
+                    <span className="line-through text-gray-400">{formatChangeValue(change.field, change.oldValue)}</span>
+                    <ArrowRight className="h-3 w-3 text-gray-400 shrink-0" />
+                    <span>{formatChangeValue(change.field, change.newValue)}</span>
+                  </span>
+                  {change.revertedAt ? (
+                    <span className="text-xs shrink-0">戻し済み</span>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 shrink-0"
+                      onClick={() => handleRevertChange(change)}
+                      disabled={reverting !== null}
+                      title="元に戻す"
+                    >
+                      {reverting === change.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Undo2 className="h-3 w-3" />}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+        {operations.length > INITIAL_OPERATIONS && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll((prev) => !prev)}>
+            {showAll ? '閉じる' : `すべて表示（${operations.length}件）`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
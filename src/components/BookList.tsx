@@ -1,10 +1,15 @@
 'use client';
 
-import { Book, Tag } from '@/types/book';
+import { useLayoutEffect, useRef, useState } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+import { Book, Series, Tag } from '@/types/book';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { getTagColorClasses } from '@/lib/tags';
-import { BookOpen, StickyNote, Smartphone, BookText } from 'lucide-react';
+import { getProgressPercent } from '@/lib/readingSessions';
+import { getSeriesVolumes } from '@/lib/series';
+import { getActiveLoan, getDaysOverdue } from '@/lib/loans';
+import { BookOpen, StickyNote, Smartphone, BookText, ChevronDown, ChevronRight, Library } from 'lucide-react';
 
 interface BookListProps {
   books: Book[];
@@ -15,8 +20,24 @@ interface BookListProps {
   selectionMode?: boolean;
   selectedBooks?: Set<string>;
   onSelectionChange?: (bookId: string, selected: boolean) => void;
+  // シリーズごとにまとめて表示
+  allSeries?: Series[];
+  groupBySeries?: boolean;
+  onSeriesClick?: (series: Series) => void;
 }
 
+type ListItem =
+  | { type: 'book'; book: Book }
+  | { type: 'series'; series: Series; books: Book[] };
+
+// 1行ずつ描画する単位（展開したシリーズの巻も1行ずつ）
+type ListRow =
+  | { type: 'book'; book: Book; nested: boolean }
+  | { type: 'series'; series: Series; books: Book[] };
+
+// 行の高さの目安（実際の高さは描画後に測る）
+const ROW_HEIGHT_ESTIMATE = 80;
+
 const statusConfig = {
   unread: { label: '未読', color: 'bg-gray-100 text-gray-700' },
   reading: { label: '読書中', color: 'bg-blue-100 text-blue-700' },
@@ -32,14 +53,13 @@ export function BookList({
   selectionMode = false,
   selectedBooks = new Set(),
   onSelectionChange,
+  allSeries = [],
+  groupBySeries = false,
+  onSeriesClick,
 }: BookListProps) {
-  if (books.length === 0) {
-    return (
-      <p className="text-center text-gray-500 py-8">
-        書籍がありません
-      </p>
-    );
-  }
+  const [expandedSeries, setExpandedSeries] = useState<Set<string>>(new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
 
   const handleItemClick = (book: Book, e: React.MouseEvent) => {
     if (selectionMode && onSelectionChange) {
@@ -55,112 +75,277 @@ export function BookList({
     return getTagColorClasses(tag?.color);
   };
 
-  return (
-    <div className="divide-y">
-      {books.map((book) => {
-        const isSold = book.readingStatus === 'sold';
-        const noteCount = noteCounts?.get(book.id!) || 0;
-        const isSelected = selectedBooks.has(book.id!);
-        const displayTags = (book.tags || []).slice(0, 2);
-        const remainingTags = (book.tags || []).length - displayTags.length;
-        
-        return (
-          <div
-            key={book.id}
-            onClick={(e) => handleItemClick(book, e)}
-            className={`book-list-item flex items-center gap-3 py-3 px-2 hover:bg-gray-50 cursor-pointer rounded transition-colors select-none ${
-              isSold ? 'opacity-60' : ''
-            } ${isSelected ? 'bg-blue-50 hover:bg-blue-100' : ''}`}
+  const toggleSeries = (seriesId: string) => {
+    setExpandedSeries((prev) => {
+      const next = new Set(prev);
+      if (next.has(seriesId)) {
+        next.delete(seriesId);
+      } else {
+        next.add(seriesId);
+      }
+      return next;
+    });
+  };
+
+  // 同じシリーズの書籍（2冊以上）を最初に出てきた位置にまとめる
+  const buildItems = (): ListItem[] => {
+    if (!groupBySeries) return books.map((book) => ({ type: 'book', book }));
+
+    const seriesById = new Map(allSeries.map((s) => [s.id!, s]));
+    const members = new Map<string, Book[]>();
+    for (const book of books) {
+      if (book.seriesId && seriesById.has(book.seriesId)) {
+        members.set(book.seriesId, [...(members.get(book.seriesId) || []), book]);
+      }
+    }
+
+    const items: ListItem[] = [];
+    const added = new Set<string>();
+    for (const book of books) {
+      const group = book.seriesId ? members.get(book.seriesId) : undefined;
+      if (!group || group.length < 2) {
+        items.push({ type: 'book', book });
+      } else if (!added.has(book.seriesId!)) {
+        added.add(book.seriesId!);
+        const sorted = [...group].sort((a, b) => (a.volume ?? Infinity) - (b.volume ?? Infinity));
+        items.push({ type: 'series', series: seriesById.get(book.seriesId!)!, books: sorted });
+      }
+    }
+    return items;
+  };
+
+  const rows: ListRow[] = buildItems().flatMap((item): ListRow[] => {
+    if (item.type === 'book') return [{ type: 'book', book: item.book, nested: false }];
+    const header: ListRow = { type: 'series', series: item.series, books: item.books };
+    if (!expandedSeries.has(item.series.id!)) return [header];
+    return [header, ...item.books.map((book): ListRow => ({ type: 'book', book, nested: true }))];
+  });
+
+  // ページ全体のスクロールに合わせて、見えている行だけを描画する
+  const virtualizer = useWindowVirtualizer({
+    count: rows.length,
+    estimateSize: () => ROW_HEIGHT_ESTIMATE,
+    overscan: 10,
+    scrollMargin,
+    getItemKey: (index) => {
+      const row = rows[index];
+      return row.type === 'series' ? `series-${row.series.id}` : `book-${row.book.id}`;
+    },
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+
+  // 一覧より上の要素の高さが変わってもずれないよう、ページの大きさが変わるたびに一覧の位置を測り直す
+  useLayoutEffect(() => {
+    const measure = () => {
+      if (!listRef.current) return;
+      const top = listRef.current.getBoundingClientRect().top + window.scrollY;
+      setScrollMargin((prev) => (prev === top ? prev : top));
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  if (books.length === 0) {
+    return (
+      <p className="text-center text-gray-500 py-8">
+        書籍がありません
+      </p>
+    );
+  }
+
+  const renderSeriesHeader = (series: Series, seriesBooks: Book[]) => {
+    const isExpanded = expandedSeries.has(series.id!);
+    const { missing } = getSeriesVolumes(series, seriesBooks);
+    const cover = seriesBooks.find((b) => b.coverImage)?.coverImage;
+
+    return (
+      <div
+        onClick={() => toggleSeries(series.id!)}
+        className="flex items-center gap-3 py-3 px-2 hover:bg-gray-50 cursor-pointer rounded transition-colors select-none"
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4 text-gray-400 shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-gray-400 shrink-0" />
+        )}
+        <div className="relative w-10 h-14 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center">
+          {cover ? (
+            <img src={cover} alt="" className="w-full h-full object-cover pointer-events-none" draggable={false} />
+          ) : (
+            <Library className="h-5 w-5 text-gray-300" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-medium truncate text-gray-900">{series.name}</h3>
+          <p className="text-sm text-gray-500">
+            {seriesBooks.length}冊
+            {series.expectedVolumes ? ` / 全${series.expectedVolumes}巻` : ''}
+            {missing.length > 0 && <span className="text-red-600 ml-2">欠巻 {missing.length}</span>}
+          </p>
+        </div>
+        {onSeriesClick && (
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline shrink-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeriesClick(series);
+            }}
           >
-            {/* チェックボックス（選択モード時のみ） */}
-            {selectionMode && (
-              <div className="shrink-0" onClick={(e) => e.stopPropagation()}>
-                <Checkbox
-                  checked={isSelected}
-                  onCheckedChange={(checked) => {
-                    onSelectionChange?.(book.id!, checked === true);
-                  }}
-                />
-              </div>
-            )}
+            シリーズを見る
+          </button>
+        )}
+      </div>
+    );
+  };
 
-            {/* サムネイル */}
-            <div className={`relative w-10 h-14 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center ${
-              isSold ? 'grayscale' : ''
+  const renderBook = (book: Book, nested = false) => {
+    const isSold = book.readingStatus === 'sold';
+    const noteCount = noteCounts?.get(book.id!) || 0;
+    const isSelected = selectedBooks.has(book.id!);
+    const displayTags = (book.tags || []).slice(0, 2);
+    const remainingTags = (book.tags || []).length - displayTags.length;
+    const progress = book.readingStatus === 'reading' && book.currentPage ? getProgressPercent(book) : null;
+    const activeLoan = getActiveLoan(book);
+    
+    return (
+      <div
+        key={book.id}
+        onClick={(e) => handleItemClick(book, e)}
+        className={`book-list-item flex items-center gap-3 py-3 px-2 ${nested ? 'pl-8' : ''} hover:bg-gray-50 cursor-pointer rounded transition-colors select-none ${
+          isSold ? 'opacity-60' : ''
+        } ${isSelected ? 'bg-blue-50 hover:bg-blue-100' : ''}`}
+      >
+        {/* チェックボックス（選択モード時のみ） */}
+        {selectionMode && (
+          <div className="shrink-0" onClick={(e) => e.stopPropagation()}>
+            <Checkbox
+              checked={isSelected}
+              onCheckedChange={(checked) => {
+                onSelectionChange?.(book.id!, checked === true);
+              }}
+            />
+          </div>
+        )}
+
+        {/* サムネイル */}
+        <div className={`relative w-10 h-14 bg-gray-100 rounded overflow-hidden shrink-0 flex items-center justify-center ${
+          isSold ? 'grayscale' : ''
+        }`}>
+          {book.coverImage ? (
+            <img
+              src={book.coverImage}
+              alt=""
+              className="w-full h-full object-cover pointer-events-none"
+              draggable={false}
+              onError={(e) => {
+                (e.target as HTMLImageElement).style.display = 'none';
+              }}
+            />
+          ) : (
+            <BookOpen className="h-5 w-5 text-gray-300" />
+          )}
+          {/* 形式アイコン（右下に小さく表示） */}
+          {book.format && (
+            <div className={`absolute -bottom-0.5 -right-0.5 p-0.5 rounded-tl ${
+              book.format === 'ebook' ? 'bg-purple-500' : 'bg-amber-500'
             }`}>
-              {book.coverImage ? (
-                <img
-                  src={book.coverImage}
-                  alt=""
-                  className="w-full h-full object-cover pointer-events-none"
-                  draggable={false}
-                  onError={(e) => {
-                    (e.target as HTMLImageElement).style.display = 'none';
-                  }}
-                />
+              {book.format === 'ebook' ? (
+                <Smartphone className="h-2.5 w-2.5 text-white" />
               ) : (
-                <BookOpen className="h-5 w-5 text-gray-300" />
-              )}
-              {/* 形式アイコン（右下に小さく表示） */}
-              {book.format && (
-                <div className={`absolute -bottom-0.5 -right-0.5 p-0.5 rounded-tl ${
-                  book.format === 'ebook' ? 'bg-purple-500' : 'bg-amber-500'
-                }`}>
-                  {book.format === 'ebook' ? (
-                    <Smartphone className="h-2.5 w-2.5 text-white" />
-                  ) : (
-                    <BookText className="h-2.5 w-2.5 text-white" />
-                  )}
-                </div>
+                <BookText className="h-2.5 w-2.5 text-white" />
               )}
             </div>
+          )}
+        </div>
 
-            {/* タイトル・著者・タグ */}
-            <div className="flex-1 min-w-0">
-              <h3 className={`font-medium truncate ${isSold ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
-                {book.title}
-              </h3>
-              <div className="flex items-center gap-2">
-                {book.author && (
-                  <p className="text-sm text-gray-500 truncate">
-                    {book.author}
-                  </p>
-                )}
-                {/* メモ数表示 */}
-                {noteCount > 0 && (
-                  <span className="flex items-center gap-0.5 text-xs text-amber-600 shrink-0">
-                    <StickyNote className="h-3 w-3" />
-                    {noteCount}
-                  </span>
-                )}
+        {/* タイトル・著者・タグ */}
+        <div className="flex-1 min-w-0">
+          <h3 className={`font-medium truncate ${isSold ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+            {nested && book.volume && <span className="text-gray-500 mr-1">第{book.volume}巻</span>}
+            {book.title}
+          </h3>
+          <div className="flex items-center gap-2">
+            {book.author && (
+              <p className="text-sm text-gray-500 truncate">
+                {book.author}
+              </p>
+            )}
+            {/* メモ数表示 */}
+            {noteCount > 0 && (
+              <span className="flex items-center gap-0.5 text-xs text-amber-600 shrink-0">
+                <StickyNote className="h-3 w-3" />
+                {noteCount}
+              </span>
+            )}
+          </div>
+          {/* 読書進捗（読書中のみ） */}
+          {progress !== null && (
+            <div className="flex items-center gap-2 mt-1">
+              <div className="h-1.5 w-24 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${progress}%` }} />
               </div>
-              {/* タグ表示 */}
-              {displayTags.length > 0 && (
-                <div className="flex items-center gap-1 mt-1">
-                  {displayTags.map((tagName) => {
-                    const colors = getColorForTag(tagName);
-                    return (
-                      <Badge
-                        key={tagName}
-                        className={`${colors.bg} ${colors.text} text-xs px-1.5 py-0`}
-                      >
-                        {tagName}
-                      </Badge>
-                    );
-                  })}
-                  {remainingTags > 0 && (
-                    <Badge className="bg-gray-100 text-gray-500 text-xs px-1.5 py-0">
-                      +{remainingTags}
-                    </Badge>
-                  )}
-                </div>
+              <span className="text-xs text-gray-500">
+                p.{book.currentPage}/{book.pageCount}（{progress}%）
+              </span>
+            </div>
+          )}
+          {/* タグ表示 */}
+          {displayTags.length > 0 && (
+            <div className="flex items-center gap-1 mt-1">
+              {displayTags.map((tagName) => {
+                const colors = getColorForTag(tagName);
+                return (
+                  <Badge
+                    key={tagName}
+                    className={`${colors.bg} ${colors.text} text-xs px-1.5 py-0`}
+                  >
+                    {tagName}
+                  </Badge>
+                );
+              })}
+              {remainingTags > 0 && (
+                <Badge className="bg-gray-100 text-gray-500 text-xs px-1.5 py-0">
+                  +{remainingTags}
+                </Badge>
               )}
             </div>
+          )}
+        </div>
 
-            {/* ステータス */}
-            <Badge className={`shrink-0 ${statusConfig[book.readingStatus].color}`}>
-              {statusConfig[book.readingStatus].label}
-            </Badge>
+        {/* 貸出中 */}
+        {activeLoan && (
+          <Badge
+            className={`shrink-0 ${getDaysOverdue(activeLoan) > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}
+            title={`${activeLoan.borrower}さんに貸出中`}
+          >
+            貸出中
+          </Badge>
+        )}
+
+        {/* ステータス */}
+        <Badge className={`shrink-0 ${statusConfig[book.readingStatus].color}`}>
+          {statusConfig[book.readingStatus].label}
+        </Badge>
+      </div>
+    );
+  };
+
+  return (
+    <div ref={listRef} className="relative" style={{ height: virtualizer.getTotalSize() }}>
+      {virtualRows.map((virtualRow) => {
+        const row = rows[virtualRow.index];
+        return (
+          <div
+            key={virtualRow.key}
+            data-index={virtualRow.index}
+            ref={virtualizer.measureElement}
+            className={`absolute left-0 top-0 w-full ${virtualRow.index < rows.length - 1 ? 'border-b' : ''}`}
+            style={{ transform: `translateY(${virtualRow.start - virtualizer.options.scrollMargin}px)` }}
+          >
+            {row.type === 'book' ? renderBook(row.book, row.nested) : renderSeriesHeader(row.series, row.books)}
           </div>
         );
       })}
@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { Book, Tag } from '@/types/book';
-import { getTags, addTag, TAG_COLORS, getTagColorClasses } from '@/lib/tags';
+import { watchTags, addTag, TAG_COLORS, getTagColorClasses } from '@/lib/tags';
+import { SALE_CHANNEL_SUGGESTIONS } from '@/lib/ledger';
+import { LocationPicker } from '@/components/LocationPicker';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -33,6 +35,11 @@ interface BulkEditDialogProps {
   onSave: (updates: Partial<Book>, fieldsToUpdate: string[], tagsToAdd?: string[]) => Promise<void>;
 }
 
+const fromDateInputValue = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
 const statusOptions = [
   { value: 'unread', label: '未読', color: 'bg-gray-100 text-gray-800' },
   { value: 'reading', label: '読書中', color: 'bg-blue-100 text-blue-800' },
@@ -62,25 +69,31 @@ export function BulkEditDialog({
   const [updateLocation, setUpdateLocation] = useState(false);
   const [updateNdc, setUpdateNdc] = useState(false);
   const [updateTags, setUpdateTags] = useState(false);
+  const [updatePurchase, setUpdatePurchase] = useState(false);
+  const [updateSale, setUpdateSale] = useState(false);
 
   // 更新する値
   const [format, setFormat] = useState<'paper' | 'ebook'>('paper');
   const [status, setStatus] = useState<'unread' | 'reading' | 'completed' | 'sold'>('unread');
   const [category, setCategory] = useState('');
-  const [location, setLocation] = useState('');
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [location, setLocation] = useState<string | null>(null);
   const [ndc, setNdc] = useState('');
   const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [purchasedAt, setPurchasedAt] = useState('');
+  const [purchaseStore, setPurchaseStore] = useState('');
+  const [saleDate, setSaleDate] = useState('');
+  const [saleChannel, setSaleChannel] = useState('');
   
   // 新規タグ作成
   const [isCreatingTag, setIsCreatingTag] = useState(false);
   const [newTagName, setNewTagName] = useState('');
   const [newTagColor, setNewTagColor] = useState('blue');
 
-  // タグ一覧を取得
+  // タグ一覧を購読（開いている間だけ）
   useEffect(() => {
-    if (open && userId) {
-      getTags(userId).then(setAllTags).catch(console.error);
-    }
+    if (!open || !userId) return;
+    return watchTags(userId, setAllTags, console.error);
   }, [open, userId]);
 
   const handleSave = async () => {
@@ -100,7 +113,8 @@ export function BulkEditDialog({
       fieldsToUpdate.push('category');
     }
     if (updateLocation) {
-      updates.location = location || undefined;
+      updates.locationId = locationId;
+      updates.location = location;
       fieldsToUpdate.push('location');
     }
     if (updateNdc) {
@@ -108,6 +122,28 @@ export function BulkEditDialog({
       fieldsToUpdate.push('ndc');
     }
 
+    if (updatePurchase) {
+      if (purchasedAt) {
+        updates.purchasedAt = fromDateInputValue(purchasedAt);
+        fieldsToUpdate.push('purchasedAt');
+      }
+      if (purchaseStore.trim()) {
+        updates.purchaseStore = purchaseStore.trim();
+        fieldsToUpdate.push('purchaseStore');
+      }
+    }
+    // 売却日は売却済みの書籍だけに反映（履歴の売却イベントも直す）
+    if (updateSale) {
+      if (saleDate) {
+        updates.soldAt = fromDateInputValue(saleDate);
+        fieldsToUpdate.push('soldAt');
+      }
+      if (saleChannel.trim()) {
+        updates.saleChannel = saleChannel.trim();
+        fieldsToUpdate.push('saleChannel');
+      }
+    }
+
     if (fieldsToUpdate.length === 0 && (!updateTags || tagsToAdd.length === 0)) {
       alert('更新する項目を選択してください');
       return;
@@ -133,10 +169,17 @@ export function BulkEditDialog({
     setUpdateLocation(false);
     setUpdateNdc(false);
     setUpdateTags(false);
+    setUpdatePurchase(false);
+    setUpdateSale(false);
     setCategory('');
-    setLocation('');
+    setLocationId(null);
+    setLocation(null);
     setNdc('');
     setTagsToAdd([]);
+    setPurchasedAt('');
+    setPurchaseStore('');
+    setSaleDate('');
+    setSaleChannel('');
     setIsCreatingTag(false);
     setNewTagName('');
   };
@@ -402,12 +445,15 @@ export function BulkEditDialog({
             </div>
             {updateLocation && (
               <div className="ml-6">
-                <Input
-                  value={location}
-                  onChange={(e) => setLocation(e.target.value)}
-                  placeholder="保管場所（空欄で削除）"
-                  className="bg-white"
+                <LocationPicker
+                  userId={userId}
+                  locationId={locationId}
+                  onChange={(id, label) => {
+                    setLocationId(id);
+                    setLocation(label);
+                  }}
                 />
+                <p className="text-xs text-gray-500 mt-1">未設定を選ぶと保管場所を削除します</p>
               </div>
             )}
           </div>
@@ -435,6 +481,73 @@ export function BulkEditDialog({
               </div>
             )}
           </div>
+
+          {/* 購入情報 */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="update-purchase"
+                checked={updatePurchase}
+                onCheckedChange={(checked) => setUpdatePurchase(checked === true)}
+              />
+              <Label htmlFor="update-purchase" className="font-medium">
+                購入日・購入店を変更
+              </Label>
+            </div>
+            {updatePurchase && (
+              <div className="ml-6 grid grid-cols-2 gap-2">
+                <Input
+                  type="date"
+                  value={purchasedAt}
+                  onChange={(e) => setPurchasedAt(e.target.value)}
+                  className="bg-white"
+                />
+                <Input
+                  value={purchaseStore}
+                  onChange={(e) => setPurchaseStore(e.target.value)}
+                  placeholder="購入店"
+                  className="bg-white"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* 売却情報 */}
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="update-sale"
+                checked={updateSale}
+                onCheckedChange={(checked) => setUpdateSale(checked === true)}
+              />
+              <Label htmlFor="update-sale" className="font-medium">
+                売却日・売却先を変更
+              </Label>
+            </div>
+            {updateSale && (
+              <div className="ml-6 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="date"
+                    value={saleDate}
+                    onChange={(e) => setSaleDate(e.target.value)}
+                    className="bg-white"
+                  />
+                  <Input
+                    list="bulk-sale-channel-options"
+                    value={saleChannel}
+                    onChange={(e) => setSaleChannel(e.target.value)}
+                    placeholder="売却先"
+                    className="bg-white"
+                  />
+                  <datalist id="bulk-sale-channel-options">
+                    {SALE_CHANNEL_SUGGESTIONS.map((channel) => <option key={channel} value={channel} />)}
+                  </datalist>
+                </div>
+                <p className="text-xs text-gray-500">売却日は売却済みの書籍にのみ反映されます</p>
+              </div>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
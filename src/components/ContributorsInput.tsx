@@ -0,0 +1,70 @@
+'use client';
+
+import { Contributor, ContributorRole } from '@/types/book';
+import { CONTRIBUTOR_ROLES, CONTRIBUTOR_ROLE_LABELS } from '@/lib/contributors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, X } from 'lucide-react';
+
+interface ContributorsInputProps {
+  contributors: Contributor[];
+  onChange: (contributors: Contributor[]) => void;
+}
+
+// 著者・訳者などを役割つきで入力する
+export function ContributorsInput({ contributors, onChange }: ContributorsInputProps) {
+  // 空でも1行は入力欄を出す
+  const rows = contributors.length > 0 ? contributors : [{ name: '', role: 'author' as ContributorRole }];
+
+  const updateRow = (index: number, updates: Partial<Contributor>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    onChange([...rows, { name: '', role: rows.length === 0 ? 'author' : 'translator' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <Input
+            value={row.name}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+            placeholder="名前"
+            className="bg-white flex-1"
+          />
+          <select
+            value={row.role}
+            onChange={(e) => updateRow(index, { role: e.target.value as ContributorRole })}
+            className="border rounded-md px-2 h-9 bg-white text-sm"
+          >
+            {CONTRIBUTOR_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {CONTRIBUTOR_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeRow(index)}
+            disabled={rows.length === 1 && !row.name}
+            title="削除"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addRow}>
+        <Plus className="h-4 w-4 mr-1" />
+        追加
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { DeleteBookProgress } from '@/lib/books';
+import { Loader2 } from 'lucide-react';
+
+const phaseLabels: Record<DeleteBookProgress['phase'], string> = {
+  images: '添付画像を削除中',
+  notes: 'メモを削除中',
+  book: '書籍を削除中',
+};
+
+interface DeleteProgressOverlayProps {
+  progress: DeleteBookProgress | null;
+}
+
+export function DeleteProgressOverlay({ progress }: DeleteProgressOverlayProps) {
+  if (!progress) return null;
+
+  const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 100;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-80">
+        <div className="flex items-center gap-2 mb-3">
+          <Loader2 className="h-5 w-5 animate-spin text-red-600" />
+          <span className="font-medium">{phaseLabels[progress.phase]}</span>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-red-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        {progress.phase !== 'book' && (
+          <p className="text-xs text-gray-500 mt-2 text-right">
+            {progress.done} / {progress.total}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,25 @@
 'use client';
 
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { getNote, updateNote } from '@/lib/notes';
+import { getBook } from '@/lib/books';
+import { getNote, updateNote, watchNotes } from '@/lib/notes';
 import { uploadNoteImage } from '@/lib/storage';
-import { Note } from '@/types/book';
+import { createWikiLinkSuggester } from '@/lib/noteLinks';
+import { DEFAULT_NOTE_KIND, getNoteKind } from '@/lib/noteKinds';
+import { Book, Note, NoteKind, NoteVersion } from '@/types/book';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { MarkdownViewer } from '@/components/MarkdownViewer';
-import { ArrowLeft, Save, Loader2, ImagePlus, Camera, Eye, Edit, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { NoteKindPicker } from '@/components/NoteKindPicker';
+import { PageReferenceHint } from '@/components/PageReferenceHint';
+import { TagInput } from '@/components/TagInput';
+import { NoteHistoryDialog } from '@/components/NoteHistoryDialog';
+import { ArrowLeft, Save, Loader2, ImagePlus, Camera, Eye, Edit, HelpCircle, ChevronDown, ChevronUp, History } from 'lucide-react';
 
 export default function EditNoteContent() {
   const params = useParams();
@@ -24,25 +31,39 @@ export default function EditNoteContent() {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [pageRef, setPageRef] = useState('');
+  const [kind, setKind] = useState<NoteKind>(DEFAULT_NOTE_KIND);
+  const [tags, setTags] = useState<string[]>([]);
+  // ページ参照の確認に使う（ページ数）
+  const [book, setBook] = useState<Book | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [mode, setMode] = useState<'edit' | 'preview'>('edit');
   const [showHelp, setShowHelp] = useState(false);
+  // 編集中に他の端末でこのメモが更新された
+  const [remoteChanged, setRemoteChanged] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const suggestLinks = useMemo(() => (user ? createWikiLinkSuggester(user.uid) : undefined), [user]);
 
   useEffect(() => {
     const loadNote = async () => {
       if (!user) return;
       try {
-        const noteData = await getNote(user.uid, bookId, noteId);
+        const [noteData, bookData] = await Promise.all([
+          getNote(user.uid, bookId, noteId),
+          getBook(user.uid, bookId).catch(() => null),
+        ]);
+        setBook(bookData);
         if (noteData) {
           setNote(noteData);
           setTitle(noteData.title || '');
           setContent(noteData.content || '');
           setPageRef(noteData.pageReference || '');
+          setKind(getNoteKind(noteData));
+          setTags(noteData.tags || []);
         }
       } catch (error) {
         console.error('Error loading note:', error);
@@ -54,6 +75,23 @@ export default function EditNoteContent() {
     loadNote();
   }, [user, bookId, noteId]);
 
+  // 読み込んだ後に他の端末でタイトル・内容・ページ参照が変わったら知らせる
+  useEffect(() => {
+    if (!user || !note) return;
+    const noteText = (n: Note) => JSON.stringify([n.title || '', n.content, n.pageReference || '']);
+    return watchNotes(
+      user.uid,
+      bookId,
+      (notes, meta) => {
+        const latest = notes.find((n) => n.id === noteId);
+        if (latest && !meta.local && noteText(latest) !== noteText(note)) {
+          setRemoteChanged(true);
+        }
+      },
+      (error) => console.error('Error watching notes:', error)
+    );
+  }, [user, bookId, noteId, note]);
+
   const insertImageAtCursor = useCallback((imageUrl: string, altText: string = '画像') => {
     const textarea = textareaRef.current;
     const imageMarkdown = `![${altText}](${imageUrl})`;
@@ -151,9 +189,11 @@ export default function EditNoteContent() {
     setSaving(true);
     try {
       await updateNote(user.uid, bookId, noteId, {
+        kind,
         title: title || undefined,
         content,
         pageReference: pageRef || undefined,
+        tags,
       });
       router.push(`/books/${bookId}`);
     } catch (error) {
@@ -164,6 +204,16 @@ export default function EditNoteContent() {
     }
   };
 
+  // 以前の版に戻したら、入力欄も戻した内容にする
+  const handleVersionRestored = (version: NoteVersion) => {
+    if (!note) return;
+    setNote({ ...note, title: version.title, content: version.content, pageReference: version.pageReference, updatedAt: new Date() });
+    setTitle(version.title || '');
+    setContent(version.content);
+    setPageRef(version.pageReference || '');
+    setRemoteChanged(false);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -196,30 +246,50 @@ export default function EditNoteContent() {
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
-                <CardTitle>メモを編集</CardTitle>
-                <div className="flex border rounded-md overflow-hidden">
-                  <Button
-                    variant={mode === 'edit' ? 'default' : 'ghost'}
-                    size="sm"
-                    onClick={() => setMode('edit')}
-                    className="rounded-none"
-                  >
-                    <Edit className="mr-2 h-4 w-4" />
-                    入力
-                  </Button>
-                  <Button
-                    variant={mode === 'preview' ? 'default' : 'ghost'}
-                    size="sm"
-                    onClick={() => setMode('preview')}
-                    className="rounded-none"
-                  >
-                    <Eye className="mr-2 h-4 w-4" />
-                    プレビュー
+                <div className="flex items-center gap-2">
+                  <CardTitle>メモを編集</CardTitle>
+                  {remoteChanged && (
+                    <span
+                      className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-2 py-0.5"
+                      title="保存すると他の端末での変更を上書きします"
+                    >
+                      他の端末で更新されました
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setShowHistory(true)} title="履歴">
+                    <History className="h-4 w-4" />
                   </Button>
+                  <div className="flex border rounded-md overflow-hidden">
+                    <Button
+                      variant={mode === 'edit' ? 'default' : 'ghost'}
+                      size="sm"
+                      onClick={() => setMode('edit')}
+                      className="rounded-none"
+                    >
+                      <Edit className="mr-2 h-4 w-4" />
+                      入力
+                    </Button>
+                    <Button
+                      variant={mode === 'preview' ? 'default' : 'ghost'}
+                      size="sm"
+                      onClick={() => setMode('preview')}
+                      className="rounded-none"
+                    >
+                      <Eye className="mr-2 h-4 w-4" />
+                      プレビュー
+                    </Button>
+                  </div>
                 </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div>
+                <Label>種類</Label>
+                <NoteKindPicker value={kind} onChange={setKind} />
+              </div>
+
               <div>
                 <Label htmlFor="title">タイトル（任意）</Label>
                 <Input
@@ -237,9 +307,15 @@ export default function EditNoteContent() {
                   id="pageRef"
                   value={pageRef}
                   onChange={(e) => setPageRef(e.target.value)}
-                  placeholder="例: p.42, 第3章"
+                  placeholder="例: p.42, pp.42-45, 第3章, 位置No.1234, 45%"
                   className="mt-1"
                 />
+                <PageReferenceHint value={pageRef} book={book} />
+              </div>
+
+              <div>
+                <Label className="mb-2 block">タグ（任意）</Label>
+                {user && <TagInput userId={user.uid} selectedTags={tags} onChange={setTags} />}
               </div>
 
               <div>
@@ -294,12 +370,13 @@ export default function EditNoteContent() {
                         </Button>
                       </div>
                     </div>
-                    <Textarea
-                      ref={textareaRef}
+                    <MarkdownEditor
+                      textareaRef={textareaRef}
                       id="content"
                       value={content}
-                      onChange={(e) => setContent(e.target.value)}
+                      onChange={setContent}
                       onPaste={handlePaste}
+                      suggestLinks={suggestLinks}
                       placeholder="メモの内容を入力（Markdownに対応）"
                       className="mt-1 min-h-[500px] font-mono text-base leading-relaxed"
                     />
@@ -363,6 +440,8 @@ export default function EditNoteContent() {
                               <table className="w-full text-left">
                                 <tbody>
                                   <tr><td className="pr-4 py-1 font-mono">[リンク](URL)</td><td className="py-1">→ リンク</td></tr>
+                                  <tr><td className="pr-4 py-1 font-mono">[[書籍名]]</td><td className="py-1">→ 書籍へのリンク</td></tr>
+                                  <tr><td className="pr-4 py-1 font-mono">[[書籍名#メモ]]</td><td className="py-1">→ メモへのリンク</td></tr>
                                   <tr><td className="pr-4 py-1 font-mono">&gt; 引用</td><td className="py-1">→ 引用文</td></tr>
                                   <tr><td className="pr-4 py-1 font-mono">---</td><td className="py-1">→ 水平線</td></tr>
                                 </tbody>
@@ -370,7 +449,7 @@ export default function EditNoteContent() {
                             </div>
                           </div>
                           <p className="mt-3 text-gray-600">
-                            💡 画像は Ctrl+V で貼り付け、または「画像挿入」ボタンで追加できます。
+                            💡 画像は Ctrl+V で貼り付け、または「画像挿入」ボタンで追加できます。[[ と入力すると書籍・メモの候補が出ます。
                           </p>
                         </div>
                       )}
@@ -380,7 +459,7 @@ export default function EditNoteContent() {
                   <div className="border rounded-md p-4 min-h-[500px] bg-white">
                     <Label className="mb-2 block text-gray-500">プレビュー</Label>
                     {content.trim() ? (
-                      <MarkdownViewer content={content} />
+                      <MarkdownViewer content={content} kind={kind} citation={pageRef} />
                     ) : (
                       <p className="text-gray-400 italic">内容がありません</p>
                     )}
@@ -414,6 +493,15 @@ export default function EditNoteContent() {
           </Card>
         </div>
       </main>
+      {user && (
+        <NoteHistoryDialog
+          userId={user.uid}
+          note={note}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          onRestored={handleVersionRestored}
+        />
+      )}
     </div>
   );
 }
@@ -2,16 +2,70 @@
 
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { importBooks } from '@/lib/books';
+import { importBooks, findBooksByISBNs } from '@/lib/books';
+import { getOrCreateSeries, parseVolumeNumber } from '@/lib/series';
+import { parseContributors, buildContributorFields } from '@/lib/contributors';
+import { checkIsbn, getBookIsbnKey, ISBN_ERROR_MESSAGES } from '@/lib/isbn';
 import { Button } from '@/components/ui/button';
 import { Upload, CheckCircle, AlertCircle } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { Book } from '@/types/book';
 
+// 日付のセル（Excel のシリアル値または文字列）を Date に変換
+const parseCellDate = (value: unknown): Date | undefined => {
+  if (typeof value === 'number') {
+    const { y, m, d } = XLSX.SSF.parse_date_code(value);
+    return new Date(y, m - 1, d);
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+};
+
+// 価格のセル（「1,980」「1,980円」「¥1980」「１９８０」など）を数値に変換（数字がなければ未設定）
+const parseCellPrice = (value: unknown): number | undefined => {
+  const digits = String(value ?? '').normalize('NFKC').replace(/[^0-9]/g, '');
+  const price = digits ? Number(digits) : NaN;
+  return Number.isFinite(price) ? price : undefined;
+};
+
+// ISBN のセルを検証して ISBN-13 / ISBN-10 にそろえる（誤りがあれば入力のまま残して警告する）
+const parseCellIsbn = (
+  row: Record<string, unknown>,
+  rowNumber: number,
+  warnings: string[]
+): { isbn13?: string; isbn10?: string } => {
+  const raw13 = row['ISBN-13'] ? String(row['ISBN-13']).trim() : '';
+  const raw10 = row['ISBN-10'] ? String(row['ISBN-10']).trim() : '';
+  let isbn13: string | undefined;
+  let isbn10: string | undefined;
+
+  for (const [column, raw] of [['ISBN-13', raw13], ['ISBN-10', raw10]] as const) {
+    if (!raw) continue;
+    const result = checkIsbn(raw);
+    if (result.valid) {
+      isbn13 = isbn13 || result.isbn13;
+      isbn10 = isbn10 || result.isbn10;
+    } else {
+      warnings.push(`${rowNumber}行目 ${column}「${raw}」: ${ISBN_ERROR_MESSAGES[result.error!]}`);
+    }
+  }
+
+  return { isbn13: isbn13 || raw13 || undefined, isbn10: isbn10 || raw10 || undefined };
+};
+
 export function ImportBooks({ onImportComplete }: { onImportComplete?: () => void }) {
   const { user } = useAuth();
   const [importing, setImporting] = useState(false);
-  const [result, setResult] = useState<{ success: boolean; count?: number; error?: string } | null>(null);
+  const [result, setResult] = useState<{
+    success: boolean;
+    count?: number;
+    error?: string;
+    warnings?: string[];
+    skipped?: string[];
+  } | null>(null);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -27,27 +81,59 @@ export function ImportBooks({ onImportComplete }: { onImportComplete?: () => voi
       const worksheet = workbook.Sheets[sheetName];
       const jsonData = XLSX.utils.sheet_to_json(worksheet);
 
+      // シリーズ名 → シリーズID（同じシリーズを何度も作らないようにする）
+      const seriesIds = new Map<string, string>();
+      for (const row of jsonData as Record<string, unknown>[]) {
+        const name = row['シリーズ'] ? String(row['シリーズ']).trim() : '';
+        if (name && !seriesIds.has(name)) {
+          const series = await getOrCreateSeries(user.uid, name);
+          seriesIds.set(name, series.id!);
+        }
+      }
+
       // Excel データを Book 型に変換
-      const books: Omit<Book, 'id' | 'createdAt' | 'updatedAt'>[] = jsonData.map((row: any) => ({
+      // 行番号は見出し行を1行目として数える
+      const warnings: string[] = [];
+      const books: Omit<Book, 'id' | 'createdAt' | 'updatedAt'>[] = jsonData.map((row: any, index) => ({
         title: row['タイトル'] || '不明',
         subtitle: row['サブタイトル'] || undefined,
-        series: row['シリーズ'] || undefined,
-        author: row['著者'] || undefined,
+        seriesId: row['シリーズ'] ? seriesIds.get(String(row['シリーズ']).trim()) : undefined,
+        volume: row['シリーズ']
+          ? (row['巻'] ? Number(row['巻']) : parseVolumeNumber(String(row['タイトル'] || '')))
+          : undefined,
+        ...(row['著者'] ? buildContributorFields(parseContributors(String(row['著者']))) : {}),
         publisher: row['出版社'] || undefined,
         publishedDate: row['出版日'] ? String(row['出版日']) : undefined,
         language: row['言語'] || 'ja',
         category: row['カテゴリ'] || undefined,
         ndc: row['NDC'] || undefined,
-        price: row['価格'] ? Number(row['価格']) : undefined,
-        isbn10: row['ISBN-10'] ? String(row['ISBN-10']) : undefined,
-        isbn13: row['ISBN-13'] ? String(row['ISBN-13']) : undefined,
+        purchasePrice: parseCellPrice(row['価格']),
+        purchasedAt: parseCellDate(row['購入日']),
+        purchaseStore: row['購入店'] ? String(row['購入店']) : undefined,
+        ...parseCellIsbn(row, index + 2, warnings),
         pageCount: row['ページ数'] ? Number(row['ページ数']) : undefined,
         description: row['説明'] || undefined,
         readingStatus: 'unread' as const,
       }));
 
-      const count = await importBooks(user.uid, books);
-      setResult({ success: true, count });
+      // 登録済みの ISBN は1回の検索でまとめて調べてスキップ（ファイル内で重なる行は最初の行だけ取り込む）
+      const existing = await findBooksByISBNs(user.uid, books.map((book) => getBookIsbnKey(book) || ''));
+      const seen = new Set<string>();
+      const skipped: string[] = [];
+      const newBooks = books.filter((book, index) => {
+        const key = getBookIsbnKey(book);
+        if (!key) return true;
+        if (existing.has(key) || seen.has(key)) {
+          const reason = existing.has(key) ? '登録済み' : 'ファイル内で重複';
+          skipped.push(`${index + 2}行目「${book.title}」: ${reason}`);
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+
+      const count = newBooks.length > 0 ? await importBooks(user.uid, newBooks) : 0;
+      setResult({ success: true, count, warnings, skipped });
       onImportComplete?.();
     } catch (error) {
       console.error('Import error:', error);
@@ -83,21 +169,43 @@ export function ImportBooks({ onImportComplete }: { onImportComplete?: () => voi
       </div>
 
       {result && (
-        <div className={`mt-4 p-4 rounded-lg flex items-center gap-2 ${
-          result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
-        }`}>
-          {result.success ? (
-            <>
-              <CheckCircle className="h-5 w-5" />
-              <span>{result.count}冊の書籍をインポートしました！</span>
-            </>
-          ) : (
-            <>
-              <AlertCircle className="h-5 w-5" />
-              <span>{result.error}</span>
-            </>
+        <>
+          <div className={`mt-4 p-4 rounded-lg flex items-center gap-2 ${
+            result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {result.success ? (
+              <>
+                <CheckCircle className="h-5 w-5" />
+                <span>{result.count}冊の書籍をインポートしました！</span>
+              </>
+            ) : (
+              <>
+                <AlertCircle className="h-5 w-5" />
+                <span>{result.error}</span>
+              </>
+            )}
+          </div>
+          {result.skipped && result.skipped.length > 0 && (
+            <div className="mt-2 p-4 rounded-lg bg-gray-50 text-gray-700 text-sm">
+              <p className="font-medium mb-1">同じISBNの書籍があるためスキップしました（{result.skipped.length}件）</p>
+              <ul className="list-disc pl-5 space-y-0.5 max-h-48 overflow-y-auto">
+                {result.skipped.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {result.warnings && result.warnings.length > 0 && (
+            <div className="mt-2 p-4 rounded-lg bg-amber-50 text-amber-800 text-sm">
+              <p className="font-medium mb-1">ISBNを確認してください（{result.warnings.length}件）</p>
+              <ul className="list-disc pl-5 space-y-0.5 max-h-48 overflow-y-auto">
+                {result.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
           )}
-        </div>
+        </>
       )}
     </div>
   );
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { Book } from '@/types/book';
+import { getActiveLoan, getDaysOverdue, lendBook, returnBook, deleteLoan } from '@/lib/loans';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { HandHelping, Undo2, Trash2, X, Loader2, AlertTriangle } from 'lucide-react';
+
+interface LoanCardProps {
+  userId: string;
+  book: Book;
+  onBookUpdated: (updates: Partial<Book>) => void;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('ja-JP', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// yyyy-mm-dd（ローカル日付）
+const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInputValue = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export function LoanCard({ userId, book, onBookUpdated }: LoanCardProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [borrower, setBorrower] = useState('');
+  const [lentAt, setLentAt] = useState(toDateInputValue(new Date()));
+  const [dueAt, setDueAt] = useState('');
+
+  const activeLoan = getActiveLoan(book);
+  const pastLoans = (book.loans || []).filter((loan) => loan.returnedAt).reverse();
+  const daysOverdue = activeLoan ? getDaysOverdue(activeLoan) : 0;
+
+  const handleOpenForm = () => {
+    setBorrower('');
+    setLentAt(toDateInputValue(new Date()));
+    setDueAt('');
+    setShowForm(true);
+  };
+
+  const handleLend = async () => {
+    if (!borrower.trim()) return;
+    setSaving(true);
+    try {
+      const updates = await lendBook(userId, book, {
+        borrower,
+        lentAt: fromDateInputValue(lentAt),
+        dueAt: dueAt ? fromDateInputValue(dueAt) : undefined,
+      });
+      onBookUpdated(updates);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error lending book:', error);
+      alert(error instanceof Error ? error.message : '貸出の記録に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReturn = async () => {
+    if (!activeLoan) return;
+    if (!confirm(`${activeLoan.borrower}さんから返却されましたか？`)) return;
+    try {
+      onBookUpdated(await returnBook(userId, book));
+    } catch (error) {
+      console.error('Error returning book:', error);
+      alert('返却の記録に失敗しました');
+    }
+  };
+
+  const handleDelete = async (loanId: string) => {
+    if (!confirm('この貸出記録を削除しますか？')) return;
+    try {
+      onBookUpdated(await deleteLoan(userId, book, loanId));
+    } catch (error) {
+      console.error('Error deleting loan:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-xl">🤝 貸出</CardTitle>
+          {!activeLoan && !showForm && book.readingStatus !== 'sold' && (
+            <Button variant="outline" size="sm" onClick={handleOpenForm}>
+              <HandHelping className="h-4 w-4 mr-1" />
+              貸し出す
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 貸出中 */}
+        {activeLoan && (
+          <div className={`p-3 rounded-lg border ${daysOverdue > 0 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div>
+                <p className="font-medium">{activeLoan.borrower}さんに貸出中</p>
+                <p className="text-sm text-gray-600">
+                  {formatDate(activeLoan.lentAt)} から
+                  {activeLoan.dueAt && <span className="ml-2">返却予定 {formatDate(activeLoan.dueAt)}</span>}
+                </p>
+                {daysOverdue > 0 && (
+                  <p className="text-sm text-red-600 flex items-center gap-1 mt-1">
+                    <AlertTriangle className="h-4 w-4" />
+                    返却予定日を{daysOverdue}日過ぎています
+                  </p>
+                )}
+              </div>
+              <Button size="sm" onClick={handleReturn}>
+                <Undo2 className="h-4 w-4 mr-1" />
+                返却された
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* 貸出フォーム */}
+        {showForm && (
+          <div className="p-3 border rounded-lg bg-gray-50 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="loan-borrower" className="text-xs">貸した相手</Label>
+                <Input id="loan-borrower" value={borrower} onChange={(e) => setBorrower(e.target.value)} className="mt-1 bg-white" placeholder="名前" autoFocus />
+              </div>
+              <div>
+                <Label htmlFor="loan-lent" className="text-xs">貸出日</Label>
+                <Input id="loan-lent" type="date" value={lentAt} onChange={(e) => setLentAt(e.target.value)} className="mt-1 bg-white" />
+              </div>
+              <div>
+                <Label htmlFor="loan-due" className="text-xs">返却予定日</Label>
+                <Input id="loan-due" type="date" value={dueAt} min={lentAt} onChange={(e) => setDueAt(e.target.value)} className="mt-1 bg-white" />
+              </div>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" size="sm" onClick={() => setShowForm(false)} disabled={saving}>
+                <X className="h-4 w-4 mr-1" />
+                キャンセル
+              </Button>
+              <Button size="sm" onClick={handleLend} disabled={saving || !borrower.trim() || !lentAt}>
+                {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <HandHelping className="h-4 w-4 mr-1" />}
+                記録
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* 貸出履歴 */}
+        {pastLoans.length > 0 ? (
+          <div className="divide-y text-sm">
+            {pastLoans.map((loan) => (
+              <div key={loan.id} className="flex items-center gap-3 py-2">
+                <span className="flex-1">{loan.borrower}</span>
+                <span className="text-gray-500">
+                  {formatDate(loan.lentAt)} 〜 {loan.returnedAt && formatDate(loan.returnedAt)}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(loan.id)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          !activeLoan && !showForm && <p className="text-sm text-gray-500">貸出の記録はありません</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getLocations, buildLocationTree, flattenLocationTree, formatLocationPath, LOCATION_KIND_LABELS } from '@/lib/locations';
+import { StorageLocation } from '@/types/book';
+
+interface LocationPickerProps {
+  userId: string;
+  id?: string;
+  locationId: string | null | undefined;
+  legacyLocation?: string | null; // 階層に登録されていない自由入力の保管場所
+  onChange: (locationId: string | null, location: string | null) => void;
+  className?: string;
+}
+
+// 保管場所の選択（部屋 → 本棚 → 段 の階層から選ぶ）
+// 表示名もあわせて返すので、呼び出し側はそのまま書籍に保存できる
+export function LocationPicker({ userId, id, locationId, legacyLocation, onChange, className = '' }: LocationPickerProps) {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+
+  useEffect(() => {
+    getLocations(userId).then(setLocations).catch(console.error);
+  }, [userId]);
+
+  const options = flattenLocationTree(buildLocationTree(locations));
+
+  const handleChange = (value: string) => {
+    if (!value) {
+      onChange(null, null);
+      return;
+    }
+    onChange(value, formatLocationPath(locations, value));
+  };
+
+  return (
+    <div className={className}>
+      <select
+        id={id}
+        value={locationId || ''}
+        onChange={(e) => handleChange(e.target.value)}
+        className="w-full h-9 border rounded-md px-2 bg-white text-sm"
+      >
+        <option value="">（未設定）</option>
+        {options.map(({ location, depth }) => (
+          <option key={location.id} value={location.id}>
+            {'　'.repeat(depth)}{location.name}（{LOCATION_KIND_LABELS[location.kind]}）
+          </option>
+        ))}
+      </select>
+      {!locationId && legacyLocation && (
+        <p className="text-xs text-gray-500 mt-1">
+          登録前の保管場所: {legacyLocation}（保管場所の管理画面から取り込めます）
+        </p>
+      )}
+      {locations.length === 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          メニューの「保管場所」から部屋・本棚・段を登録してください
+        </p>
+      )}
+    </div>
+  );
+}
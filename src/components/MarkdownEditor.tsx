@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useRef, useEffect, KeyboardEvent, ChangeEvent } from 'react';
+import { useState, useRef, useEffect, KeyboardEvent, ChangeEvent, ClipboardEvent, RefObject } from 'react';
 import { Textarea } from '@/components/ui/textarea';
+import { WikiLinkSuggestion } from '@/lib/noteLinks';
 import {
   Heading1,
   Heading2,
@@ -17,6 +18,8 @@ import {
   Link,
   Table,
   Minus,
+  BookOpen,
+  FileText,
 } from 'lucide-react';
 
 interface MarkdownEditorProps {
@@ -24,8 +27,17 @@ interface MarkdownEditorProps {
   onChange: (value: string) => void;
   placeholder?: string;
   className?: string;
+  id?: string;
+  // カーソル位置への画像の挿入など、呼び出し側でも入力欄を操作する場合に渡す
+  textareaRef?: RefObject<HTMLTextAreaElement | null>;
+  onPaste?: (e: ClipboardEvent<HTMLTextAreaElement>) => void;
+  // [[ を入力したときのリンク先の候補（省略時は候補を出さない）
+  suggestLinks?: (query: string) => Promise<WikiLinkSuggestion[]>;
 }
 
+// カーソルの直前にある、閉じていない [[ とその後の入力
+const OPEN_LINK_PATTERN = /\[\[([^[\]\n]*)$/;
+
 interface SlashCommand {
   id: string;
   label: string;
@@ -145,8 +157,13 @@ export function MarkdownEditor({
   onChange,
   placeholder,
   className = '',
+  id,
+  textareaRef: externalTextareaRef,
+  onPaste,
+  suggestLinks,
 }: MarkdownEditorProps) {
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const innerTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const textareaRef = externalTextareaRef ?? innerTextareaRef;
   const menuRef = useRef<HTMLDivElement>(null);
   const mirrorRef = useRef<HTMLDivElement>(null);
   
@@ -156,6 +173,11 @@ export function MarkdownEditor({
   const [slashPosition, setSlashPosition] = useState<number | null>(null);
   const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
 
+  // [[ リンクの候補
+  const [linkQuery, setLinkQuery] = useState<{ start: number; query: string } | null>(null);
+  const [linkSuggestions, setLinkSuggestions] = useState<WikiLinkSuggestion[]>([]);
+  const [linkIndex, setLinkIndex] = useState(0);
+
   const filteredCommands = slashCommands.filter(
     (cmd) =>
       cmd.id.toLowerCase().includes(menuFilter.toLowerCase()) ||
@@ -209,6 +231,22 @@ export function MarkdownEditor({
     }
   }, [showMenu, menuFilter]);
 
+  const linkQueryText = linkQuery?.query ?? null;
+  useEffect(() => {
+    if (linkQueryText === null || !suggestLinks) return;
+    let cancelled = false;
+    suggestLinks(linkQueryText)
+      .then((suggestions) => {
+        if (cancelled) return;
+        setLinkSuggestions(suggestions);
+        setLinkIndex(0);
+      })
+      .catch((error) => console.error('Error suggesting links:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [linkQueryText, suggestLinks]);
+
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
       if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
@@ -228,10 +266,31 @@ export function MarkdownEditor({
     setSlashPosition(null);
   };
 
+  const closeLinkMenu = () => {
+    setLinkQuery(null);
+    setLinkSuggestions([]);
+  };
+
+  // カーソルの直前が閉じていない [[ なら、リンクの候補を出す
+  const updateLinkQuery = (textarea: HTMLTextAreaElement, text: string, cursorPos: number) => {
+    const match = suggestLinks ? text.substring(0, cursorPos).match(OPEN_LINK_PATTERN) : null;
+    if (!match) {
+      if (linkQuery) closeLinkMenu();
+      return;
+    }
+    const start = cursorPos - match[0].length;
+    if (linkQuery?.start !== start) {
+      setMenuPosition(calculateCaretPosition(textarea, start));
+    }
+    setLinkQuery({ start, query: match[1] });
+  };
+
   const handleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.target.value;
     const cursorPos = e.target.selectionStart;
 
+    updateLinkQuery(e.target, newValue, cursorPos);
+
     if (newValue.length > value.length) {
       const addedChar = newValue[cursorPos - 1];
       
@@ -285,7 +344,48 @@ export function MarkdownEditor({
     }, 0);
   };
 
+  const insertLink = (suggestion: WikiLinkSuggestion) => {
+    if (!linkQuery || !textareaRef.current) return;
+
+    const textarea = textareaRef.current;
+    const cursorPos = textarea.selectionStart;
+    const link = `[[${suggestion.target}]]`;
+    // 閉じ括弧を先に入力していた場合は二重にしない
+    const rest = value.substring(cursorPos);
+    const after = rest.startsWith(']]') ? rest.substring(2) : rest;
+    onChange(value.substring(0, linkQuery.start) + link + after);
+    closeLinkMenu();
+
+    setTimeout(() => {
+      const newCursorPos = linkQuery.start + link.length;
+      textarea.focus();
+      textarea.setSelectionRange(newCursorPos, newCursorPos);
+    }, 0);
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (linkQuery && linkSuggestions.length > 0) {
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          setLinkIndex((prev) => (prev < linkSuggestions.length - 1 ? prev + 1 : 0));
+          return;
+        case 'ArrowUp':
+          e.preventDefault();
+          setLinkIndex((prev) => (prev > 0 ? prev - 1 : linkSuggestions.length - 1));
+          return;
+        case 'Enter':
+        case 'Tab':
+          e.preventDefault();
+          insertLink(linkSuggestions[linkIndex]);
+          return;
+        case 'Escape':
+          e.preventDefault();
+          closeLinkMenu();
+          return;
+      }
+    }
+
     if (!showMenu) return;
 
     switch (e.key) {
@@ -327,13 +427,59 @@ export function MarkdownEditor({
       
       <Textarea
         ref={textareaRef}
+        id={id}
         value={value}
         onChange={handleChange}
         onKeyDown={handleKeyDown}
+        onPaste={onPaste}
+        onBlur={closeLinkMenu}
         placeholder={placeholder}
         className={`font-mono text-sm resize-none ${className}`}
       />
 
+      {/* [[ リンクの候補 - カーソル位置に表示 */}
+      {linkQuery && linkSuggestions.length > 0 && (
+        <div
+          className="absolute w-80 max-h-80 overflow-y-auto bg-white border rounded-lg shadow-lg z-50"
+          style={{
+            top: `${menuPosition.top}px`,
+            left: `${Math.min(menuPosition.left, 100)}px`,
+          }}
+        >
+          <div className="p-2 border-b bg-gray-50">
+            <p className="text-xs text-gray-500">
+              リンク先を選択 • 書籍名#でメモを選択 • Enterで確定
+            </p>
+          </div>
+          <div className="py-1">
+            {linkSuggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.target}
+                className={`w-full px-3 py-2 flex items-center gap-3 text-left hover:bg-gray-100 ${
+                  index === linkIndex ? 'bg-blue-50 text-blue-700' : ''
+                }`}
+                // 入力欄のフォーカスが外れる前に挿入する
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertLink(suggestion);
+                }}
+                onMouseEnter={() => setLinkIndex(index)}
+              >
+                <span className="text-gray-500">
+                  {suggestion.target.includes('#') ? <FileText className="h-4 w-4" /> : <BookOpen className="h-4 w-4" />}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm truncate">{suggestion.label}</p>
+                  {suggestion.description && (
+                    <p className="text-xs text-gray-500 truncate">{suggestion.description}</p>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* スラッシュコマンドメニュー - カーソル位置に表示 */}
       {showMenu && filteredCommands.length > 0 && (
         <div
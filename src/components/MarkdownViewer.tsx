@@ -3,14 +3,24 @@
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkBreaks from 'remark-breaks';
+import { useRouter } from 'next/navigation';
+import { NoteKind } from '@/types/book';
+import { MISSING_LINK_HREF, replaceWikiLinks, WikiLinkMap } from '@/lib/noteLinks';
 
 interface MarkdownViewerProps {
   content: string;
   className?: string;
   onContentChange?: (newContent: string) => void;
+  // 引用（quote）は本文の抜き書きとして、出典（ページ参照）を添えて表示する
+  kind?: NoteKind;
+  citation?: string;
+  // [[書籍名]] リンクの解決結果（省略時はリンクを書いたまま表示する）
+  links?: WikiLinkMap;
 }
 
-export function MarkdownViewer({ content, className = '', onContentChange }: MarkdownViewerProps) {
+export function MarkdownViewer({ content, className = '', onContentChange, kind, citation, links }: MarkdownViewerProps) {
+  const router = useRouter();
+
   // チェックボックスの状態をトグルする関数
   const handleCheckboxToggle = (labelText: string, currentChecked: boolean) => {
     if (!onContentChange) return;
@@ -33,7 +43,7 @@ export function MarkdownViewer({ content, className = '', onContentChange }: Mar
     }
   };
 
-  return (
+  const markdown = (
     <div className={`max-w-none ${className}`}>
       <ReactMarkdown
         remarkPlugins={[remarkGfm, remarkBreaks]}
@@ -133,11 +143,35 @@ export function MarkdownViewer({ content, className = '', onContentChange }: Mar
               {children}
             </pre>
           ),
-          a: ({ href, children }) => (
-            <a href={href} className="text-blue-600 hover:underline" target="_blank" rel="noopener noreferrer">
-              {children}
-            </a>
-          ),
+          a: ({ href, children }) => {
+            if (href === MISSING_LINK_HREF) {
+              return (
+                <span className="text-gray-400 border-b border-dashed border-gray-300" title="リンク先が見つかりません">
+                  {children}
+                </span>
+              );
+            }
+            // アプリ内のリンク（[[書籍名]]）は同じタブで開く
+            if (href?.startsWith('/')) {
+              return (
+                <a
+                  href={href}
+                  className="text-purple-700 hover:underline"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    router.push(href);
+                  }}
+                >
+                  {children}
+                </a>
+              );
+            }
+            return (
+              <a href={href} className="text-blue-600 hover:underline" target="_blank" rel="noopener noreferrer">
+                {children}
+              </a>
+            );
+          },
           table: ({ children }) => (
             <div className="overflow-x-auto my-4">
               <table className="min-w-full border-collapse border border-gray-300">
@@ -170,8 +204,23 @@ export function MarkdownViewer({ content, className = '', onContentChange }: Mar
           },
         }}
       >
-        {content}
+        {links ? replaceWikiLinks(content, links) : content}
       </ReactMarkdown>
     </div>
   );
+
+  if (kind === 'quote') {
+    return (
+      <figure className="my-1">
+        <blockquote className="border-l-4 border-amber-400 bg-amber-50/50 pl-4 pr-3 py-1 font-serif">
+          {markdown}
+        </blockquote>
+        {citation && (
+          <figcaption className="mt-1 text-right text-sm text-gray-500">— {citation}</figcaption>
+        )}
+      </figure>
+    );
+  }
+
+  return markdown;
 }
@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { MigrationProgress, runMigrations } from '@/lib/migrations';
+import { isOffline } from '@/lib/offlineQueue';
+import { clearSearchCache } from '@/lib/search';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+// ログイン時にデータ構造の移行（migrations.ts）を実行し、実行中は進捗を表示する
+export function MigrationRunner() {
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [failed, setFailed] = useState(false);
+  // 同じユーザーで2回実行しない（開発時に effect が2回呼ばれる場合など）
+  const startedForRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // オフラインでは書き込めないので、次に起動したときに実行する
+    if (!user || isOffline() || startedForRef.current === user.uid) return;
+    startedForRef.current = user.uid;
+
+    runMigrations(user.uid, setProgress)
+      .then((count) => {
+        if (count > 0) clearSearchCache();
+      })
+      .catch((error) => {
+        console.error('Error running migrations:', error);
+        setFailed(true);
+      })
+      .finally(() => setProgress(null));
+  }, [user]);
+
+  if (failed) {
+    return (
+      <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+        <div className="bg-white rounded-lg shadow-lg p-6 w-80 space-y-4">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500 shrink-0" />
+            <p className="text-sm">データの更新に失敗しました。次に起動したときに続きから再実行します。</p>
+          </div>
+          <Button className="w-full" onClick={() => setFailed(false)}>
+            閉じる
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!progress) return null;
+
+  const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-80">
+        <div className="flex items-center gap-2 mb-1">
+          <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          <span className="font-medium">データを更新しています</span>
+        </div>
+        <p className="text-sm text-gray-500 mb-3">
+          {progress.description}（{progress.step} / {progress.steps}）
+        </p>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        {progress.total > 0 && (
+          <p className="text-xs text-gray-500 mt-2 text-right">
+            {progress.done} / {progress.total}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,23 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { getBook } from '@/lib/books';
 import { addNote } from '@/lib/notes';
 import { uploadNoteImage } from '@/lib/storage';
+import { createWikiLinkSuggester } from '@/lib/noteLinks';
+import { DEFAULT_NOTE_KIND } from '@/lib/noteKinds';
+import { Book, NoteKind } from '@/types/book';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { MarkdownViewer } from '@/components/MarkdownViewer';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { NoteKindPicker } from '@/components/NoteKindPicker';
+import { PageReferenceHint } from '@/components/PageReferenceHint';
+import { TagInput } from '@/components/TagInput';
 import { ArrowLeft, Save, Loader2, ImagePlus, Camera, Eye, Edit, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
 
 export default function NewNoteContent() {
@@ -21,6 +28,10 @@ export default function NewNoteContent() {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [pageRef, setPageRef] = useState('');
+  const [kind, setKind] = useState<NoteKind>(DEFAULT_NOTE_KIND);
+  const [tags, setTags] = useState<string[]>([]);
+  // ページ参照の確認に使う（ページ数）
+  const [book, setBook] = useState<Book | null>(null);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [mode, setMode] = useState<'edit' | 'preview'>('edit');
@@ -28,9 +39,17 @@ export default function NewNoteContent() {
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const suggestLinks = useMemo(() => (user ? createWikiLinkSuggester(user.uid) : undefined), [user]);
   
   const tempNoteId = useRef(`temp-${Date.now()}`);
 
+  useEffect(() => {
+    if (!user) return;
+    getBook(user.uid, bookId)
+      .then(setBook)
+      .catch((error) => console.error('Error loading book:', error));
+  }, [user, bookId]);
+
   const insertImageAtCursor = useCallback((imageUrl: string, altText: string = '画像') => {
     const textarea = textareaRef.current;
     const imageMarkdown = `![${altText}](${imageUrl})`;
@@ -129,9 +148,11 @@ export default function NewNoteContent() {
     try {
       await addNote(user.uid, bookId, {
         bookId,
+        kind,
         title: title || undefined,
         content,
         pageReference: pageRef || undefined,
+        tags,
       });
       router.push(`/books/${bookId}`);
     } catch (error) {
@@ -182,6 +203,11 @@ export default function NewNoteContent() {
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div>
+                <Label>種類</Label>
+                <NoteKindPicker value={kind} onChange={setKind} />
+              </div>
+
               <div>
                 <Label htmlFor="title">タイトル（任意）</Label>
                 <Input
@@ -199,9 +225,15 @@ export default function NewNoteContent() {
                   id="pageRef"
                   value={pageRef}
                   onChange={(e) => setPageRef(e.target.value)}
-                  placeholder="例: p.42, 第3章"
+                  placeholder="例: p.42, pp.42-45, 第3章, 位置No.1234, 45%"
                   className="mt-1"
                 />
+                <PageReferenceHint value={pageRef} book={book} />
+              </div>
+
+              <div>
+                <Label className="mb-2 block">タグ（任意）</Label>
+                {user && <TagInput userId={user.uid} selectedTags={tags} onChange={setTags} />}
               </div>
 
               <div>
@@ -256,12 +288,13 @@ export default function NewNoteContent() {
                         </Button>
                       </div>
                     </div>
-                    <Textarea
-                      ref={textareaRef}
+                    <MarkdownEditor
+                      textareaRef={textareaRef}
                       id="content"
                       value={content}
-                      onChange={(e) => setContent(e.target.value)}
+                      onChange={setContent}
                       onPaste={handlePaste}
+                      suggestLinks={suggestLinks}
                       placeholder="メモの内容を入力（Markdownに対応）"
                       className="mt-1 min-h-[500px] font-mono text-base leading-relaxed"
                     />
@@ -325,6 +358,8 @@ export default function NewNoteContent() {
                               <table className="w-full text-left">
                                 <tbody>
                                   <tr><td className="pr-4 py-1 font-mono">[リンク](URL)</td><td className="py-1">→ リンク</td></tr>
+                                  <tr><td className="pr-4 py-1 font-mono">[[書籍名]]</td><td className="py-1">→ 書籍へのリンク</td></tr>
+                                  <tr><td className="pr-4 py-1 font-mono">[[書籍名#メモ]]</td><td className="py-1">→ メモへのリンク</td></tr>
                                   <tr><td className="pr-4 py-1 font-mono">&gt; 引用</td><td className="py-1">→ 引用文</td></tr>
                                   <tr><td className="pr-4 py-1 font-mono">---</td><td className="py-1">→ 水平線</td></tr>
                                 </tbody>
@@ -332,7 +367,7 @@ export default function NewNoteContent() {
                             </div>
                           </div>
                           <p className="mt-3 text-gray-600">
-                            💡 画像は Ctrl+V で貼り付け、または「画像挿入」ボタンで追加できます。
+                            💡 画像は Ctrl+V で貼り付け、または「画像挿入」ボタンで追加できます。[[ と入力すると書籍・メモの候補が出ます。
                           </p>
                         </div>
                       )}
@@ -342,7 +377,7 @@ export default function NewNoteContent() {
                   <div className="border rounded-md p-4 min-h-[500px] bg-white">
                     <Label className="mb-2 block text-gray-500">プレビュー</Label>
                     {content.trim() ? (
-                      <MarkdownViewer content={content} />
+                      <MarkdownViewer content={content} kind={kind} citation={pageRef} />
                     ) : (
                       <p className="text-gray-400 italic">内容がありません</p>
                     )}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Note, NoteVersion } from '@/types/book';
+import { restoreNoteVersion } from '@/lib/notes';
+import { getNoteVersions } from '@/lib/noteVersions';
+import { diffLines } from '@/lib/noteDiff';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, RotateCcw } from 'lucide-react';
+
+interface NoteHistoryDialogProps {
+  userId: string;
+  note: Note;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 以前の版に戻した後に呼ばれる（編集画面で入力中の内容を差し替えるため）
+  onRestored?: (version: NoteVersion) => void;
+}
+
+// 一覧の先頭に並べる現在の内容の ID
+const CURRENT_ID = 'current';
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('ja-JP', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export function NoteHistoryDialog({ userId, note, open, onOpenChange, onRestored }: NoteHistoryDialogProps) {
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string>(CURRENT_ID);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  // 開くたび・メモが保存されるたびに読み直す
+  const updatedAt = note.updatedAt.getTime();
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    getNoteVersions(userId, note.id!)
+      .then((list) => {
+        setVersions(list);
+        // 最初は直前の版と現在の内容を比べる
+        setBaseId(list[0]?.id ?? null);
+        setTargetId(CURRENT_ID);
+      })
+      .catch((error) => console.error('Error fetching note versions:', error))
+      .finally(() => setLoading(false));
+  }, [open, userId, note.id, updatedAt]);
+
+  const current: NoteVersion = {
+    id: CURRENT_ID,
+    noteId: note.id!,
+    bookId: note.bookId,
+    title: note.title,
+    content: note.content,
+    pageReference: note.pageReference,
+    savedAt: note.updatedAt,
+  };
+  const entries = [current, ...versions];
+  const base = entries.find((entry) => entry.id === baseId);
+  const target = entries.find((entry) => entry.id === targetId);
+
+  const handleRestore = async (version: NoteVersion) => {
+    if (!confirm(`${formatDateTime(version.savedAt)}の版に戻しますか？\n現在の内容は履歴に残ります。`)) return;
+
+    setRestoring(version.id!);
+    try {
+      await restoreNoteVersion(userId, version);
+      onRestored?.(version);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error restoring note version:', error);
+      alert('以前の版に戻せませんでした');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderDiff = () => {
+    if (!base || !target) {
+      return <p className="text-sm text-gray-500">比べる版を2つ選んでください</p>;
+    }
+    // 古い版から新しい版への変更として表示する
+    const [older, newer] = base.savedAt <= target.savedAt ? [base, target] : [target, base];
+    const lines = diffLines(older.content, newer.content);
+    const unchanged = lines.every((line) => line.type === 'same');
+    return (
+      <div className="space-y-2">
+        {(older.title || '') !== (newer.title || '') && (
+          <p className="text-sm">
+            <span className="text-gray-500 mr-2">タイトル</span>
+            <span className="line-through text-red-600 mr-2">{older.title || '（なし）'}</span>
+            <span className="text-green-700">{newer.title || '（なし）'}</span>
+          </p>
+        )}
+        {(older.pageReference || '') !== (newer.pageReference || '') && (
+          <p className="text-sm">
+            <span className="text-gray-500 mr-2">ページ</span>
+            <span className="line-through text-red-600 mr-2">{older.pageReference || '（なし）'}</span>
+            <span className="text-green-700">{newer.pageReference || '（なし）'}</span>
+          </p>
+        )}
+        {unchanged ? (
+          <p className="text-sm text-gray-500">内容に違いはありません</p>
+        ) : (
+          <pre className="text-xs font-mono border rounded-md overflow-x-auto">
+            {lines.map((line, index) => (
+              <div
+                key={index}
+                className={`px-2 whitespace-pre-wrap break-all ${
+                  line.type === 'added'
+                    ? 'bg-green-50 text-green-800'
+                    : line.type === 'removed'
+                      ? 'bg-red-50 text-red-700'
+                      : 'text-gray-600'
+                }`}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text || ' '}
+              </div>
+            ))}
+          </pre>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-0 left-auto right-0 translate-x-0 translate-y-0 h-full max-w-full sm:max-w-2xl rounded-none border-y-0 border-r-0 flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>メモの履歴</DialogTitle>
+          <DialogDescription>
+            保存のたびに以前の内容が残ります。A と B を選ぶと、2つの版の違いを表示します。
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">まだ以前の版はありません</p>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+            <div className="border rounded-md divide-y">
+              {entries.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <label className="flex items-center gap-1 text-xs text-gray-500" title="比べる版（A）">
+                    <input
+                      type="radio"
+                      name="note-history-base"
+                      checked={baseId === entry.id}
+                      onChange={() => setBaseId(entry.id!)}
+                    />
+                    A
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-gray-500" title="比べる版（B）">
+                    <input
+                      type="radio"
+                      name="note-history-target"
+                      checked={targetId === entry.id}
+                      onChange={() => setTargetId(entry.id!)}
+                    />
+                    B
+                  </label>
+                  <div className="min-w-0 flex-1">
+                    <span className="text-gray-700">{formatDateTime(entry.savedAt)}</span>
+                    {entry.id === CURRENT_ID && <span className="ml-2 text-xs text-blue-600">現在</span>}
+                    <p className="text-xs text-gray-500 truncate">{entry.title || entry.content.split('\n')[0]}</p>
+                  </div>
+                  {entry.id !== CURRENT_ID && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 shrink-0"
+                      onClick={() => handleRestore(entry)}
+                      disabled={restoring !== null}
+                      title="この版に戻す"
+                    >
+                      {restoring === entry.id ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                      )}
+                      戻す
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {renderDiff()}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { NoteKind } from '@/types/book';
+import { NOTE_KIND_LABELS, NOTE_KINDS } from '@/lib/noteKinds';
+import { Button } from '@/components/ui/button';
+
+interface NoteKindPickerProps {
+  value: NoteKind;
+  onChange: (kind: NoteKind) => void;
+}
+
+const NOTE_KIND_HINTS: Record<NoteKind, string> = {
+  quote: '本文をそのまま書き写したもの',
+  thought: '自分の考え・感想',
+  summary: '内容を自分の言葉でまとめたもの',
+  question: '疑問・あとで調べたいこと',
+};
+
+export function NoteKindPicker({ value, onChange }: NoteKindPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-2 mt-1">
+      {NOTE_KINDS.map((kind) => (
+        <Button
+          key={kind}
+          type="button"
+          variant={value === kind ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onChange(kind)}
+          title={NOTE_KIND_HINTS[kind]}
+        >
+          {NOTE_KIND_LABELS[kind]}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { Book, Note } from '@/types/book';
+import { getNoteLocationPosition, parsePageReference } from '@/lib/pageReference';
+
+interface NoteLocationStripProps {
+  book: Book;
+  notes: Note[];
+  // 区間をクリックしたときに、その区間のメモを渡す
+  onSelect: (noteIds: string[]) => void;
+}
+
+// 本を何区間に分けて数えるか
+const SEGMENTS = 20;
+
+// 本のどのあたりにメモが集まっているかを帯で表示する
+export function NoteLocationStrip({ book, notes, onSelect }: NoteLocationStripProps) {
+  const segments: Note[][] = Array.from({ length: SEGMENTS }, () => []);
+  let unplaced = 0;
+  for (const note of notes) {
+    const position = getNoteLocationPosition(parsePageReference(note.pageReference), book);
+    if (position === null) {
+      unplaced++;
+      continue;
+    }
+    segments[Math.min(SEGMENTS - 1, Math.floor(position * SEGMENTS))].push(note);
+  }
+
+  const max = Math.max(...segments.map((segment) => segment.length));
+  if (max === 0) return null;
+
+  const segmentLabel = (index: number) => {
+    if (book.pageCount) {
+      const start = Math.floor((index * book.pageCount) / SEGMENTS) + 1;
+      const end = Math.floor(((index + 1) * book.pageCount) / SEGMENTS);
+      return `p.${start}-${end}`;
+    }
+    return `${(index * 100) / SEGMENTS}-${((index + 1) * 100) / SEGMENTS}%`;
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex h-6 rounded overflow-hidden bg-gray-100">
+        {segments.map((segment, index) =>
+          segment.length > 0 ? (
+            <button
+              key={index}
+              type="button"
+              className="flex-1 bg-purple-500 hover:ring-2 hover:ring-purple-300 hover:ring-inset"
+              style={{ opacity: 0.25 + (0.75 * segment.length) / max }}
+              onClick={() => onSelect(segment.map((note) => note.id!))}
+              title={`${segmentLabel(index)}: ${segment.length}件`}
+            />
+          ) : (
+            <div key={index} className="flex-1" />
+          )
+        )}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{book.pageCount ? 'p.1' : '0%'}</span>
+        {unplaced > 0 && <span>位置のわからないメモ {unplaced}件</span>}
+        <span>{book.pageCount ? `p.${book.pageCount}` : '100%'}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { Book } from '@/types/book';
+import {
+  formatNoteLocation,
+  getNoteLocationPosition,
+  getNoteLocationWarning,
+  parsePageReference,
+} from '@/lib/pageReference';
+
+interface PageReferenceHintProps {
+  value: string;
+  book: Pick<Book, 'pageCount'> | null;
+}
+
+// ページ参照の入力欄の下に、どう解釈したかと書籍の情報に合わない点を表示する
+export function PageReferenceHint({ value, book }: PageReferenceHintProps) {
+  if (!value.trim()) return null;
+
+  const location = parsePageReference(value);
+  if (!location) {
+    return (
+      <p className="text-xs text-gray-500 mt-1">
+        ページ・章・位置No.・%として読み取れないため、ページ順ではメモの最後に並びます
+      </p>
+    );
+  }
+
+  const warning = getNoteLocationWarning(location, book);
+  if (warning) {
+    return <p className="text-xs text-amber-700 mt-1">{warning}</p>;
+  }
+
+  const position = getNoteLocationPosition(location, book);
+  return (
+    <p className="text-xs text-gray-500 mt-1">
+      {formatNoteLocation(location)}
+      {position !== null && location.type !== 'percent' && `（全体の${Math.round(position * 100)}%あたり）`}
+    </p>
+  );
+}
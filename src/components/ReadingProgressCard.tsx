@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Book, ReadingSession } from '@/types/book';
+import {
+  getReadingSessions,
+  addReadingSession,
+  deleteReadingSession,
+  getProgressPercent,
+  estimateFinishDate,
+  pagesRead,
+} from '@/lib/readingSessions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2, Loader2, CalendarClock, X } from 'lucide-react';
+
+interface ReadingProgressCardProps {
+  userId: string;
+  book: Book;
+  // 書籍に反映された変更（現在ページ・ステータス）を親に通知
+  onBookUpdated: (updates: Partial<Book>) => void;
+}
+
+// yyyy-mm-dd（ローカル日付）
+const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInputValue = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export function ReadingProgressCard({ userId, book, onBookUpdated }: ReadingProgressCardProps) {
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [date, setDate] = useState(toDateInputValue(new Date()));
+  const [startPage, setStartPage] = useState('');
+  const [endPage, setEndPage] = useState('');
+  const [minutes, setMinutes] = useState('');
+
+  useEffect(() => {
+    if (!book.id) return;
+    getReadingSessions(userId, book.id).then(setSessions).catch(console.error);
+  }, [userId, book.id]);
+
+  const percent = getProgressPercent(book);
+  const finishDate = estimateFinishDate(book, sessions);
+
+  const handleOpenForm = () => {
+    setDate(toDateInputValue(new Date()));
+    setStartPage(String((book.currentPage || 0) + 1));
+    setEndPage('');
+    setMinutes('');
+    setShowForm(true);
+  };
+
+  const handleAdd = async () => {
+    const start = parseInt(startPage);
+    const end = parseInt(endPage);
+    if (!start || !end || end < start) {
+      alert('開始ページと終了ページを正しく入力してください');
+      return;
+    }
+    if (book.pageCount && end > book.pageCount) {
+      alert(`終了ページがページ数（${book.pageCount}）を超えています`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await addReadingSession(userId, book, {
+        date: fromDateInputValue(date),
+        startPage: start,
+        endPage: end,
+        minutes: minutes ? parseInt(minutes) : undefined,
+      });
+      setSessions((prev) =>
+        [result.session, ...prev].sort((a, b) => b.date.getTime() - a.date.getTime())
+      );
+      onBookUpdated(result.bookUpdates);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error adding reading session:', error);
+      alert('読書記録の保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (sessionId: string) => {
+    if (!confirm('この読書記録を削除しますか？')) return;
+    try {
+      const currentPage = await deleteReadingSession(userId, book.id!, sessionId);
+      setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+      onBookUpdated({ currentPage });
+    } catch (error) {
+      console.error('Error deleting reading session:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-xl">📖 読書記録</CardTitle>
+          {!showForm && (
+            <Button variant="outline" size="sm" onClick={handleOpenForm}>
+              <Plus className="h-4 w-4 mr-1" />
+              記録を追加
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 進捗 */}
+        <div>
+          <div className="flex justify-between items-baseline text-sm mb-1">
+            <span className="text-gray-600">
+              {book.currentPage || 0}
+              {book.pageCount ? ` / ${book.pageCount}ページ` : 'ページまで読了'}
+            </span>
+            {percent !== null && <span className="font-semibold">{percent}%</span>}
+          </div>
+          {percent !== null && (
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          )}
+          {finishDate && (
+            <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+              <CalendarClock className="h-3 w-3" />
+              このペースなら {finishDate.toLocaleDateString('ja-JP', { month: 'long', day: 'numeric' })} ごろ読了予定
+            </p>
+          )}
+        </div>
+
+        {/* 追加フォーム */}
+        {showForm && (
+          <div className="p-3 border rounded-lg bg-gray-50 space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor="session-date" className="text-xs">日付</Label>
+                <Input id="session-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className="mt-1 bg-white" />
+              </div>
+              <div>
+                <Label htmlFor="session-start" className="text-xs">開始ページ</Label>
+                <Input id="session-start" type="number" min={1} value={startPage} onChange={(e) => setStartPage(e.target.value)} className="mt-1 bg-white" />
+              </div>
+              <div>
+                <Label htmlFor="session-end" className="text-xs">終了ページ</Label>
+                <Input id="session-end" type="number" min={1} max={book.pageCount} value={endPage} onChange={(e) => setEndPage(e.target.value)} className="mt-1 bg-white" autoFocus />
+              </div>
+              <div>
+                <Label htmlFor="session-minutes" className="text-xs">時間（分）</Label>
+                <Input id="session-minutes" type="number" min={0} value={minutes} onChange={(e) => setMinutes(e.target.value)} className="mt-1 bg-white" placeholder="任意" />
+              </div>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" size="sm" onClick={() => setShowForm(false)} disabled={saving}>
+                <X className="h-4 w-4 mr-1" />
+                キャンセル
+              </Button>
+              <Button size="sm" onClick={handleAdd} disabled={saving || !endPage}>
+                {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                追加
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* 記録一覧 */}
+        {sessions.length > 0 && (
+          <div className="divide-y text-sm">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center gap-3 py-2">
+                <span className="text-gray-500 w-24 shrink-0">
+                  {session.date.toLocaleDateString('ja-JP', { month: 'short', day: 'numeric', weekday: 'short' })}
+                </span>
+                <span className="flex-1">
+                  p.{session.startPage}〜{session.endPage}
+                  <span className="text-gray-400 ml-2">（{pagesRead(session)}ページ）</span>
+                </span>
+                {session.minutes !== undefined && (
+                  <span className="text-gray-500 shrink-0">{session.minutes}分</span>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(session.id!)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
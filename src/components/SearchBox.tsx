@@ -6,23 +6,31 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { SearchOptions, defaultSearchOptions } from '@/lib/search';
+import { Tag } from '@/types/book';
 import { Search, SlidersHorizontal, X } from 'lucide-react';
 
 interface SearchBoxProps {
   onSearch: (query: string, options: SearchOptions) => void;
   searching?: boolean;
   initialQuery?: string;
+  initialOptions?: SearchOptions;
+  // メモのタグで絞り込む場合の選択肢
+  tags?: Tag[];
 }
 
-export function SearchBox({ onSearch, searching = false, initialQuery = '' }: SearchBoxProps) {
+export function SearchBox({ onSearch, searching = false, initialQuery = '', initialOptions = defaultSearchOptions, tags = [] }: SearchBoxProps) {
   const [query, setQuery] = useState(initialQuery);
-  const [options, setOptions] = useState<SearchOptions>(defaultSearchOptions);
+  const [options, setOptions] = useState<SearchOptions>(initialOptions);
   const [showOptions, setShowOptions] = useState(false);
 
   useEffect(() => {
     setQuery(initialQuery);
   }, [initialQuery]);
 
+  useEffect(() => {
+    setOptions(initialOptions);
+  }, [initialOptions]);
+
   const handleSearch = () => {
     onSearch(query, options);
   };
@@ -153,6 +161,26 @@ export function SearchBox({ onSearch, searching = false, initialQuery = '' }: Se
               </Label>
             </div>
           </div>
+          {options.searchNotes && tags.length > 0 && (
+            <div className="mt-3 flex items-center gap-2">
+              <Label htmlFor="noteTag" className="text-sm shrink-0">
+                メモのタグ
+              </Label>
+              <select
+                id="noteTag"
+                value={options.noteTag || ''}
+                onChange={(e) => setOptions((prev) => ({ ...prev, noteTag: e.target.value || undefined }))}
+                className="h-8 border rounded-md px-2 bg-white text-sm"
+              >
+                <option value="">（すべてのメモ）</option>
+                {tags.map((tag) => (
+                  <option key={tag.id} value={tag.name}>
+                    {tag.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           {options.searchStatus && (
             <p className="text-xs text-gray-500 mt-2">
               ※ ステータス検索: 「読書中」「読了」「未読」で検索できます
@@ -2,12 +2,16 @@
 
 import { useRouter } from 'next/navigation';
 import { SearchResult } from '@/lib/search';
+import { Tag } from '@/types/book';
+import { TagBadges } from '@/components/TagInput';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { BookOpen, FileText, Search, Loader2 } from 'lucide-react';
 
 interface SearchResultsProps {
   results: SearchResult[];
+  // メモのタグの色の表示用
+  allTags?: Tag[];
   searchQuery: string;
   searching: boolean;
   searched: boolean;
@@ -16,6 +20,7 @@ interface SearchResultsProps {
 
 export function SearchResults({
   results,
+  allTags = [],
   searchQuery,
   searching,
   searched,
@@ -127,6 +132,12 @@ export function SearchResults({
                   {highlightText(result.matchedText, searchQuery)}
                 </p>
 
+                {result.type === 'note' && result.note?.tags && (
+                  <div className="mt-1">
+                    <TagBadges tags={result.note.tags} allTags={allTags} />
+                  </div>
+                )}
+
                 {result.book.author && (
                   <p className="text-xs text-gray-500 mt-2">
                     著者: {result.book.author}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSeriesList } from '@/lib/series';
+import { Series } from '@/types/book';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface SeriesInputProps {
+  userId: string;
+  seriesName: string;
+  volume: string;
+  onSeriesNameChange: (name: string) => void;
+  onVolumeChange: (volume: string) => void;
+}
+
+// シリーズ名（既存のシリーズから補完）と巻数の入力欄
+// 保存時に getOrCreateSeries でシリーズIDに変換する
+export function SeriesInput({ userId, seriesName, volume, onSeriesNameChange, onVolumeChange }: SeriesInputProps) {
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+
+  useEffect(() => {
+    getSeriesList(userId).then(setSeriesList).catch(console.error);
+  }, [userId]);
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="col-span-2">
+        <Label htmlFor="seriesName">シリーズ</Label>
+        <Input
+          id="seriesName"
+          list="series-options"
+          value={seriesName}
+          onChange={(e) => onSeriesNameChange(e.target.value)}
+          placeholder="シリーズ名"
+          className="mt-1 bg-white"
+        />
+        <datalist id="series-options">
+          {seriesList.map((series) => (
+            <option key={series.id} value={series.name} />
+          ))}
+        </datalist>
+      </div>
+      <div>
+        <Label htmlFor="volume">巻</Label>
+        <Input
+          id="volume"
+          type="number"
+          min={1}
+          value={volume}
+          onChange={(e) => onVolumeChange(e.target.value)}
+          placeholder="巻数"
+          className="mt-1 bg-white"
+          disabled={!seriesName.trim()}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// オフラインでも起動できるようにサービスワーカー（public/sw.js）を登録する
+// 開発中は古い画面がキャッシュから表示されないよう、本番ビルドのみ登録する
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Error registering service worker:', error);
+    });
+  }, []);
+
+  return null;
+}
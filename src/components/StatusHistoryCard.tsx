@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { Book } from '@/types/book';
+import { STATUS_LABELS, getReadCycles, getStatusEventDateRange, updateStatusEventDate } from '@/lib/statusHistory';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ArrowRight, Check, Pencil, X } from 'lucide-react';
+
+interface StatusHistoryCardProps {
+  userId: string;
+  book: Book;
+  onBookUpdated: (updates: Partial<Book>) => void;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('ja-JP', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// yyyy-mm-dd（ローカル日付）
+const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export function StatusHistoryCard({ userId, book, onBookUpdated }: StatusHistoryCardProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDate, setEditDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const history = book.statusHistory || [];
+  const cycles = getReadCycles(history);
+  // 履歴の順番が変わらないよう、前後のイベントの間の日付だけを選べるようにする
+  const editRange = editingId ? getStatusEventDateRange(history, editingId) : {};
+
+  const handleStartEdit = (eventId: string, at: Date) => {
+    setEditingId(eventId);
+    setEditDate(toDateInputValue(at));
+  };
+
+  const handleSaveDate = async (original: Date) => {
+    if (!editingId || !editDate) return;
+    // 時刻は元のまま日付だけ差し替える
+    const [y, m, d] = editDate.split('-').map(Number);
+    const at = new Date(original);
+    at.setFullYear(y, m - 1, d);
+
+    setSaving(true);
+    try {
+      const updates = await updateStatusEventDate(userId, book, editingId, at);
+      onBookUpdated(updates);
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error updating status date:', error);
+      alert(error instanceof Error ? error.message : '日付の修正に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (history.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-xl">🕒 ステータス履歴</CardTitle>
+          {cycles.length > 0 && (
+            <span className="text-sm text-gray-500">{cycles.length}回読了</span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 読了サイクル */}
+        {cycles.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {cycles.map((cycle, i) => (
+              <div key={i} className="flex items-center gap-2 text-gray-700">
+                <span className="text-gray-400 w-12 shrink-0">{i === 0 ? '初読' : `${i + 1}回目`}</span>
+                <span>{cycle.startedAt ? formatDate(cycle.startedAt) : '—'}</span>
+                <ArrowRight className="h-3 w-3 text-gray-400" />
+                <span>{formatDate(cycle.completedAt)}</span>
+                {cycle.days !== undefined && <span className="text-gray-400">（{cycle.days}日）</span>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* イベント一覧（新しい順） */}
+        <ol className="border-l-2 border-gray-200 ml-1 space-y-3">
+          {[...history].reverse().map((event) => (
+            <li key={event.id} className="pl-4 relative text-sm">
+              <span className="absolute -left-[5px] top-1.5 h-2 w-2 rounded-full bg-gray-400" />
+              <div className="flex items-center gap-2 flex-wrap">
+                {editingId === event.id ? (
+                  <>
+                    <Input
+                      type="date"
+                      value={editDate}
+                      onChange={(e) => setEditDate(e.target.value)}
+                      min={editRange.min && toDateInputValue(editRange.min)}
+                      max={editRange.max && toDateInputValue(editRange.max)}
+                      className="h-8 w-40 bg-white"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleSaveDate(event.at)} disabled={saving || !editDate}>
+                      <Check className="h-4 w-4 text-green-600" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} disabled={saving}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-gray-500 w-28 shrink-0">{formatDate(event.at)}</span>
+                    <span>
+                      {STATUS_LABELS[event.from]} → <span className="font-medium">{STATUS_LABELS[event.to]}</span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1"
+                      onClick={() => handleStartEdit(event.id, event.at)}
+                      title="日付を修正"
+                    >
+                      <Pencil className="h-3 w-3 text-gray-400" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
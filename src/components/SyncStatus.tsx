@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { dismissSyncConflict, SyncState, watchSyncState } from '@/lib/offlineQueue';
+import { flushPendingWrites } from '@/lib/offlineSync';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertTriangle, CloudOff, CloudUpload, RefreshCw, X } from 'lucide-react';
+
+const subscribeOnline = (callback: () => void) => {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+};
+
+// オフライン時の未同期の書き込み・同期中の状態・競合を画面の隅に表示する
+// オンラインに戻ったら待ち行列を自動で同期する
+export function SyncStatus() {
+  const { user } = useAuth();
+  const online = useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true);
+  const [state, setState] = useState<SyncState>({ pending: 0, syncing: false, conflicts: [] });
+
+  useEffect(() => watchSyncState(setState), []);
+
+  useEffect(() => {
+    // 失敗して件数が変わらない場合は、次にオンラインになるまで（または手動で）再試行しない
+    if (user && online && state.pending > 0) {
+      flushPendingWrites(user.uid);
+    }
+  }, [user, online, state.pending]);
+
+  if (online && state.pending === 0 && state.conflicts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 flex flex-col items-start gap-2">
+      {state.conflicts.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="flex items-center gap-1.5 rounded-full bg-amber-100 text-amber-800 border border-amber-300 px-3 py-1.5 text-xs shadow"
+            >
+              <AlertTriangle className="h-3.5 w-3.5" />
+              同期できなかった変更 {state.conflicts.length}件
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-80 p-3">
+            <ul className="space-y-2">
+              {state.conflicts.map((conflict) => (
+                <li key={conflict.id} className="flex items-start gap-2 text-sm">
+                  <span className="flex-1">
+                    {conflict.message}
+                    <span className="block text-xs text-gray-400">{conflict.at.toLocaleString('ja-JP')}</span>
+                  </span>
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-gray-600"
+                    onClick={() => dismissSyncConflict(conflict.id)}
+                    aria-label="閉じる"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {!online ? (
+        <div className="flex items-center gap-1.5 rounded-full bg-gray-800 text-white px-3 py-1.5 text-xs shadow">
+          <CloudOff className="h-3.5 w-3.5" />
+          オフライン{state.pending > 0 && ` · 未同期 ${state.pending}件`}
+        </div>
+      ) : state.syncing ? (
+        <div className="flex items-center gap-1.5 rounded-full bg-blue-600 text-white px-3 py-1.5 text-xs shadow">
+          <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+          同期中… 残り{state.pending}件
+        </div>
+      ) : state.pending > 0 && (
+        <button
+          type="button"
+          className="flex items-center gap-1.5 rounded-full bg-white text-blue-700 border border-blue-200 px-3 py-1.5 text-xs shadow hover:bg-blue-50"
+          onClick={() => user && flushPendingWrites(user.uid)}
+          disabled={!user}
+        >
+          <CloudUpload className="h-3.5 w-3.5" />
+          未同期 {state.pending}件（タップして同期）
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { Tag } from '@/types/book';
-import { getTags, addTag, TAG_COLORS, getTagColorClasses } from '@/lib/tags';
+import { watchTags, addTag, TAG_COLORS, getTagColorClasses } from '@/lib/tags';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -28,17 +28,9 @@ export function TagInput({ userId, selectedTags, onChange, disabled }: TagInputP
   const [isCreating, setIsCreating] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // タグ一覧を取得
+  // タグ一覧を購読（他の端末で追加・変更されたタグも反映）
   useEffect(() => {
-    const fetchTags = async () => {
-      try {
-        const tags = await getTags(userId);
-        setAllTags(tags);
-      } catch (error) {
-        console.error('Error fetching tags:', error);
-      }
-    };
-    fetchTags();
+    return watchTags(userId, setAllTags, (error) => console.error('Error fetching tags:', error));
   }, [userId]);
 
   // タグを追加
@@ -238,9 +230,10 @@ interface TagBadgesProps {
   tags: string[];
   allTags: Tag[];
   maxDisplay?: number;
+  onTagClick?: (tagName: string) => void;
 }
 
-export function TagBadges({ tags, allTags, maxDisplay = 3 }: TagBadgesProps) {
+export function TagBadges({ tags, allTags, maxDisplay = 3, onTagClick }: TagBadgesProps) {
   const displayTags = maxDisplay ? tags.slice(0, maxDisplay) : tags;
   const remaining = tags.length - displayTags.length;
 
@@ -258,7 +251,11 @@ export function TagBadges({ tags, allTags, maxDisplay = 3 }: TagBadgesProps) {
         return (
           <Badge
             key={tagName}
-            className={`${colors.bg} ${colors.text} text-xs px-1.5 py-0`}
+            className={`${colors.bg} ${colors.text} text-xs px-1.5 py-0 ${onTagClick ? 'cursor-pointer hover:opacity-80' : ''}`}
+            onClick={onTagClick && ((e) => {
+              e.stopPropagation();
+              onTagClick(tagName);
+            })}
           >
             {tagName}
           </Badge>
@@ -8,23 +8,36 @@ import {
   signOut as firebaseSignOut,
   GoogleAuthProvider
 } from 'firebase/auth';
-import { auth } from '@/lib/firebase';
+import { getFirebaseAuth } from '@/lib/firebase';
+import { isMemoryBackend } from '@/lib/repository';
+
+// アプリが参照するユーザー情報（Firebase の User はこれを満たす）
+export type AuthUser = Pick<User, 'uid' | 'displayName' | 'email'>;
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   loading: boolean;
   signInWithGoogle: () => Promise<void>;
   signOut: () => Promise<void>;
 }
 
+// メモリバックエンド用のローカルユーザー
+const LOCAL_USER: AuthUser = {
+  uid: 'local-user',
+  displayName: 'ローカルユーザー',
+  email: null,
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [user, setUser] = useState<AuthUser | null>(isMemoryBackend ? LOCAL_USER : null);
+  const [loading, setLoading] = useState(!isMemoryBackend);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    if (isMemoryBackend) return;
+
+    const unsubscribe = onAuthStateChanged(getFirebaseAuth(), (user) => {
       setUser(user);
       setLoading(false);
     });
@@ -33,9 +46,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const signInWithGoogle = async () => {
+    if (isMemoryBackend) {
+      setUser(LOCAL_USER);
+      return;
+    }
+
     const provider = new GoogleAuthProvider();
     try {
-      await signInWithPopup(auth, provider);
+      await signInWithPopup(getFirebaseAuth(), provider);
     } catch (error) {
       console.error('Error signing in with Google:', error);
       throw error;
@@ -43,8 +61,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    if (isMemoryBackend) {
+      setUser(null);
+      return;
+    }
+
     try {
-      await firebaseSignOut(auth);
+      await firebaseSignOut(getFirebaseAuth());
     } catch (error) {
       console.error('Error signing out:', error);
       throw error;
@@ -0,0 +1,74 @@
+import { NewBookChange } from './repository';
+import { Book, BookChangeSource } from '@/types/book';
+
+// 書籍の更新から変更履歴を作る（保存はリポジトリが書籍の更新と一緒に行う）
+
+// 変更履歴の記録元（一括編集など、まとめて元に戻したい操作は batchId を共有する）
+export interface ChangeContext {
+  source: BookChangeSource;
+  batchId?: string;
+}
+
+export const DEFAULT_CHANGE_CONTEXT: ChangeContext = { source: 'edit' };
+
+// 履歴に残さないフィールド
+// 日時の管理用・自動で設定するもの、ステータス履歴・貸出記録・ゴミ箱のように専用の履歴や復元手段があるもの
+// 売却日（soldAt）は一括編集で変更でき、元に戻せるよう記録する（戻し方は bookHistory.ts の revertChanges）
+const UNTRACKED_FIELDS = new Set<string>([
+  'id',
+  'createdAt',
+  'updatedAt',
+  'notesUpdatedAt',
+  'noteCount',
+  'isbnKey',
+  'statusHistory',
+  'startedAt',
+  'completedAt',
+  'loans',
+  'deletedAt',
+]);
+
+export function isTrackedField(field: string): boolean {
+  return !UNTRACKED_FIELDS.has(field);
+}
+
+export function generateBatchId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+}
+
+// 比較用に未設定・空文字・空配列を null に揃える
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined || value === '') return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+};
+
+// オブジェクトはキーの順番を揃えて比べる（保存先から読み込んだ値はキーの順番が変わることがある）
+const sortKeys = (_key: string, value: unknown): unknown =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+    : value;
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a), sortKeys) === JSON.stringify(normalizeValue(b), sortKeys);
+}
+
+// 更新前の書籍と更新内容から、実際に値が変わるフィールドの変更履歴を作る
+// undefined は「変更なし」なので記録しない（null は値の削除として記録する）
+export function diffBookUpdates(
+  before: Book,
+  updates: Partial<Book>,
+  context: ChangeContext & { batchId: string }
+): NewBookChange[] {
+  return Object.entries(updates)
+    .filter(([field, value]) => value !== undefined && isTrackedField(field))
+    .filter(([field, value]) => !isSameValue(before[field as keyof Book], value))
+    .map(([field, value]) => ({
+      bookId: before.id!,
+      field,
+      oldValue: before[field as keyof Book] ?? null,
+      newValue: value ?? null,
+      source: context.source,
+      batchId: context.batchId,
+    }));
+}
@@ -0,0 +1,222 @@
+import { getRepository } from './repository';
+import { ChangeContext, generateBatchId, isSameValue } from './bookChanges';
+import { buildStatusChange, getStatusChangeBlocker, STATUS_LABELS } from './statusHistory';
+import { DESIRED_FORMAT_LABELS, WISHLIST_PRIORITY_LABELS } from './wishlist';
+import { buildSaleDateChange } from './ledger';
+import { Book, BookChange, BookChangeSource, ReadingStatus, WishlistInfo } from '@/types/book';
+
+export const CHANGE_SOURCE_LABELS: Record<BookChangeSource, string> = {
+  edit: '編集',
+  'bulk-edit': '一括編集',
+  status: 'ステータス変更',
+  merge: '重複の統合',
+  migration: 'データ更新',
+  revert: '元に戻す',
+};
+
+export const CHANGE_FIELD_LABELS: Record<string, string> = {
+  title: 'タイトル',
+  subtitle: 'サブタイトル',
+  author: '著者',
+  contributors: '著者（役割）',
+  publisher: '出版社',
+  publishedDate: '出版日',
+  description: '説明',
+  isbn13: 'ISBN-13',
+  isbn10: 'ISBN-10',
+  seriesId: 'シリーズ',
+  volume: '巻数',
+  category: 'カテゴリ',
+  ndc: 'NDC',
+  pageCount: 'ページ数',
+  currentPage: '読んだページ',
+  coverImage: '表紙画像',
+  readingStatus: 'ステータス',
+  locationId: '保管場所',
+  location: '保管場所',
+  format: '書籍形式',
+  tags: 'タグ',
+  ownership: '所持',
+  wishlist: 'ほしい本',
+  purchasedAt: '購入日',
+  purchasePrice: '購入価格',
+  purchaseStore: '購入した店',
+  soldAt: '売却日',
+  salePrice: '売却価格',
+  saleChannel: '売却先',
+  aiSummary: 'AI要約',
+  aiSummaryUpdatedAt: 'AI要約の更新日',
+};
+
+// 一緒に保存されるフィールド（片方だけ戻すと食い違うので、同じ操作の変更はまとめて戻す）
+const LINKED_FIELDS = [
+  ['author', 'contributors'],
+  ['locationId', 'location'],
+  ['ownership', 'wishlist'],
+  ['aiSummary', 'aiSummaryUpdatedAt'],
+  // 売却済みへのステータス変更では売却日も設定される（ステータスを戻せば売却日も戻す必要はない）
+  ['readingStatus', 'soldAt'],
+];
+
+// 履歴の一覧に出さないフィールド（対になるフィールドの表示でわかる）
+const HIDDEN_FIELDS = new Set(['contributors', 'locationId', 'aiSummaryUpdatedAt']);
+
+// 1回の操作（同じ batchId）でまとめた変更
+export interface ChangeOperation {
+  batchId: string;
+  source: BookChangeSource;
+  changedAt: Date;
+  changes: BookChange[];
+}
+
+export interface RevertResult {
+  reverted: number;
+  // 後から変更されている・ステータスを戻せないなどの理由で戻さなかった変更
+  skipped: BookChange[];
+}
+
+// 一括編集など、複数の書籍の変更をまとめて元に戻せるようにする操作の記録元
+export function createChangeContext(source: BookChangeSource): ChangeContext {
+  return { source, batchId: generateBatchId() };
+}
+
+export function isVisibleChange(change: BookChange): boolean {
+  if (HIDDEN_FIELDS.has(change.field)) return false;
+  // 売却済みへのステータス変更で設定された売却日はステータスの表示でわかる
+  if (change.field === 'soldAt' && !(change.oldValue instanceof Date)) return false;
+  return true;
+}
+
+export function formatChangeValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return '（なし）';
+  }
+  switch (field) {
+    case 'readingStatus':
+      return STATUS_LABELS[value as ReadingStatus] ?? String(value);
+    case 'format':
+      return value === 'ebook' ? '電子書籍' : '紙の書籍';
+    case 'ownership':
+      return value === 'wishlist' ? 'ほしい本' : '所持';
+    case 'wishlist': {
+      const info = value as WishlistInfo;
+      return `優先度${WISHLIST_PRIORITY_LABELS[info.priority]}・${DESIRED_FORMAT_LABELS[info.desiredFormat]}`;
+    }
+    case 'seriesId':
+      return '（設定あり）';
+    case 'coverImage':
+      return '（画像）';
+    case 'purchasePrice':
+    case 'salePrice':
+      return `${Number(value).toLocaleString()}円`;
+  }
+  if (value instanceof Date) return value.toLocaleDateString('ja-JP');
+  if (Array.isArray(value)) return value.join(', ');
+  const text = String(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+// 書籍の変更履歴（新しい順）
+export async function getBookHistory(userId: string, bookId: string): Promise<BookChange[]> {
+  return getRepository().changes.listByBook(userId, bookId);
+}
+
+// 変更履歴を操作ごとにまとめる（新しい順）
+export function groupChangeOperations(changes: BookChange[]): ChangeOperation[] {
+  const operations = new Map<string, ChangeOperation>();
+  for (const change of changes) {
+    const operation = operations.get(change.batchId);
+    if (operation) {
+      operation.changes.push(change);
+    } else {
+      operations.set(change.batchId, {
+        batchId: change.batchId,
+        source: change.source,
+        changedAt: change.changedAt,
+        changes: [change],
+      });
+    }
+  }
+  return [...operations.values()].sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+}
+
+// 同じ操作で一緒に変わったフィールドを含める
+async function withLinkedChanges(userId: string, changes: BookChange[]): Promise<BookChange[]> {
+  const result = new Map(changes.map((change) => [change.id!, change]));
+  for (const batchId of new Set(changes.map((change) => change.batchId))) {
+    const batch = await getRepository().changes.listByBatch(userId, batchId);
+    for (const change of changes.filter((c) => c.batchId === batchId)) {
+      const linked = LINKED_FIELDS.find((fields) => fields.includes(change.field)) ?? [];
+      for (const other of batch) {
+        if (other.bookId === change.bookId && linked.includes(other.field)) result.set(other.id!, other);
+      }
+    }
+  }
+  return [...result.values()];
+}
+
+// 変更を元に戻す（戻した操作も履歴に残る）
+// 後から別の値に変わっているフィールドは上書きしないよう飛ばす
+export async function revertChanges(userId: string, changes: BookChange[]): Promise<RevertResult> {
+  const repository = getRepository();
+  const targets = (await withLinkedChanges(userId, changes)).filter((change) => !change.revertedAt);
+  const skipped: BookChange[] = [];
+  const reverted: BookChange[] = [];
+  const bookUpdates: { bookId: string; updates: Partial<Book> }[] = [];
+
+  for (const bookId of new Set(targets.map((change) => change.bookId))) {
+    const book = await repository.books.get(userId, bookId);
+    const bookChanges = targets.filter((c) => c.bookId === bookId);
+    const revertsStatus = bookChanges.some((c) => c.field === 'readingStatus');
+    const withStatus: BookChange[] = [];
+    let updates: Partial<Book> = {};
+    for (const change of bookChanges) {
+      const field = change.field as keyof Book;
+      // 売却日は、ステータスと一緒に戻す場合（売却済みへの変更で設定された場合を含む）はステータスの変更に任せる
+      if (field === 'soldAt' && (revertsStatus || !(change.oldValue instanceof Date))) {
+        withStatus.push(change);
+        continue;
+      }
+      if (!book || !isSameValue(book[field], change.newValue)) {
+        skipped.push(change);
+        continue;
+      }
+      if (field === 'readingStatus') {
+        // ステータスは履歴に変更を追加して戻す
+        const status = change.oldValue as ReadingStatus;
+        if (getStatusChangeBlocker(book, status)) {
+          skipped.push(change);
+          continue;
+        }
+        updates = { ...updates, ...buildStatusChange(book, status) };
+      } else if (field === 'soldAt') {
+        // 売却日は履歴の売却イベントと連動するので、イベントの日時として戻す
+        updates = { ...updates, ...buildSaleDateChange(book, change.oldValue as Date) };
+      } else {
+        updates = { ...updates, [field]: change.oldValue };
+      }
+      reverted.push(change);
+    }
+    const statusSkipped = skipped.some((c) => c.bookId === bookId && c.field === 'readingStatus');
+    (statusSkipped ? skipped : reverted).push(...withStatus);
+    if (Object.keys(updates).length > 0) bookUpdates.push({ bookId, updates });
+  }
+
+  if (bookUpdates.length > 0) {
+    await repository.books.updateMany(userId, bookUpdates, createChangeContext('revert'));
+  }
+  if (reverted.length > 0) {
+    await repository.changes.markReverted(userId, reverted.map((change) => change.id!));
+  }
+  return { reverted: reverted.length, skipped };
+}
+
+// 1回の操作（一括編集など）で記録した変更（他の書籍の分も含む）
+export async function getOperationChanges(userId: string, batchId: string): Promise<BookChange[]> {
+  return getRepository().changes.listByBatch(userId, batchId);
+}
+
+// 1回の操作（一括編集など）の変更をすべて元に戻す
+export async function revertOperation(userId: string, batchId: string): Promise<RevertResult> {
+  return revertChanges(userId, await getOperationChanges(userId, batchId));
+}
@@ -1,118 +1,200 @@
-import {
-  collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  doc,
-  getDocs,
-  getDoc,
-  query,
-  orderBy,
-  serverTimestamp,
-  Timestamp,
-  writeBatch,
-} from 'firebase/firestore';
-import { db } from './firebase';
+import { getRepository, BookPage, SnapshotMeta, Unsubscribe } from './repository';
+import { ChangeContext } from './bookChanges';
+import { deleteAllNoteImages } from './storage';
 import { Book } from '@/types/book';
 
-// undefined 値を除去するヘルパー関数
-const removeUndefined = (obj: Record<string, any>): Record<string, any> => {
-  return Object.fromEntries(
-    Object.entries(obj).filter(([_, value]) => value !== undefined)
-  );
+// メモをまとめて削除する件数
+const NOTE_DELETE_BATCH_SIZE = 100;
+
+// 書籍一覧を1回に読み込む件数
+export const BOOK_PAGE_SIZE = 100;
+
+export interface DeleteBookProgress {
+  phase: 'images' | 'notes' | 'book';
+  done: number;
+  total: number;
+}
+
+export interface DeleteBookFailure {
+  type: 'image' | 'note' | 'session' | 'book';
+  noteId?: string;
+  label: string; // メモのタイトルやファイル名
+  message: string;
+}
+
+export const DELETE_FAILURE_LABELS: Record<DeleteBookFailure['type'], string> = {
+  image: '画像',
+  note: 'メモ',
+  session: '読書記録',
+  book: '書籍',
 };
 
+export interface DeleteBookResult {
+  bookDeleted: boolean;
+  deletedNotes: number;
+  failures: DeleteBookFailure[];
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
 // 書籍を追加
 export async function addBook(userId: string, book: Omit<Book, 'id' | 'createdAt' | 'updatedAt'>): Promise<Book> {
-  const booksRef = collection(db, 'users', userId, 'books');
-  
-  // undefined を除去してからFirestoreに保存
-  const cleanedBook = removeUndefined({
-    ...book,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
-  });
-  
-  const docRef = await addDoc(booksRef, cleanedBook);
-
-  return {
-    id: docRef.id,
-    ...book,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  return getRepository().books.add(userId, book);
 }
 
 // 書籍を取得
 export async function getBook(userId: string, bookId: string): Promise<Book | null> {
-  const bookRef = doc(db, 'users', userId, 'books', bookId);
-  const bookSnap = await getDoc(bookRef);
+  return getRepository().books.get(userId, bookId);
+}
 
-  if (!bookSnap.exists()) {
-    return null;
-  }
+// 全書籍を取得（ゴミ箱・ウィッシュリストの書籍は除く）
+export async function getBooks(userId: string): Promise<Book[]> {
+  const books = await getRepository().books.list(userId);
+  return books.filter((book) => !book.deletedAt && book.ownership !== 'wishlist');
+}
 
-  const data = bookSnap.data();
-  return {
-    id: bookSnap.id,
-    ...data,
-    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
-  } as Book;
+// 書籍を1ページ分取得（登録日の新しい順。ゴミ箱・ウィッシュリストの書籍は除くため pageSize 件より少ないことがある）
+export async function getBooksPage(
+  userId: string,
+  cursor: string | null,
+  pageSize = BOOK_PAGE_SIZE
+): Promise<BookPage> {
+  const page = await getRepository().books.listPage(userId, cursor, pageSize);
+  return { ...page, books: page.books.filter((book) => !book.deletedAt && book.ownership !== 'wishlist') };
 }
 
-// 全書籍を取得
-export async function getBooks(userId: string): Promise<Book[]> {
-  const booksRef = collection(db, 'users', userId, 'books');
-  const q = query(booksRef, orderBy('createdAt', 'desc'));
-  const snapshot = await getDocs(q);
-
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      ...data,
-      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
-    } as Book;
-  });
-}
-
-// 書籍を更新
-export async function updateBook(userId: string, bookId: string, updates: Partial<Book>): Promise<void> {
-  const bookRef = doc(db, 'users', userId, 'books', bookId);
-  
-  // undefined を除去してから更新
-  const cleanedUpdates = removeUndefined({
-    ...updates,
-    updatedAt: serverTimestamp(),
-  });
-  
-  await updateDoc(bookRef, cleanedUpdates);
-}
-
-// 書籍を削除
-export async function deleteBook(userId: string, bookId: string): Promise<void> {
-  const bookRef = doc(db, 'users', userId, 'books', bookId);
-  await deleteDoc(bookRef);
+// 書籍の変更を購読（削除されたら null）
+export function watchBook(
+  userId: string,
+  bookId: string,
+  listener: (book: Book | null, meta: SnapshotMeta) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return getRepository().books.watch(userId, bookId, listener, onError);
 }
 
-// 複数の書籍を一括追加（インポート用）
-export async function addBooks(userId: string, books: Omit<Book, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<number> {
-  const booksRef = collection(db, 'users', userId, 'books');
-
-  for (const book of books) {
-    // undefined を除去してから保存
-    const cleanedBook = removeUndefined({
-      ...book,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-    });
-    
-    await addDoc(booksRef, cleanedBook);
+// since より後に追加・更新・削除された書籍を購読（ゴミ箱・ウィッシュリストの書籍も届く）
+export function watchBookUpdates(
+  userId: string,
+  since: Date,
+  listener: (updated: Book[], removedIds: string[], meta: SnapshotMeta) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return getRepository().books.watchUpdates(userId, since, listener, onError);
+}
+
+// 購読で届いた変更を書籍一覧（登録日の新しい順）に反映する
+// ゴミ箱・ウィッシュリストに移った書籍は一覧から外す
+export function mergeBookUpdates(books: Book[], updated: Book[], removedIds: string[]): Book[] {
+  const changed = new Map(updated.map((book) => [book.id!, book]));
+  const removed = new Set(removedIds);
+  const result = books
+    .filter((book) => !removed.has(book.id!))
+    .map((book) => changed.get(book.id!) ?? book)
+    .filter((book) => !book.deletedAt && book.ownership !== 'wishlist');
+  const existing = new Set(books.map((book) => book.id!));
+  const added = updated.filter((book) => !existing.has(book.id!) && !book.deletedAt && book.ownership !== 'wishlist');
+  if (added.length === 0) return result;
+  return [...added, ...result].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// 書籍を更新（変更は履歴に残る）
+export async function updateBook(
+  userId: string,
+  bookId: string,
+  updates: Partial<Book>,
+  context?: ChangeContext
+): Promise<void> {
+  await getRepository().books.update(userId, bookId, updates, context);
+}
+
+// 書籍を完全に削除（メモ・添付画像・読書記録もあわせて削除）
+// 添付画像・メモ・読書記録を削除しきれなかった場合は、再実行できるよう書籍は残す
+// 画像を削除できなかったメモも残す（メモを消すと画像の場所がわからなくなり、二度と削除できないため）
+export async function deleteBook(
+  userId: string,
+  bookId: string,
+  onProgress?: (progress: DeleteBookProgress) => void
+): Promise<DeleteBookResult> {
+  const repository = getRepository();
+  const failures: DeleteBookFailure[] = [];
+  const notes = await repository.notes.list(userId, bookId);
+  const noteLabel = (noteId: string) =>
+    notes.find((n) => n.id === noteId)?.title || '無題のメモ';
+
+  // 添付画像
+  const imageFailedNoteIds = new Set<string>();
+  for (let i = 0; i < notes.length; i++) {
+    onProgress?.({ phase: 'images', done: i, total: notes.length });
+    const note = notes[i];
+    if (!note.images || note.images.length === 0) continue;
+
+    const failedFiles = await deleteAllNoteImages(userId, bookId, note.id!, note.images);
+    if (failedFiles.length > 0) imageFailedNoteIds.add(note.id!);
+    for (const fileName of failedFiles) {
+      failures.push({ type: 'image', noteId: note.id, label: fileName, message: '画像を削除できませんでした' });
+    }
+  }
+
+  // メモ（バッチ単位）
+  const noteIds = notes.map((n) => n.id!).filter((noteId) => !imageFailedNoteIds.has(noteId));
+  let deletedNotes = 0;
+  for (let i = 0; i < noteIds.length; i += NOTE_DELETE_BATCH_SIZE) {
+    onProgress?.({ phase: 'notes', done: i, total: noteIds.length });
+    const chunk = noteIds.slice(i, i + NOTE_DELETE_BATCH_SIZE);
+    try {
+      await repository.notes.deleteMany(userId, bookId, chunk);
+      deletedNotes += chunk.length;
+    } catch (error) {
+      console.error('Error deleting notes:', error);
+      for (const noteId of chunk) {
+        failures.push({ type: 'note', noteId, label: noteLabel(noteId), message: errorMessage(error) });
+      }
+    }
+  }
+
+  // 書籍本体と読書記録
+  onProgress?.({ phase: 'book', done: 0, total: 1 });
+  let sessionsDeleted = true;
+  try {
+    const sessions = await repository.sessions.list(userId, bookId);
+    for (const session of sessions) {
+      await repository.sessions.delete(userId, bookId, session.id!);
+    }
+  } catch (error) {
+    console.error('Error deleting reading sessions:', error);
+    sessionsDeleted = false;
+    failures.push({ type: 'session', label: '読書記録', message: errorMessage(error) });
+  }
+
+  let bookDeleted = false;
+  if (deletedNotes === notes.length && sessionsDeleted) {
+    try {
+      await repository.books.delete(userId, bookId);
+      bookDeleted = true;
+      // 変更履歴・メモの以前の版・メモのリンクは書籍がなければ不要なので、消せなくても削除は成功とする
+      await repository.changes.deleteByBook(userId, bookId).catch((error) => {
+        console.error('Error deleting book history:', error);
+      });
+      await repository.versions.deleteByBook(userId, bookId).catch((error) => {
+        console.error('Error deleting note versions:', error);
+      });
+      await repository.links.deleteFromBook(userId, bookId).catch((error) => {
+        console.error('Error deleting note links:', error);
+      });
+    } catch (error) {
+      console.error('Error deleting book:', error);
+      failures.push({ type: 'book', label: '書籍', message: errorMessage(error) });
+    }
   }
+  onProgress?.({ phase: 'book', done: bookDeleted ? 1 : 0, total: 1 });
+
+  return { bookDeleted, deletedNotes, failures };
+}
 
-  return books.length;
+// 複数の書籍を一括追加（インポート用）
+export async function addBooks(userId: string, books: Omit<Book, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<number> {
+  return getRepository().books.addMany(userId, books);
 }
 
 // importBooks のエイリアス
@@ -121,68 +203,22 @@ export const importBooks = addBooks;
 // ISBNで書籍を検索（重複チェック用）
 export async function findBookByISBN(userId: string, isbn: string): Promise<Book | null> {
   if (!isbn) return null;
-  
-  const cleanIsbn = isbn.replace(/-/g, '');
-  const booksRef = collection(db, 'users', userId, 'books');
-  const snapshot = await getDocs(booksRef);
-  
-  for (const doc of snapshot.docs) {
-    const data = doc.data();
-    const bookIsbn = (data.isbn13 || '').replace(/-/g, '');
-    if (bookIsbn && bookIsbn === cleanIsbn) {
-      return {
-        id: doc.id,
-        ...data,
-        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-        updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
-      } as Book;
-    }
-  }
-  
-  return null;
+  return getRepository().books.findByIsbn(userId, isbn);
+}
+
+// 複数の ISBN をまとめて検索（インポート時の重複チェック用。キーは ISBN-13 に揃えた ISBN）
+export async function findBooksByISBNs(userId: string, isbns: string[]): Promise<Map<string, Book>> {
+  const targets = isbns.filter(Boolean);
+  if (targets.length === 0) return new Map();
+  return getRepository().books.findManyByIsbn(userId, targets);
 }
 
-// 複数の書籍を一括更新
+// 複数の書籍を一括更新（1回の操作として履歴に残る）
 export async function bulkUpdateBooks(
   userId: string, 
   bookIds: string[], 
-  updates: Partial<Book>
+  updates: Partial<Book>,
+  context?: ChangeContext
 ): Promise<number> {
-  const batch = writeBatch(db);
-  const cleanedUpdates = removeUndefined({
-    ...updates,
-    updatedAt: serverTimestamp(),
-  });
-
-  // Firestoreのバッチは500件まで
-  const batchSize = 500;
-  let updatedCount = 0;
-
-  for (let i = 0; i < bookIds.length; i += batchSize) {
-    const chunk = bookIds.slice(i, i + batchSize);
-    const chunkBatch = writeBatch(db);
-
-    for (const bookId of chunk) {
-      const bookRef = doc(db, 'users', userId, 'books', bookId);
-      chunkBatch.update(bookRef, cleanedUpdates);
-    }
-
-    await chunkBatch.commit();
-    updatedCount += chunk.length;
-  }
-
-  return updatedCount;
-}
-
-// formatが未設定の書籍を一括で紙書籍に設定
-export async function setAllBooksAsPaper(userId: string): Promise<number> {
-  const books = await getBooks(userId);
-  const booksWithoutFormat = books.filter(book => !book.format);
-  
-  if (booksWithoutFormat.length === 0) {
-    return 0;
-  }
-
-  const bookIds = booksWithoutFormat.map(book => book.id!);
-  return await bulkUpdateBooks(userId, bookIds, { format: 'paper' });
+  return getRepository().books.bulkUpdate(userId, bookIds, updates, context);
 }
@@ -0,0 +1,150 @@
+import { Book, Contributor, ContributorRole } from '@/types/book';
+
+export const CONTRIBUTOR_ROLES: ContributorRole[] = [
+  'author',
+  'translator',
+  'editor',
+  'supervisor',
+  'illustrator',
+  'other',
+];
+
+export const CONTRIBUTOR_ROLE_LABELS: Record<ContributorRole, string> = {
+  author: '著',
+  translator: '訳',
+  editor: '編',
+  supervisor: '監修',
+  illustrator: '絵',
+  other: 'その他',
+};
+
+// 名前の前後に付く役割の表記（長いものから判定する）
+// attached: 名前に直接続けて書かれることが多いもの（「柴田元幸訳」）。
+// 「作」「文」などは名前の末尾と区別できないため、空白や括弧で区切られている場合のみ役割とみなす
+const ROLE_MARKERS: { marker: string; role: ContributorRole; attached: boolean }[] = [
+  { marker: 'イラスト', role: 'illustrator', attached: true },
+  { marker: '監訳', role: 'translator', attached: true },
+  { marker: '翻訳', role: 'translator', attached: true },
+  { marker: '編著', role: 'editor', attached: true },
+  { marker: '編集', role: 'editor', attached: true },
+  { marker: '監修', role: 'supervisor', attached: true },
+  { marker: '著', role: 'author', attached: true },
+  { marker: '訳', role: 'translator', attached: true },
+  { marker: '編', role: 'editor', attached: true },
+  { marker: '作', role: 'author', attached: false },
+  { marker: '文', role: 'author', attached: false },
+  { marker: '絵', role: 'illustrator', attached: false },
+  { marker: '画', role: 'illustrator', attached: false },
+];
+
+// 表示用に名前を整える（全角英数・空白の統一）
+export function normalizeContributorName(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+// 表記ゆれを吸収した比較用のキー
+// 「村上 春樹」「村上春樹」、「J・K・ローリング」「J.K.ローリング」を同じ人物として扱う
+export function contributorKey(name: string): string {
+  return normalizeContributorName(name)
+    .toLowerCase()
+    .replace(/[\s・･.．]/g, '');
+}
+
+// 「村上春樹 訳」「柴田元幸（訳）」「訳：柴田元幸」などから名前と役割を取り出す
+function parseOne(text: string): Contributor | null {
+  let name = normalizeContributorName(text);
+  let role: ContributorRole = 'author';
+
+  for (const { marker, role: markerRole, attached } of ROLE_MARKERS) {
+    const separator = attached ? '[\\s/／]*' : '[\\s/／]+';
+    const suffix = new RegExp(`(?:${separator}${marker}|[\\s/／]*[(\\[［【]${marker}[)\\]］】])$`);
+    const prefix = new RegExp(`^[(\\[［【]?${marker}[)\\]］】]?\\s*[:：]\\s*`);
+    if (suffix.test(name) && name.replace(suffix, '').trim()) {
+      name = name.replace(suffix, '').trim();
+      role = markerRole;
+      break;
+    }
+    if (prefix.test(name)) {
+      name = name.replace(prefix, '').trim();
+      role = markerRole;
+      break;
+    }
+  }
+
+  return name ? { name, role } : null;
+}
+
+// 著者文字列（「A, B 訳」など）を寄与者の配列に変換
+export function parseContributors(text: string): Contributor[] {
+  return text
+    .split(/[,，、;；\n]/)
+    .map(parseOne)
+    .filter((c): c is Contributor => c !== null);
+}
+
+// 寄与者の配列を表示用の著者文字列に変換（著者は役割を省略）
+export function formatContributors(contributors: Contributor[]): string {
+  return contributors
+    .map((c) => (c.role === 'author' ? c.name : `${c.name}（${CONTRIBUTOR_ROLE_LABELS[c.role]}）`))
+    .join(', ');
+}
+
+// 書籍の寄与者（contributors がない古いデータは author から推定）
+export function getContributors(book: Pick<Book, 'author' | 'contributors'>): Contributor[] {
+  if (book.contributors && book.contributors.length > 0) return book.contributors;
+  return book.author ? parseContributors(book.author) : [];
+}
+
+// 保存用に寄与者を整える（空行の除去・名前の正規化・重複の除去）と、表示用の author を付ける
+export function buildContributorFields(contributors: Contributor[]): Pick<Book, 'author' | 'contributors'> {
+  const seen = new Set<string>();
+  const cleaned: Contributor[] = [];
+  for (const c of contributors) {
+    const name = normalizeContributorName(c.name);
+    const key = `${contributorKey(name)}:${c.role}`;
+    if (!name || seen.has(key)) continue;
+    seen.add(key);
+    cleaned.push({ name, role: c.role });
+  }
+  return { contributors: cleaned, author: formatContributors(cleaned) };
+}
+
+// 人物ごとの著作（著者ページ用）
+export interface ContributorWork {
+  book: Book;
+  roles: ContributorRole[];
+}
+
+export interface ContributorProfile {
+  key: string;
+  name: string; // もっとも多く使われている表記
+  variants: string[]; // 表記ゆれ
+  works: ContributorWork[];
+}
+
+// 指定した人物が関わった書籍を集める
+export function getContributorProfile(books: Book[], name: string): ContributorProfile {
+  const key = contributorKey(name);
+  const nameCounts = new Map<string, number>();
+  const works: ContributorWork[] = [];
+
+  for (const book of books) {
+    const matched = getContributors(book).filter((c) => contributorKey(c.name) === key);
+    if (matched.length === 0) continue;
+    for (const c of matched) {
+      nameCounts.set(c.name, (nameCounts.get(c.name) || 0) + 1);
+    }
+    works.push({ book, roles: [...new Set(matched.map((c) => c.role))] });
+  }
+
+  const variants = Array.from(nameCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([variant]) => variant);
+
+  return { key, name: variants[0] || normalizeContributorName(name), variants, works };
+}
+
+// 著者ページへのパス
+export function contributorPath(name: string): string {
+  return `/authors/${encodeURIComponent(normalizeContributorName(name))}`;
+}
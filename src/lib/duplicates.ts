@@ -0,0 +1,289 @@
+import { getRepository } from './repository';
+import { getBookIsbnKey } from './isbn';
+import { getContributors, contributorKey } from './contributors';
+import { parseVolumeNumber } from './series';
+import { deleteBook } from './books';
+import { repointNoteLinks } from './noteLinks';
+import { Book, Note, NoteImage } from '@/types/book';
+
+// タイトルの類似度がこれ以上なら重複候補
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+const DISMISSED_KEY = 'bookbrain_dismissed_duplicates';
+
+// 重複候補のまとまり
+export interface DuplicateGroup {
+  key: string; // 含まれる書籍 ID を並べたもの（「重複ではない」の記録に使う）
+  reason: 'isbn' | 'title';
+  books: Book[];
+}
+
+export interface MergeResult {
+  movedNotes: number;
+  movedSessions: number;
+  failures: string[]; // 削除できなかった書籍のタイトル
+}
+
+// 比較用のタイトル（全角・半角、記号、空白の違いを無視）
+const normalizeTitle = (title: string) =>
+  title.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+// 2文字ずつの組
+const bigrams = (text: string): Set<string> => {
+  const result = new Set<string>();
+  if (text.length === 1) result.add(text);
+  for (let i = 0; i < text.length - 1; i++) {
+    result.add(text.slice(i, i + 2));
+  }
+  return result;
+};
+
+// Dice 係数（0〜1）
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+const volumeOf = (book: Book) => book.volume ?? parseVolumeNumber(book.title);
+
+// タイトル・著者が似ている2冊を同じ本とみなせるか
+function isSimilarBook(
+  a: Book,
+  b: Book,
+  gramsA: Set<string>,
+  gramsB: Set<string>,
+  peopleA: Set<string>,
+  peopleB: Set<string>
+): boolean {
+  // ISBN が両方あって違う、巻数が違う、紙と電子で持っている場合は別の本
+  const isbnA = getBookIsbnKey(a);
+  const isbnB = getBookIsbnKey(b);
+  if (isbnA && isbnB && isbnA !== isbnB) return false;
+  const volumeA = volumeOf(a);
+  const volumeB = volumeOf(b);
+  if (volumeA !== undefined && volumeB !== undefined && volumeA !== volumeB) return false;
+  if (a.format && b.format && a.format !== b.format) return false;
+
+  // 著者が両方わかっていれば1人は共通していること
+  if (peopleA.size > 0 && peopleB.size > 0 && ![...peopleA].some((p) => peopleB.has(p))) return false;
+
+  return similarity(gramsA, gramsB) >= TITLE_SIMILARITY_THRESHOLD;
+}
+
+// 重複候補を探す（ゴミ箱・ウィッシュリストの書籍は除いて渡す）
+// ISBN（ISBN-10 は ISBN-13 に変換）が同じもの → タイトル・著者が似ているもの の順にまとめる
+export function findDuplicateGroups(books: Book[]): DuplicateGroup[] {
+  const groups: DuplicateGroup[] = [];
+  const grouped = new Set<string>();
+
+  const byIsbn = new Map<string, Book[]>();
+  for (const book of books) {
+    const key = getBookIsbnKey(book);
+    if (!key) continue;
+    byIsbn.set(key, [...(byIsbn.get(key) || []), book]);
+  }
+  for (const members of byIsbn.values()) {
+    if (members.length < 2) continue;
+    members.forEach((b) => grouped.add(b.id!));
+    groups.push({ key: members.map((b) => b.id!).sort().join(','), reason: 'isbn', books: members });
+  }
+
+  // ISBN で見つからなかった書籍をタイトル・著者で比較（同じ候補どうしはつなげてまとめる）
+  const rest = books.filter((b) => !grouped.has(b.id!));
+  const grams = rest.map((b) => bigrams(normalizeTitle(b.title)));
+  const people = rest.map((b) => new Set(getContributors(b).map((c) => contributorKey(c.name))));
+  const parent = rest.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < rest.length; i++) {
+    for (let j = i + 1; j < rest.length; j++) {
+      if (isSimilarBook(rest[i], rest[j], grams[i], grams[j], people[i], people[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const byRoot = new Map<number, Book[]>();
+  rest.forEach((book, i) => {
+    const root = find(i);
+    byRoot.set(root, [...(byRoot.get(root) || []), book]);
+  });
+  for (const members of byRoot.values()) {
+    if (members.length < 2) continue;
+    groups.push({ key: members.map((b) => b.id!).sort().join(','), reason: 'title', books: members });
+  }
+
+  return groups;
+}
+
+// 「重複ではない」としたまとまり（端末ごとの設定）
+export function getDismissedDuplicates(): Set<string> {
+  if (typeof window === 'undefined') return new Set();
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DISMISSED_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+}
+
+export function dismissDuplicateGroup(key: string): void {
+  const dismissed = getDismissedDuplicates();
+  dismissed.add(key);
+  localStorage.setItem(DISMISSED_KEY, JSON.stringify([...dismissed]));
+}
+
+// 残す書籍に他の書籍の情報を足した更新内容（残す書籍の値を優先。保存はしない）
+export function buildMergedFields(survivor: Book, others: Book[]): Partial<Book> {
+  const updates: Partial<Book> = {};
+  const fillable: (keyof Book)[] = [
+    'subtitle', 'author', 'contributors', 'publisher', 'publishedDate', 'description',
+    'isbn13', 'isbn10', 'seriesId', 'volume', 'category', 'ndc', 'pageCount', 'coverImage',
+    'locationId', 'location', 'format', 'purchasedAt', 'purchasePrice', 'purchaseStore',
+  ];
+  for (const field of fillable) {
+    if (survivor[field] !== undefined && survivor[field] !== null && survivor[field] !== '') continue;
+    const source = others.find((b) => b[field] !== undefined && b[field] !== null && b[field] !== '');
+    if (source) {
+      (updates as Record<string, unknown>)[field] = source[field];
+    }
+  }
+
+  // 読み進めたページは一番進んでいるもの
+  const pages = [survivor, ...others].map((b) => b.currentPage || 0);
+  if (Math.max(...pages) > (survivor.currentPage || 0)) {
+    updates.currentPage = Math.max(...pages);
+  }
+
+  // タグはすべてまとめる
+  const tags = [...new Set([survivor, ...others].flatMap((b) => b.tags || []))];
+  if (tags.length > (survivor.tags || []).length) {
+    updates.tags = tags;
+  }
+
+  // 貸出記録もまとめる
+  const loans = [survivor, ...others].flatMap((b) => b.loans || []);
+  if (loans.length > (survivor.loans || []).length) {
+    updates.loans = loans.sort((a, b) => a.lentAt.getTime() - b.lentAt.getTime());
+  }
+
+  // AI要約は残す書籍になければ一番新しいもの
+  if (!survivor.aiSummary) {
+    const latest = others
+      .filter((b) => b.aiSummary)
+      .sort((a, b) => (b.aiSummaryUpdatedAt?.getTime() ?? 0) - (a.aiSummaryUpdatedAt?.getTime() ?? 0))[0];
+    if (latest) {
+      updates.aiSummary = latest.aiSummary;
+      updates.aiSummaryUpdatedAt = latest.aiSummaryUpdatedAt;
+    }
+  }
+
+  return updates;
+}
+
+// メモを別の書籍に移す（作成日時はそのまま、表示順は displayOrder。添付画像は移動先にアップロードし直し、本文中の URL も置き換える）
+// 画像をすべて取得できてからメモを作り、途中で失敗した場合は作りかけのメモを消して例外を投げる（やり直しても重複しない）
+// 移した先のメモの ID を返す
+async function moveNote(userId: string, note: Note, toBookId: string, displayOrder: number): Promise<string> {
+  const repository = getRepository();
+  const blobs: Blob[] = [];
+  for (const image of note.images || []) {
+    blobs.push(await repository.images.download(userId, note.bookId, note.id!, image.fileName));
+  }
+
+  const moved = await repository.notes.add(userId, toBookId, {
+    bookId: toBookId,
+    kind: note.kind,
+    title: note.title,
+    content: note.content,
+    pageReference: note.pageReference,
+    tags: note.tags,
+    displayOrder,
+    createdAt: note.createdAt,
+  });
+
+  const uploadedImages: NoteImage[] = [];
+  try {
+    const updates: Partial<Note> = {};
+    if (note.images && note.images.length > 0) {
+      let content = note.content;
+      for (const [index, image] of note.images.entries()) {
+        const uploaded = await repository.images.upload(userId, toBookId, moved.id!, blobs[index], image.fileName);
+        uploadedImages.push(uploaded);
+        content = content.split(image.url).join(uploaded.url);
+      }
+      updates.content = content;
+      updates.images = uploadedImages;
+    }
+    // ゴミ箱のメモはゴミ箱のまま移す
+    if (note.deletedAt) updates.deletedAt = note.deletedAt;
+    if (Object.keys(updates).length > 0) {
+      await repository.notes.update(userId, toBookId, moved.id!, updates);
+    }
+  } catch (error) {
+    for (const image of uploadedImages) {
+      await repository.images.delete(userId, toBookId, moved.id!, image.fileName).catch(console.error);
+    }
+    await repository.notes.delete(userId, toBookId, moved.id!).catch(console.error);
+    throw error;
+  }
+  return moved.id!;
+}
+
+// 重複した書籍を1冊にまとめる
+// メモ（添付画像を含む）・読書記録を残す書籍に移し、情報を補ってから他の書籍を削除する
+// 途中で失敗した場合は例外を投げ、移しきれていない書籍は削除しない
+export async function mergeBooks(userId: string, survivor: Book, others: Book[]): Promise<MergeResult> {
+  const repository = getRepository();
+  const result: MergeResult = { movedNotes: 0, movedSessions: 0, failures: [] };
+  const movedNoteIds = new Map<string, string>();
+  // 移したメモは残す書籍のメモの後ろに、元の書籍ごとの表示順のまま並べる
+  const survivorNotes = await repository.notes.list(userId, survivor.id!);
+  let nextOrder = Math.max(-1, ...survivorNotes.map((note) => note.displayOrder ?? -1)) + 1;
+
+  for (const book of others) {
+    const notes = await repository.notes.list(userId, book.id!);
+    for (const note of notes) {
+      movedNoteIds.set(note.id!, await moveNote(userId, note, survivor.id!, nextOrder++));
+      await repository.notes.delete(userId, book.id!, note.id!);
+      // 元の画像は書籍の削除時にまとめて消えないため個別に削除
+      for (const image of note.images || []) {
+        await repository.images.delete(userId, book.id!, note.id!, image.fileName).catch(console.error);
+      }
+      result.movedNotes++;
+    }
+
+    const sessions = await repository.sessions.list(userId, book.id!);
+    for (const session of sessions) {
+      await repository.sessions.add(userId, survivor.id!, {
+        bookId: survivor.id!,
+        date: session.date,
+        startPage: session.startPage,
+        endPage: session.endPage,
+        minutes: session.minutes,
+      });
+      await repository.sessions.delete(userId, book.id!, session.id!);
+      result.movedSessions++;
+    }
+  }
+
+  // メモのリンクを残す書籍・移したメモに付け替える（失敗しても統合は続け、表示時は名前で探し直す）
+  await repointNoteLinks(userId, survivor.id!, others.map((book) => book.id!), movedNoteIds).catch((error) => {
+    console.error('Error repointing note links:', error);
+  });
+
+  const updates = buildMergedFields(survivor, others);
+  if (Object.keys(updates).length > 0) {
+    await repository.books.update(userId, survivor.id!, updates, { source: 'merge' });
+  }
+
+  for (const book of others) {
+    const deleted = await deleteBook(userId, book.id!);
+    if (!deleted.bookDeleted) result.failures.push(book.title);
+  }
+
+  return result;
+}
@@ -1,7 +1,13 @@
-import { initializeApp, getApps } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
-import { getStorage } from 'firebase/storage';
+import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
+import { getAuth, Auth } from 'firebase/auth';
+import {
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  Firestore,
+} from 'firebase/firestore';
+import { getStorage, FirebaseStorage } from 'firebase/storage';
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -12,9 +18,34 @@ const firebaseConfig = {
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
 };
 
-// Initialize Firebase
-const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
+// Firebase は初回アクセス時に初期化する
+// （メモリバックエンドでは設定なしで起動できるよう、モジュール読み込み時には初期化しない）
+function getFirebaseApp(): FirebaseApp {
+  return getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
+}
 
-export const auth = getAuth(app);
-export const db = getFirestore(app);
-export const storage = getStorage(app);
+export function getFirebaseAuth(): Auth {
+  return getAuth(getFirebaseApp());
+}
+
+let db: Firestore | null = null;
+
+// ブラウザでは IndexedDB にデータをキャッシュし、オフラインでも読み書きできるようにする（複数タブ対応）
+export function getDb(): Firestore {
+  if (db) return db;
+  const app = getFirebaseApp();
+  if (typeof window === 'undefined') return getFirestore(app);
+  try {
+    db = initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
+  } catch {
+    // 開発時のホットリロードなどで初期化済みの場合
+    db = getFirestore(app);
+  }
+  return db;
+}
+
+export function getFirebaseStorage(): FirebaseStorage {
+  return getStorage(getFirebaseApp());
+}
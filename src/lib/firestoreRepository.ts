@@ -0,0 +1,948 @@
+import {
+  collection,
+  collectionGroup,
+  addDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  getDocs,
+  getDoc,
+  query,
+  orderBy,
+  where,
+  limit,
+  startAfter,
+  documentId,
+  onSnapshot,
+  serverTimestamp,
+  deleteField,
+  Timestamp,
+  writeBatch,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL, getBlob, deleteObject } from 'firebase/storage';
+import { getDb, getFirebaseStorage } from './firebase';
+import { Book, BookChange, Note, NoteLink, NoteVersion, ReadingSession, Series, StorageLocation, Tag } from '@/types/book';
+import {
+  BookChangeRepository,
+  BookRepository,
+  ImageRepository,
+  LibraryRepository,
+  LocationRepository,
+  NewNoteVersion,
+  NoteLinkRepository,
+  NoteRepository,
+  NoteVersionRepository,
+  ReadingSessionRepository,
+  SchemaRepository,
+  SeriesRepository,
+  TagRepository,
+} from './repository';
+import { getBookIsbnKey, normalizeIsbn } from './isbn';
+import { ChangeContext, DEFAULT_CHANGE_CONTEXT, diffBookUpdates, generateBatchId } from './bookChanges';
+import { buildNoteVersion } from './noteDiff';
+
+// undefined 値を除去するヘルパー関数
+const removeUndefined = (obj: Record<string, unknown>): Record<string, unknown> => {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined)
+  );
+};
+
+// 書籍の更新内容を保存用に変換する（undefined は「変更なし」、null は項目の削除）
+const toBookUpdateData = (obj: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(removeUndefined(obj)).map(([key, value]) => [key, value === null ? deleteField() : value])
+  );
+
+const toDate = (value: unknown): Date =>
+  value instanceof Timestamp ? value.toDate() : new Date();
+
+// 未設定のまま残す日付フィールド用
+const toOptionalDate = (value: unknown): Date | null =>
+  value instanceof Timestamp ? value.toDate() : value instanceof Date ? value : null;
+
+function toBook(id: string, data: DocumentData): Book {
+  return {
+    id,
+    ...data,
+    statusHistory: data.statusHistory
+      ? data.statusHistory.map((event: Record<string, unknown>) => ({ ...event, at: toDate(event.at) }))
+      : undefined,
+    loans: data.loans
+      ? data.loans.map((loan: Record<string, unknown>) => ({
+          ...loan,
+          lentAt: toDate(loan.lentAt),
+          dueAt: toOptionalDate(loan.dueAt) ?? undefined,
+          returnedAt: toOptionalDate(loan.returnedAt) ?? undefined,
+        }))
+      : undefined,
+    wishlist: data.wishlist ? { ...data.wishlist, addedAt: toDate(data.wishlist.addedAt) } : undefined,
+    purchasedAt: toOptionalDate(data.purchasedAt) ?? undefined,
+    startedAt: toOptionalDate(data.startedAt) ?? undefined,
+    completedAt: toOptionalDate(data.completedAt) ?? undefined,
+    soldAt: toOptionalDate(data.soldAt) ?? undefined,
+    notesUpdatedAt: toOptionalDate(data.notesUpdatedAt) ?? undefined,
+    deletedAt: toOptionalDate(data.deletedAt),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  } as Book;
+}
+
+function toNote(id: string, data: DocumentData): Note {
+  return {
+    id,
+    bookId: data.bookId,
+    kind: data.kind || undefined,
+    title: data.title || undefined,
+    content: data.content,
+    pageReference: data.pageReference || undefined,
+    tags: data.tags && data.tags.length > 0 ? data.tags : undefined,
+    images: data.images ? data.images.map((img: Record<string, unknown>) => ({
+      id: img.id as string,
+      url: img.url as string,
+      fileName: img.fileName as string,
+      uploadedAt: img.uploadedAt instanceof Timestamp
+        ? img.uploadedAt.toDate()
+        : new Date(img.uploadedAt as string),
+    })) : undefined,
+    displayOrder: data.displayOrder,
+    deletedAt: toOptionalDate(data.deletedAt),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  } as Note;
+}
+
+// displayOrder でソート、同じ場合は createdAt でソート
+// （displayOrder のない古いメモは移行処理（migrations.ts）で補う。それまでは末尾に並べる）
+const sortNotes = (items: Note[]): Note[] =>
+  items.sort((a, b) => (a.displayOrder ?? 9999) - (b.displayOrder ?? 9999) || a.createdAt.getTime() - b.createdAt.getTime());
+
+// 変更前後の値の Timestamp を Date に戻す（ほしい本の追加日など、入れ子になった日付も含む）
+const fromStoredValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromStoredValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromStoredValue(item)]));
+  }
+  return value;
+};
+
+function toBookChange(id: string, data: DocumentData): BookChange {
+  const toValue = (value: unknown) => fromStoredValue(value) ?? null;
+  return {
+    id,
+    bookId: data.bookId,
+    field: data.field,
+    oldValue: toValue(data.oldValue),
+    newValue: toValue(data.newValue),
+    source: data.source,
+    batchId: data.batchId,
+    changedAt: toDate(data.changedAt),
+    revertedAt: toOptionalDate(data.revertedAt),
+  };
+}
+
+// 新しい順
+const sortChanges = (items: BookChange[]): BookChange[] =>
+  items.sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+
+function toNoteVersion(id: string, data: DocumentData): NoteVersion {
+  return {
+    id,
+    noteId: data.noteId,
+    bookId: data.bookId,
+    title: data.title || undefined,
+    content: data.content,
+    pageReference: data.pageReference || undefined,
+    savedAt: toDate(data.savedAt),
+  };
+}
+
+function toNoteLink(id: string, data: DocumentData): NoteLink {
+  return {
+    id,
+    fromBookId: data.fromBookId,
+    fromNoteId: data.fromNoteId,
+    target: data.target,
+    toBookId: data.toBookId,
+    toNoteId: data.toNoteId || undefined,
+  };
+}
+
+function toTag(id: string, data: DocumentData): Tag {
+  return {
+    id,
+    name: data.name,
+    color: data.color,
+    createdAt: toDate(data.createdAt),
+  } as Tag;
+}
+
+function toSeries(id: string, data: DocumentData): Series {
+  return {
+    id,
+    name: data.name,
+    expectedVolumes: data.expectedVolumes ?? undefined,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+}
+
+function toStorageLocation(id: string, data: DocumentData): StorageLocation {
+  return {
+    id,
+    name: data.name,
+    kind: data.kind,
+    parentId: data.parentId ?? null,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+}
+
+function toReadingSession(id: string, data: DocumentData): ReadingSession {
+  return {
+    id,
+    bookId: data.bookId,
+    date: toDate(data.date),
+    startPage: data.startPage,
+    endPage: data.endPage,
+    minutes: data.minutes ?? undefined,
+    createdAt: toDate(data.createdAt),
+  };
+}
+
+const booksCollection = (userId: string) => collection(getDb(), 'users', userId, 'books');
+const bookDoc = (userId: string, bookId: string) => doc(getDb(), 'users', userId, 'books', bookId);
+const notesCollection = (userId: string, bookId: string) =>
+  collection(getDb(), 'users', userId, 'books', bookId, 'notes');
+const noteDoc = (userId: string, bookId: string, noteId: string) =>
+  doc(getDb(), 'users', userId, 'books', bookId, 'notes', noteId);
+const sessionsCollection = (userId: string, bookId: string) =>
+  collection(getDb(), 'users', userId, 'books', bookId, 'sessions');
+const seriesCollection = (userId: string) => collection(getDb(), 'users', userId, 'series');
+const seriesDoc = (userId: string, seriesId: string) => doc(getDb(), 'users', userId, 'series', seriesId);
+const locationsCollection = (userId: string) => collection(getDb(), 'users', userId, 'locations');
+const locationDoc = (userId: string, locationId: string) => doc(getDb(), 'users', userId, 'locations', locationId);
+const tagsCollection = (userId: string) => collection(getDb(), 'users', userId, 'tags');
+const tagDoc = (userId: string, tagId: string) => doc(getDb(), 'users', userId, 'tags', tagId);
+const bookChangesCollection = (userId: string) => collection(getDb(), 'users', userId, 'bookChanges');
+const bookChangeDoc = (userId: string, changeId: string) => doc(getDb(), 'users', userId, 'bookChanges', changeId);
+const noteVersionsCollection = (userId: string) => collection(getDb(), 'users', userId, 'noteVersions');
+const noteVersionDoc = (userId: string, versionId: string) => doc(getDb(), 'users', userId, 'noteVersions', versionId);
+const noteLinksCollection = (userId: string) => collection(getDb(), 'users', userId, 'noteLinks');
+const schemaDoc = (userId: string) => doc(getDb(), 'users', userId, 'meta', 'schema');
+
+// ユーザーのすべての書籍のメモを検索する
+// collectionGroup はすべてのユーザーのメモが対象なので、パスが users/{userId}/ の下にあるものに絞る
+const userNotesQuery = (userId: string, ...constraints: QueryConstraint[]) => {
+  const db = getDb();
+  return query(
+    collectionGroup(db, 'notes'),
+    ...constraints,
+    where(documentId(), '>=', doc(db, 'users', userId)),
+    where(documentId(), '<=', doc(db, 'users', userId, 'books', '\uf8ff', 'notes', '\uf8ff'))
+  );
+};
+
+// Firestore の in 検索に渡せる値の数
+const IN_QUERY_LIMIT = 30;
+
+// メモの変更を書籍にも記録する（他の端末は書籍の購読でメモの変更に気づける）
+// 一覧でメモ数を書籍ごとに問い合わせなくて済むよう、ゴミ箱を除くメモの数もあわせて保存する
+// 書籍がすでに削除されている場合もメモの操作は成功させる
+const touchBookNotes = async (userId: string, bookId: string): Promise<void> => {
+  try {
+    const snapshot = await getDocs(notesCollection(userId, bookId));
+    const noteCount = snapshot.docs.filter((d) => !d.data().deletedAt).length;
+    await updateDoc(bookDoc(userId, bookId), { noteCount, notesUpdatedAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  } catch (error) {
+    console.error('Error touching book:', error);
+  }
+};
+
+// listPage で返したページの最後の書籍（次のページの開始位置に使う）
+const pageEnds = new Map<string, DocumentSnapshot>();
+
+// Firestore のバッチは500件まで
+const BATCH_LIMIT = 500;
+
+// 書籍を更新し、値が変わったフィールドを変更履歴に記録する（書籍と履歴は同じバッチで書き込む）
+// ISBN が変わる更新には検索用の isbnKey を足す（もう一方の ISBN は保存済みの値を使う）
+async function writeBookUpdates(
+  userId: string,
+  changes: { bookId: string; updates: Partial<Book> }[],
+  context: ChangeContext = DEFAULT_CHANGE_CONTEXT
+): Promise<number> {
+  const batchId = context.batchId ?? generateBatchId();
+  let batch = writeBatch(getDb());
+  let operations = 0;
+
+  for (let i = 0; i < changes.length; i += BATCH_LIMIT) {
+    const chunk = changes.slice(i, i + BATCH_LIMIT);
+    // オフラインでキャッシュにない場合は履歴なしで更新する
+    const snapshots = await Promise.all(chunk.map(({ bookId }) => getDoc(bookDoc(userId, bookId)).catch(() => null)));
+
+    for (const [index, { bookId, updates }] of chunk.entries()) {
+      const snapshot = snapshots[index];
+      const before = snapshot?.exists() ? toBook(snapshot.id, snapshot.data()) : null;
+      const isbnChanged = updates.isbn13 !== undefined || updates.isbn10 !== undefined;
+      const bookUpdates = isbnChanged
+        ? { ...updates, isbnKey: getBookIsbnKey({ ...(before || {}), ...removeUndefined(updates) }) }
+        : updates;
+      const entries = before ? diffBookUpdates(before, updates, { ...context, batchId }) : [];
+
+      if (operations + 1 + entries.length > BATCH_LIMIT) {
+        await batch.commit();
+        batch = writeBatch(getDb());
+        operations = 0;
+      }
+      batch.update(bookDoc(userId, bookId), toBookUpdateData({ ...bookUpdates, updatedAt: serverTimestamp() }));
+      for (const entry of entries) {
+        batch.set(doc(bookChangesCollection(userId)), { ...entry, changedAt: serverTimestamp(), revertedAt: null });
+      }
+      operations += 1 + entries.length;
+    }
+  }
+
+  if (operations > 0) {
+    await batch.commit();
+  }
+  return changes.length;
+}
+
+const books: BookRepository = {
+  async add(userId, book) {
+    // undefined を除去してからFirestoreに保存
+    const isbnKey = getBookIsbnKey(book);
+    const cleanedBook = removeUndefined({
+      ...book,
+      isbnKey,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    const docRef = await addDoc(booksCollection(userId), cleanedBook);
+
+    return {
+      id: docRef.id,
+      ...book,
+      isbnKey,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  },
+
+  async addMany(userId, newBooks) {
+    for (const book of newBooks) {
+      // undefined を除去してから保存
+      const cleanedBook = removeUndefined({
+        ...book,
+        isbnKey: getBookIsbnKey(book),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      await addDoc(booksCollection(userId), cleanedBook);
+    }
+
+    return newBooks.length;
+  },
+
+  async get(userId, bookId) {
+    const bookSnap = await getDoc(bookDoc(userId, bookId));
+    if (!bookSnap.exists()) {
+      return null;
+    }
+    return toBook(bookSnap.id, bookSnap.data());
+  },
+
+  async list(userId) {
+    const q = query(booksCollection(userId), orderBy('createdAt', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((d) => toBook(d.id, d.data()));
+  },
+
+  async listPage(userId, cursor, pageSize) {
+    // 登録日が同じ書籍でも順序が変わらないよう ID でも並べる
+    const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc'), orderBy(documentId(), 'desc')];
+    if (cursor) {
+      const end = pageEnds.get(cursor) ?? (await getDoc(bookDoc(userId, cursor)));
+      constraints.push(startAfter(end));
+    }
+    const snapshot = await getDocs(query(booksCollection(userId), ...constraints, limit(pageSize)));
+
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    if (last) pageEnds.set(last.id, last);
+    return {
+      books: snapshot.docs.map((d) => toBook(d.id, d.data())),
+      cursor: snapshot.docs.length === pageSize ? last.id : null,
+    };
+  },
+
+  async update(userId, bookId, updates, context) {
+    await writeBookUpdates(userId, [{ bookId, updates }], context);
+  },
+
+  async bulkUpdate(userId, bookIds, updates, context) {
+    return writeBookUpdates(userId, bookIds.map((bookId) => ({ bookId, updates })), context);
+  },
+
+  async updateMany(userId, changes, context) {
+    return writeBookUpdates(userId, changes, context);
+  },
+
+  async delete(userId, bookId) {
+    await deleteDoc(bookDoc(userId, bookId));
+  },
+
+  async findByIsbn(userId, isbn) {
+    const key = normalizeIsbn(isbn);
+    if (!key) return null;
+    // isbn13 / isbn10 を ISBN-13 に揃えた isbnKey で検索
+    const q = query(booksCollection(userId), where('isbnKey', '==', key), limit(1));
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) return null;
+    return toBook(snapshot.docs[0].id, snapshot.docs[0].data());
+  },
+
+  async findManyByIsbn(userId, isbns) {
+    const keys = [...new Set(isbns.map(normalizeIsbn).filter((key): key is string => key !== null))];
+    const found = new Map<string, Book>();
+
+    const chunks = [];
+    for (let i = 0; i < keys.length; i += IN_QUERY_LIMIT) {
+      chunks.push(keys.slice(i, i + IN_QUERY_LIMIT));
+    }
+    const snapshots = await Promise.all(
+      chunks.map((chunk) => getDocs(query(booksCollection(userId), where('isbnKey', 'in', chunk))))
+    );
+    for (const snapshot of snapshots) {
+      for (const d of snapshot.docs) {
+        const book = toBook(d.id, d.data());
+        if (book.isbnKey && !found.has(book.isbnKey)) found.set(book.isbnKey, book);
+      }
+    }
+
+    return found;
+  },
+
+  watch(userId, bookId, listener, onError) {
+    return onSnapshot(
+      bookDoc(userId, bookId),
+      (snapshot) => {
+        const book = snapshot.exists() ? toBook(snapshot.id, snapshot.data()) : null;
+        listener(book, { local: snapshot.metadata.hasPendingWrites });
+      },
+      onError
+    );
+  },
+
+  watchUpdates(userId, since, listener, onError) {
+    const q = query(booksCollection(userId), where('updatedAt', '>', Timestamp.fromDate(since)));
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const updated: Book[] = [];
+        const removedIds: string[] = [];
+        for (const change of snapshot.docChanges()) {
+          if (change.type !== 'removed') {
+            updated.push(toBook(change.doc.id, change.doc.data()));
+          } else if (!change.doc.metadata.hasPendingWrites) {
+            // この端末の更新中は updatedAt が未確定のため一時的に条件から外れる（確定すると added で戻る）
+            removedIds.push(change.doc.id);
+          }
+        }
+        if (updated.length > 0 || removedIds.length > 0) {
+          listener(updated, removedIds, { local: snapshot.metadata.hasPendingWrites });
+        }
+      },
+      onError
+    );
+  },
+};
+
+const notes: NoteRepository = {
+  async add(userId, bookId, note) {
+    const notesRef = notesCollection(userId, bookId);
+
+    // displayOrderを取得（既存のメモの数）
+    const existingNotes = await getDocs(notesRef);
+    const displayOrder = note.displayOrder ?? existingNotes.size;
+
+    const docData: Record<string, unknown> = {
+      bookId: note.bookId,
+      content: note.content,
+      displayOrder,
+      createdAt: note.createdAt ?? serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    // undefined の値は保存しない
+    if (note.kind) docData.kind = note.kind;
+    if (note.title) docData.title = note.title;
+    if (note.pageReference) docData.pageReference = note.pageReference;
+    if (note.tags && note.tags.length > 0) docData.tags = note.tags;
+    if (note.images && note.images.length > 0) {
+      docData.images = note.images.map(img => ({
+        id: img.id,
+        url: img.url,
+        fileName: img.fileName,
+        uploadedAt: img.uploadedAt,
+      }));
+    }
+
+    const docRef = await addDoc(notesRef, docData);
+    await touchBookNotes(userId, bookId);
+
+    return {
+      id: docRef.id,
+      bookId: note.bookId,
+      kind: note.kind,
+      title: note.title,
+      content: note.content,
+      pageReference: note.pageReference,
+      tags: note.tags,
+      images: note.images,
+      displayOrder,
+      createdAt: note.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+  },
+
+  async get(userId, bookId, noteId) {
+    const snapshot = await getDoc(noteDoc(userId, bookId, noteId));
+    if (!snapshot.exists()) return null;
+    return toNote(snapshot.id, snapshot.data());
+  },
+
+  async list(userId, bookId) {
+    // displayOrderがないドキュメントがあるとorderByでエラーになるため、
+    // orderByなしで取得してクライアント側でソート
+    const snapshot = await getDocs(notesCollection(userId, bookId));
+
+    return sortNotes(snapshot.docs.map((d) => toNote(d.id, d.data())));
+  },
+
+  async update(userId, bookId, noteId, updates) {
+    const updateData: Record<string, unknown> = {
+      updatedAt: serverTimestamp(),
+    };
+
+    // 各フィールドを個別に設定
+    if (updates.kind !== undefined) {
+      updateData.kind = updates.kind;
+    }
+    if (updates.title !== undefined) {
+      updateData.title = updates.title || null;
+    }
+    if (updates.content !== undefined) {
+      updateData.content = updates.content;
+    }
+    if (updates.pageReference !== undefined) {
+      updateData.pageReference = updates.pageReference || null;
+    }
+    if (updates.tags !== undefined) {
+      updateData.tags = updates.tags.length > 0 ? updates.tags : null;
+    }
+    if (updates.images !== undefined) {
+      updateData.images = updates.images && updates.images.length > 0
+        ? updates.images.map(img => ({
+            id: img.id,
+            url: img.url,
+            fileName: img.fileName,
+            uploadedAt: img.uploadedAt instanceof Date ? img.uploadedAt : new Date(img.uploadedAt),
+          }))
+        : null;
+    }
+    if (updates.displayOrder !== undefined) {
+      updateData.displayOrder = updates.displayOrder;
+    }
+    if (updates.deletedAt !== undefined) {
+      updateData.deletedAt = updates.deletedAt;
+    }
+
+    // タイトル・内容・ページ参照が変わるなら、更新前の状態を版として同じバッチで残す
+    // オフラインでキャッシュにない場合は版なしで更新する
+    let version: NewNoteVersion | null = null;
+    if (updates.title !== undefined || updates.content !== undefined || updates.pageReference !== undefined) {
+      const snapshot = await getDoc(noteDoc(userId, bookId, noteId)).catch(() => null);
+      version = snapshot?.exists() ? buildNoteVersion(toNote(snapshot.id, snapshot.data()), updates) : null;
+    }
+
+    const batch = writeBatch(getDb());
+    batch.update(noteDoc(userId, bookId, noteId), updateData);
+    if (version) {
+      batch.set(doc(noteVersionsCollection(userId)), removeUndefined({ ...version }));
+    }
+    await batch.commit();
+    await touchBookNotes(userId, bookId);
+  },
+
+  async updateOrder(userId, bookId, noteOrders) {
+    const batch = writeBatch(getDb());
+
+    for (const { noteId, displayOrder } of noteOrders) {
+      batch.update(noteDoc(userId, bookId, noteId), { displayOrder, updatedAt: serverTimestamp() });
+    }
+
+    await batch.commit();
+  },
+
+  async delete(userId, bookId, noteId) {
+    await deleteDoc(noteDoc(userId, bookId, noteId));
+    await touchBookNotes(userId, bookId);
+  },
+
+  async deleteMany(userId, bookId, noteIds) {
+    const batch = writeBatch(getDb());
+
+    for (const noteId of noteIds) {
+      batch.delete(noteDoc(userId, bookId, noteId));
+    }
+
+    await batch.commit();
+    await touchBookNotes(userId, bookId);
+  },
+
+  async listTrashed(userId) {
+    const snapshot = await getDocs(userNotesQuery(userId, where('deletedAt', '!=', null)));
+    return snapshot.docs.map((d) => toNote(d.id, d.data()));
+  },
+
+  async listByTag(userId, tagName) {
+    const snapshot = await getDocs(userNotesQuery(userId, where('tags', 'array-contains', tagName)));
+    return snapshot.docs.map((d) => toNote(d.id, d.data()));
+  },
+
+  watch(userId, bookId, listener, onError) {
+    return onSnapshot(
+      notesCollection(userId, bookId),
+      (snapshot) => {
+        const result = sortNotes(snapshot.docs.map((d) => toNote(d.id, d.data())));
+        listener(result, { local: snapshot.metadata.hasPendingWrites });
+      },
+      onError
+    );
+  },
+};
+
+const tags: TagRepository = {
+  async add(userId, tag) {
+    const docRef = await addDoc(tagsCollection(userId), {
+      name: tag.name,
+      color: tag.color || 'gray',
+      createdAt: serverTimestamp(),
+    });
+
+    return {
+      id: docRef.id,
+      name: tag.name,
+      color: tag.color || 'gray',
+      createdAt: new Date(),
+    };
+  },
+
+  async list(userId) {
+    const q = query(tagsCollection(userId), orderBy('name', 'asc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((d) => toTag(d.id, d.data()));
+  },
+
+  async update(userId, tagId, updates) {
+    await updateDoc(tagDoc(userId, tagId), removeUndefined({ ...updates }));
+  },
+
+  async delete(userId, tagId) {
+    await deleteDoc(tagDoc(userId, tagId));
+  },
+
+  async findByName(userId, name) {
+    const q = query(tagsCollection(userId), where('name', '==', name));
+    const snapshot = await getDocs(q);
+
+    if (snapshot.empty) return null;
+
+    const d = snapshot.docs[0];
+    return toTag(d.id, d.data());
+  },
+
+  watch(userId, listener, onError) {
+    const q = query(tagsCollection(userId), orderBy('name', 'asc'));
+    return onSnapshot(q, (snapshot) => listener(snapshot.docs.map((d) => toTag(d.id, d.data()))), onError);
+  },
+};
+
+const series: SeriesRepository = {
+  async add(userId, newSeries) {
+    const docRef = await addDoc(seriesCollection(userId), removeUndefined({
+      ...newSeries,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    }));
+
+    return {
+      id: docRef.id,
+      ...newSeries,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  },
+
+  async get(userId, seriesId) {
+    const snapshot = await getDoc(seriesDoc(userId, seriesId));
+    if (!snapshot.exists()) return null;
+    return toSeries(snapshot.id, snapshot.data());
+  },
+
+  async list(userId) {
+    const q = query(seriesCollection(userId), orderBy('name', 'asc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((d) => toSeries(d.id, d.data()));
+  },
+
+  async update(userId, seriesId, updates) {
+    await updateDoc(seriesDoc(userId, seriesId), removeUndefined({
+      ...updates,
+      updatedAt: serverTimestamp(),
+    }));
+  },
+
+  async delete(userId, seriesId) {
+    await deleteDoc(seriesDoc(userId, seriesId));
+  },
+
+  async findByName(userId, name) {
+    const q = query(seriesCollection(userId), where('name', '==', name));
+    const snapshot = await getDocs(q);
+
+    if (snapshot.empty) return null;
+
+    const d = snapshot.docs[0];
+    return toSeries(d.id, d.data());
+  },
+};
+
+const locations: LocationRepository = {
+  async add(userId, location) {
+    const docRef = await addDoc(locationsCollection(userId), {
+      ...location,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    return {
+      id: docRef.id,
+      ...location,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  },
+
+  async list(userId) {
+    const q = query(locationsCollection(userId), orderBy('name', 'asc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((d) => toStorageLocation(d.id, d.data()));
+  },
+
+  async update(userId, locationId, updates) {
+    await updateDoc(locationDoc(userId, locationId), removeUndefined({
+      ...updates,
+      updatedAt: serverTimestamp(),
+    }));
+  },
+
+  async delete(userId, locationId) {
+    await deleteDoc(locationDoc(userId, locationId));
+  },
+};
+
+const sessions: ReadingSessionRepository = {
+  async add(userId, bookId, session) {
+    const docRef = await addDoc(sessionsCollection(userId, bookId), removeUndefined({
+      ...session,
+      createdAt: serverTimestamp(),
+    }));
+
+    return {
+      id: docRef.id,
+      ...session,
+      createdAt: new Date(),
+    };
+  },
+
+  async list(userId, bookId) {
+    const q = query(sessionsCollection(userId, bookId), orderBy('date', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((d) => toReadingSession(d.id, d.data()));
+  },
+
+  async delete(userId, bookId, sessionId) {
+    await deleteDoc(doc(getDb(), 'users', userId, 'books', bookId, 'sessions', sessionId));
+  },
+};
+
+const notePath = (userId: string, bookId: string, noteId: string, fileName: string) =>
+  `users/${userId}/books/${bookId}/notes/${noteId}/${fileName}`;
+
+const images: ImageRepository = {
+  async upload(userId, bookId, noteId, file, fileName) {
+    const imageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const extension = fileName?.split('.').pop() || 'png';
+    const finalFileName = `${imageId}.${extension}`;
+
+    const storageRef = ref(getFirebaseStorage(), notePath(userId, bookId, noteId, finalFileName));
+
+    await uploadBytes(storageRef, file, {
+      contentType: file.type || 'image/png',
+    });
+
+    const url = await getDownloadURL(storageRef);
+
+    return {
+      id: imageId,
+      url,
+      fileName: finalFileName,
+      uploadedAt: new Date(),
+    };
+  },
+
+  async download(userId, bookId, noteId, fileName) {
+    return getBlob(ref(getFirebaseStorage(), notePath(userId, bookId, noteId, fileName)));
+  },
+
+  async delete(userId, bookId, noteId, fileName) {
+    const storageRef = ref(getFirebaseStorage(), notePath(userId, bookId, noteId, fileName));
+
+    try {
+      await deleteObject(storageRef);
+    } catch (error) {
+      // 画像が存在しない場合はエラーを無視
+      if ((error as { code?: string }).code === 'storage/object-not-found') return;
+      throw error;
+    }
+  },
+};
+
+// ドキュメントをバッチ単位で削除する
+async function deleteDocs(refs: DocumentReference[]): Promise<void> {
+  for (let i = 0; i < refs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(getDb());
+    for (const ref of refs.slice(i, i + BATCH_LIMIT)) {
+      batch.delete(ref);
+    }
+    await batch.commit();
+  }
+}
+
+const changes: BookChangeRepository = {
+  async listByBook(userId, bookId) {
+    const snapshot = await getDocs(query(bookChangesCollection(userId), where('bookId', '==', bookId)));
+    return sortChanges(snapshot.docs.map((d) => toBookChange(d.id, d.data())));
+  },
+
+  async listByBatch(userId, batchId) {
+    const snapshot = await getDocs(query(bookChangesCollection(userId), where('batchId', '==', batchId)));
+    return sortChanges(snapshot.docs.map((d) => toBookChange(d.id, d.data())));
+  },
+
+  async markReverted(userId, changeIds) {
+    for (let i = 0; i < changeIds.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(getDb());
+      for (const changeId of changeIds.slice(i, i + BATCH_LIMIT)) {
+        batch.update(bookChangeDoc(userId, changeId), { revertedAt: serverTimestamp() });
+      }
+      await batch.commit();
+    }
+  },
+
+  async deleteByBook(userId, bookId) {
+    const snapshot = await getDocs(query(bookChangesCollection(userId), where('bookId', '==', bookId)));
+    await deleteDocs(snapshot.docs.map((d) => d.ref));
+  },
+};
+
+const versions: NoteVersionRepository = {
+  async list(userId, noteId) {
+    const snapshot = await getDocs(query(noteVersionsCollection(userId), where('noteId', '==', noteId)));
+    return snapshot.docs
+      .map((d) => toNoteVersion(d.id, d.data()))
+      .sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime());
+  },
+
+  async deleteMany(userId, versionIds) {
+    await deleteDocs(versionIds.map((versionId) => noteVersionDoc(userId, versionId)));
+  },
+
+  async deleteByNote(userId, noteId) {
+    const snapshot = await getDocs(query(noteVersionsCollection(userId), where('noteId', '==', noteId)));
+    await deleteDocs(snapshot.docs.map((d) => d.ref));
+  },
+
+  async deleteByBook(userId, bookId) {
+    const snapshot = await getDocs(query(noteVersionsCollection(userId), where('bookId', '==', bookId)));
+    await deleteDocs(snapshot.docs.map((d) => d.ref));
+  },
+};
+
+const listNoteLinks = async (userId: string, field: string, value: string): Promise<NoteLink[]> => {
+  const snapshot = await getDocs(query(noteLinksCollection(userId), where(field, '==', value)));
+  return snapshot.docs.map((d) => toNoteLink(d.id, d.data()));
+};
+
+const links: NoteLinkRepository = {
+  async listFromBook(userId, bookId) {
+    return listNoteLinks(userId, 'fromBookId', bookId);
+  },
+
+  async listFromNote(userId, noteId) {
+    return listNoteLinks(userId, 'fromNoteId', noteId);
+  },
+
+  async listToBook(userId, bookId) {
+    return listNoteLinks(userId, 'toBookId', bookId);
+  },
+
+  async replaceFromNote(userId, noteId, newLinks) {
+    // リンクは1つのメモにそれほど多くないので、古いリンクの削除と新しいリンクの追加を1回のバッチで行う
+    const snapshot = await getDocs(query(noteLinksCollection(userId), where('fromNoteId', '==', noteId)));
+    const batch = writeBatch(getDb());
+    for (const d of snapshot.docs) {
+      batch.delete(d.ref);
+    }
+    for (const link of newLinks) {
+      batch.set(doc(noteLinksCollection(userId)), removeUndefined({ ...link }));
+    }
+    await batch.commit();
+  },
+
+  async deleteFromNote(userId, noteId) {
+    const snapshot = await getDocs(query(noteLinksCollection(userId), where('fromNoteId', '==', noteId)));
+    await deleteDocs(snapshot.docs.map((d) => d.ref));
+  },
+
+  async deleteFromBook(userId, bookId) {
+    const snapshot = await getDocs(query(noteLinksCollection(userId), where('fromBookId', '==', bookId)));
+    await deleteDocs(snapshot.docs.map((d) => d.ref));
+  },
+};
+
+const schema: SchemaRepository = {
+  async getVersion(userId) {
+    const snapshot = await getDoc(schemaDoc(userId));
+    return snapshot.exists() ? snapshot.data().version ?? 0 : 0;
+  },
+
+  async setVersion(userId, version) {
+    await setDoc(schemaDoc(userId), { version, updatedAt: serverTimestamp() });
+  },
+};
+
+// Firestore / Cloud Storage を使うリポジトリ
+export function createFirestoreRepository(): LibraryRepository {
+  return { books, notes, tags, series, locations, sessions, images, changes, versions, links, schema };
+}
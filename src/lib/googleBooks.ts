@@ -1,3 +1,5 @@
+import { cleanIsbn as cleanIsbnInput } from './isbn';
+
 export interface GoogleBookInfo {
     title: string;
     subtitle?: string;
@@ -17,8 +19,8 @@ export interface GoogleBookInfo {
   
   export async function searchBookByISBN(isbn: string): Promise<GoogleBookInfo | null> {
     try {
-      // ISBNからハイフンを除去
-      const cleanIsbn = isbn.replace(/-/g, '');
+      // ISBNからハイフンや「ISBN」の表記を除去
+      const cleanIsbn = cleanIsbnInput(isbn);
       
       const response = await fetch(
         `https://www.googleapis.com/books/v1/volumes?q=isbn:${cleanIsbn}`
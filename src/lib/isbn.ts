@@ -0,0 +1,110 @@
+// ISBN の検証と ISBN-10 / ISBN-13 の変換
+
+export type IsbnError = 'format' | 'checksum' | 'book-code' | 'prefix';
+
+export interface IsbnCheck {
+  valid: boolean;
+  isbn13?: string; // 正しい場合は ISBN-13（ハイフンなし）
+  isbn10?: string; // ISBN-10 に変換できる場合（978 始まり）
+  error?: IsbnError;
+}
+
+export const ISBN_ERROR_MESSAGES: Record<IsbnError, string> = {
+  format: 'ISBNは10桁または13桁の数字で入力してください',
+  checksum: 'チェックディジットが正しくありません（入力ミスの可能性があります）',
+  'book-code': '192 で始まる番号は価格・分類のバーコードです。上段（978 始まり）のバーコードを読み取ってください',
+  prefix: 'ISBN-13は978または979で始まります',
+};
+
+// 全角・「ISBN」の表記・ハイフン・空白を除いた文字列（X は大文字に揃える）
+// 例: 「ISBN978-4-10-101001-4」「ＩＳＢＮ４－１０－１０１００１－３」
+export function cleanIsbn(isbn: string): string {
+  return isbn
+    .normalize('NFKC')
+    .toUpperCase()
+    .replace(/^ISBN(-1[03])?:?/, '')
+    .replace(/[-\s]/g, '');
+}
+
+const isbn10CheckDigit = (body: string): string => {
+  const sum = body.split('').reduce((acc, digit, i) => acc + Number(digit) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+};
+
+const isbn13CheckDigit = (body: string): string => {
+  const sum = body.split('').reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+export function isValidIsbn10(isbn: string): boolean {
+  const clean = cleanIsbn(isbn);
+  return /^\d{9}[\dX]$/.test(clean) && isbn10CheckDigit(clean.slice(0, 9)) === clean[9];
+}
+
+export function isValidIsbn13(isbn: string): boolean {
+  const clean = cleanIsbn(isbn);
+  return /^97[89]\d{10}$/.test(clean) && isbn13CheckDigit(clean.slice(0, 12)) === clean[12];
+}
+
+// 日本の書籍の2段目のバーコード（192 + Cコード + 本体価格）
+// 書籍JANコードの2段目は 191 / 192 で始まる（ISBN ではない）
+export function isJapaneseBookCode(value: string): boolean {
+  return /^19[12]\d{10}$/.test(cleanIsbn(value));
+}
+
+// ISBN-10 を ISBN-13（978 始まり）に変換（形式が違う場合は null）
+export function isbn10To13(isbn10: string): string | null {
+  const clean = cleanIsbn(isbn10);
+  if (!/^\d{9}[\dX]$/.test(clean)) return null;
+  const body = `978${clean.slice(0, 9)}`;
+  return `${body}${isbn13CheckDigit(body)}`;
+}
+
+// ISBN-13 を ISBN-10 に変換（979 始まりは ISBN-10 がないので null）
+export function isbn13To10(isbn13: string): string | null {
+  const clean = cleanIsbn(isbn13);
+  if (!/^978\d{10}$/.test(clean)) return null;
+  const body = clean.slice(3, 12);
+  return `${body}${isbn10CheckDigit(body)}`;
+}
+
+// 入力された ISBN を検証し、ISBN-13 / ISBN-10 にそろえる
+export function checkIsbn(input: string): IsbnCheck {
+  const clean = cleanIsbn(input);
+  if (isJapaneseBookCode(clean)) return { valid: false, error: 'book-code' };
+
+  if (/^\d{13}$/.test(clean)) {
+    if (!/^97[89]/.test(clean)) return { valid: false, error: 'prefix' };
+    if (!isValidIsbn13(clean)) return { valid: false, error: 'checksum' };
+    return { valid: true, isbn13: clean, isbn10: isbn13To10(clean) ?? undefined };
+  }
+
+  if (/^\d{9}[\dX]$/.test(clean)) {
+    if (!isValidIsbn10(clean)) return { valid: false, error: 'checksum' };
+    return { valid: true, isbn13: isbn10To13(clean)!, isbn10: clean };
+  }
+
+  return { valid: false, error: 'format' };
+}
+
+// 入力に問題があればメッセージを返す（空欄・正しい ISBN は null）
+export function getIsbnWarning(input: string | undefined): string | null {
+  if (!input || !input.trim()) return null;
+  const result = checkIsbn(input);
+  return result.error ? ISBN_ERROR_MESSAGES[result.error] : null;
+}
+
+// 比較用に ISBN-13 に揃える（ISBN として扱えない場合は null）
+// 既存データのチェックディジット誤りでも比較できるよう、桁数だけを見る
+export function normalizeIsbn(isbn: string | undefined): string | null {
+  if (!isbn) return null;
+  const clean = cleanIsbn(isbn);
+  if (/^\d{13}$/.test(clean)) return isJapaneseBookCode(clean) ? null : clean;
+  return isbn10To13(clean);
+}
+
+// 書籍の ISBN を ISBN-13 に揃えて返す（isbn13 がなければ isbn10 から変換）
+export function getBookIsbnKey(book: { isbn13?: string; isbn10?: string }): string | null {
+  return normalizeIsbn(book.isbn13) || normalizeIsbn(book.isbn10);
+}
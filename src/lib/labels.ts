@@ -0,0 +1,149 @@
+import QRCode from 'qrcode';
+import { formatLocationPath, LOCATION_KIND_LABELS } from './locations';
+import { Book, StorageLocation } from '@/types/book';
+
+// A4 ラベル用紙の面付け（寸法は mm）
+export interface LabelLayout {
+  id: string;
+  name: string;
+  cols: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+}
+
+export const A4_WIDTH_MM = 210;
+export const A4_HEIGHT_MM = 297;
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: '12', name: '12面（86.4×42.3mm）', cols: 2, rows: 6, labelWidth: 86.4, labelHeight: 42.3, marginTop: 21.6, marginLeft: 18.6 },
+  { id: '24', name: '24面（70×33.9mm）', cols: 3, rows: 8, labelWidth: 70, labelHeight: 33.9, marginTop: 12.9, marginLeft: 0 },
+  { id: '44', name: '44面（48.3×25.4mm）', cols: 4, rows: 11, labelWidth: 48.3, labelHeight: 25.4, marginTop: 8.8, marginLeft: 8.4 },
+];
+
+// ラベル1枚分（QRコードには url を埋め込む）
+export interface LabelItem {
+  key: string;
+  url: string;
+  title: string;
+  subtitle?: string;
+  caption?: string; // 下段の小さい文字（保管場所など）
+}
+
+// 書籍のラベル（スキャンすると書籍の詳細ページを開く）
+export function buildBookLabels(books: Book[], origin: string): LabelItem[] {
+  return books.map((book) => ({
+    key: `book-${book.id}`,
+    url: `${origin}/books/${book.id}`,
+    title: book.title,
+    subtitle: book.author || undefined,
+    caption: book.location || undefined,
+  }));
+}
+
+// 保管場所のラベル（スキャンするとその場所の書籍一覧を開く）
+export function buildLocationLabels(
+  targets: StorageLocation[],
+  locations: StorageLocation[],
+  origin: string
+): LabelItem[] {
+  return targets.map((location) => ({
+    key: `location-${location.id}`,
+    url: `${origin}/locations/${location.id}`,
+    title: formatLocationPath(locations, location.id!),
+    caption: LOCATION_KIND_LABELS[location.kind],
+  }));
+}
+
+// 1枚の用紙に収まる単位に分ける
+export function paginateLabels(items: LabelItem[], layout: LabelLayout): LabelItem[][] {
+  const perPage = layout.cols * layout.rows;
+  const pages: LabelItem[][] = [];
+  for (let i = 0; i < items.length; i += perPage) {
+    pages.push(items.slice(i, i + perPage));
+  }
+  return pages;
+}
+
+// ラベル上の位置（mm）
+export function getLabelPosition(layout: LabelLayout, index: number): { left: number; top: number } {
+  const col = index % layout.cols;
+  const row = Math.floor(index / layout.cols);
+  return {
+    left: layout.marginLeft + col * layout.labelWidth,
+    top: layout.marginTop + row * layout.labelHeight,
+  };
+}
+
+// QRコードを画像（data URL）として生成（同じ URL は使い回す）
+export async function generateQrCodes(urls: string[]): Promise<Map<string, string>> {
+  const images = new Map<string, string>();
+  for (const url of urls) {
+    if (images.has(url)) continue;
+    images.set(url, await QRCode.toDataURL(url, { margin: 1, width: 256, errorCorrectionLevel: 'M' }));
+  }
+  return images;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+// 幅に収まるように末尾を「…」で切り詰める
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+// 用紙1枚分を PNG 用の canvas に描画（dpi は出力解像度）
+export async function renderLabelSheet(
+  page: LabelItem[],
+  layout: LabelLayout,
+  qrCodes: Map<string, string>,
+  dpi = 300
+): Promise<HTMLCanvasElement> {
+  const scale = dpi / 25.4; // px / mm
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(A4_WIDTH_MM * scale);
+  canvas.height = Math.round(A4_HEIGHT_MM * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const padding = 2.5; // mm
+  for (let i = 0; i < page.length; i++) {
+    const item = page[i];
+    const { left, top } = getLabelPosition(layout, i);
+    const qrSize = layout.labelHeight - padding * 2;
+    const qr = qrCodes.get(item.url);
+    if (qr) {
+      ctx.drawImage(await loadImage(qr), (left + padding) * scale, (top + padding) * scale, qrSize * scale, qrSize * scale);
+    }
+
+    const textLeft = (left + padding * 2 + qrSize) * scale;
+    const textWidth = (layout.labelWidth - qrSize - padding * 3) * scale;
+    const fontSize = Math.min(4, layout.labelHeight / 7) * scale;
+    ctx.fillStyle = '#111827';
+    ctx.textBaseline = 'top';
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.fillText(fitText(ctx, item.title, textWidth), textLeft, (top + padding) * scale);
+    ctx.font = `${fontSize * 0.8}px sans-serif`;
+    ctx.fillStyle = '#4b5563';
+    if (item.subtitle) {
+      ctx.fillText(fitText(ctx, item.subtitle, textWidth), textLeft, (top + padding) * scale + fontSize * 1.4);
+    }
+    if (item.caption) {
+      ctx.fillText(fitText(ctx, item.caption, textWidth), textLeft, (top + layout.labelHeight - padding) * scale - fontSize);
+    }
+  }
+
+  return canvas;
+}
@@ -0,0 +1,139 @@
+import { getRepository } from './repository';
+import { buildStatusEventDateChange } from './statusHistory';
+import { ChangeContext } from './bookChanges';
+import { Book } from '@/types/book';
+
+// 売却先の候補（自由入力も可）
+export const SALE_CHANNEL_SUGGESTIONS = ['古書店', 'ブックオフ', 'メルカリ', 'ヤフオク', 'Amazonマーケットプレイス', '譲渡'];
+
+export const UNCATEGORIZED_LABEL = '未分類';
+
+// 月ごとの集計
+export interface MonthlyLedger {
+  month: string; // yyyy-mm
+  spent: number; // 購入金額
+  purchasedCount: number;
+  recovered: number; // 売却で回収した金額
+  soldCount: number;
+}
+
+// カテゴリごとの集計
+export interface CategoryLedger {
+  category: string;
+  spent: number;
+  recovered: number;
+  net: number; // 実質負担額（購入 - 売却）
+  bookCount: number;
+}
+
+export interface LedgerTotals {
+  spent: number;
+  recovered: number;
+  net: number;
+  purchasedCount: number;
+  soldCount: number;
+}
+
+// 購入・売却の記録がある年（新しい順）
+export function getLedgerYears(books: Book[]): number[] {
+  const years = new Set<number>();
+  for (const book of books) {
+    if (book.purchasedAt) years.add(book.purchasedAt.getFullYear());
+    if (book.soldAt) years.add(book.soldAt.getFullYear());
+  }
+  return [...years].sort((a, b) => b - a);
+}
+
+// 指定した年の月別集計（1月〜12月）
+export function getMonthlyLedger(books: Book[], year: number): MonthlyLedger[] {
+  const months: MonthlyLedger[] = Array.from({ length: 12 }, (_, i) => ({
+    month: `${year}-${String(i + 1).padStart(2, '0')}`,
+    spent: 0,
+    purchasedCount: 0,
+    recovered: 0,
+    soldCount: 0,
+  }));
+
+  for (const book of books) {
+    if (book.purchasedAt && book.purchasedAt.getFullYear() === year) {
+      const entry = months[book.purchasedAt.getMonth()];
+      entry.spent += book.purchasePrice || 0;
+      entry.purchasedCount++;
+    }
+    if (book.soldAt && book.readingStatus === 'sold' && book.soldAt.getFullYear() === year) {
+      const entry = months[book.soldAt.getMonth()];
+      entry.recovered += book.salePrice || 0;
+      entry.soldCount++;
+    }
+  }
+
+  return months;
+}
+
+// カテゴリ別の実質負担額（金額の記録がある書籍のみ。負担の大きい順）
+// year を指定すると、その年に購入・売却した分だけを集計
+export function getCategoryLedger(books: Book[], year?: number): CategoryLedger[] {
+  const inYear = (date?: Date | null) => !!date && (year === undefined || date.getFullYear() === year);
+  const byCategory = new Map<string, CategoryLedger>();
+
+  for (const book of books) {
+    const spent = inYear(book.purchasedAt) ? book.purchasePrice || 0 : 0;
+    const recovered = book.readingStatus === 'sold' && inYear(book.soldAt) ? book.salePrice || 0 : 0;
+    if (spent === 0 && recovered === 0) continue;
+
+    const category = book.category?.trim() || UNCATEGORIZED_LABEL;
+    const entry = byCategory.get(category) || { category, spent: 0, recovered: 0, net: 0, bookCount: 0 };
+    entry.spent += spent;
+    entry.recovered += recovered;
+    entry.net = entry.spent - entry.recovered;
+    entry.bookCount++;
+    byCategory.set(category, entry);
+  }
+
+  return [...byCategory.values()].sort((a, b) => b.net - a.net);
+}
+
+export function getLedgerTotals(months: MonthlyLedger[]): LedgerTotals {
+  const totals = months.reduce(
+    (acc, m) => ({
+      spent: acc.spent + m.spent,
+      recovered: acc.recovered + m.recovered,
+      net: 0,
+      purchasedCount: acc.purchasedCount + m.purchasedCount,
+      soldCount: acc.soldCount + m.soldCount,
+    }),
+    { spent: 0, recovered: 0, net: 0, purchasedCount: 0, soldCount: 0 }
+  );
+  return { ...totals, net: totals.spent - totals.recovered };
+}
+
+// 売却日を変更した更新内容を作る（保存はしない）
+// 履歴に売却の記録があればその日時を直し、なければ soldAt だけを設定する
+export function buildSaleDateChange(book: Pick<Book, 'statusHistory'>, at: Date): Partial<Book> {
+  const history = book.statusHistory || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].to === 'sold') {
+      return buildStatusEventDateChange(book, history[i].id, at);
+    }
+  }
+  return { soldAt: at };
+}
+
+// 複数の書籍の売却日をまとめて変更（売却済みの書籍のみ。変更した冊数を返す）
+// context を渡すと、一括編集の他の変更と一緒に元に戻せるよう同じ操作として記録する
+export async function setSaleDateMany(
+  userId: string,
+  bookIds: string[],
+  at: Date,
+  context?: ChangeContext
+): Promise<number> {
+  const repository = getRepository();
+  let updated = 0;
+  for (const bookId of bookIds) {
+    const book = await repository.books.get(userId, bookId);
+    if (!book || book.readingStatus !== 'sold') continue;
+    await repository.books.update(userId, bookId, buildSaleDateChange(book, at), context);
+    updated++;
+  }
+  return updated;
+}
@@ -0,0 +1,91 @@
+import { getRepository } from './repository';
+import { Book, Loan } from '@/types/book';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OverdueLoan {
+  book: Book;
+  loan: Loan;
+  daysOverdue: number;
+}
+
+const generateLoanId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// 貸出中の記録（なければ null）
+export function getActiveLoan(book: Pick<Book, 'loans'>): Loan | null {
+  return (book.loans || []).find((loan) => !loan.returnedAt) || null;
+}
+
+export function isLentOut(book: Pick<Book, 'loans'>): boolean {
+  return getActiveLoan(book) !== null;
+}
+
+// 返却予定日を過ぎた日数（期限内・期限なしなら 0）
+export function getDaysOverdue(loan: Loan, now: Date = new Date()): number {
+  if (loan.returnedAt || !loan.dueAt) return 0;
+  const days = Math.floor((startOfDay(now).getTime() - startOfDay(loan.dueAt).getTime()) / DAY_MS);
+  return Math.max(0, days);
+}
+
+// 返却期限を過ぎている貸出（超過日数の多い順）
+export function getOverdueLoans(books: Book[], now: Date = new Date()): OverdueLoan[] {
+  const overdue: OverdueLoan[] = [];
+  for (const book of books) {
+    const loan = getActiveLoan(book);
+    if (!loan) continue;
+    const daysOverdue = getDaysOverdue(loan, now);
+    if (daysOverdue > 0) overdue.push({ book, loan, daysOverdue });
+  }
+  return overdue.sort((a, b) => b.daysOverdue - a.daysOverdue);
+}
+
+// 書籍を貸し出す
+export async function lendBook(
+  userId: string,
+  book: Book,
+  loan: Omit<Loan, 'id' | 'returnedAt'>
+): Promise<Partial<Book>> {
+  if (book.format === 'ebook') {
+    throw new Error('電子書籍は貸し出せません');
+  }
+  if (book.readingStatus === 'sold') {
+    throw new Error('売却済みの書籍は貸し出せません');
+  }
+  if (isLentOut(book)) {
+    throw new Error('この書籍はすでに貸出中です');
+  }
+
+  const newLoan: Loan = { ...loan, id: generateLoanId(), borrower: loan.borrower.trim() };
+  if (!newLoan.dueAt) delete newLoan.dueAt;
+  const updates: Partial<Book> = { loans: [...(book.loans || []), newLoan] };
+  await getRepository().books.update(userId, book.id!, updates);
+  return updates;
+}
+
+// 返却を記録
+export async function returnBook(
+  userId: string,
+  book: Book,
+  returnedAt: Date = new Date()
+): Promise<Partial<Book>> {
+  const active = getActiveLoan(book);
+  if (!active) return {};
+
+  const updates: Partial<Book> = {
+    loans: (book.loans || []).map((loan) => (loan.id === active.id ? { ...loan, returnedAt } : loan)),
+  };
+  await getRepository().books.update(userId, book.id!, updates);
+  return updates;
+}
+
+// 貸出記録を削除（誤登録の取り消し用）
+export async function deleteLoan(userId: string, book: Book, loanId: string): Promise<Partial<Book>> {
+  const updates: Partial<Book> = {
+    loans: (book.loans || []).filter((loan) => loan.id !== loanId),
+  };
+  await getRepository().books.update(userId, book.id!, updates);
+  return updates;
+}
@@ -0,0 +1,227 @@
+import { getRepository } from './repository';
+import { Book, LocationKind, StorageLocation } from '@/types/book';
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  room: '部屋',
+  bookcase: '本棚',
+  shelf: '段',
+};
+
+// 子として追加できる種類（段の下には追加できない）
+export const CHILD_LOCATION_KIND: Record<LocationKind, LocationKind | null> = {
+  room: 'bookcase',
+  bookcase: 'shelf',
+  shelf: null,
+};
+
+const KIND_BY_DEPTH: LocationKind[] = ['room', 'bookcase', 'shelf'];
+
+export const LOCATION_PATH_SEPARATOR = ' / ';
+
+// 階層表示用のノード
+export interface LocationNode {
+  location: StorageLocation;
+  depth: number;
+  children: LocationNode[];
+}
+
+// 既存の自由入力の保管場所をどのノードに割り当てるか
+export interface LocationMigrationPlan {
+  value: string; // 元の文字列
+  path: string[]; // 部屋 → 本棚 → 段 の名前
+  bookIds: string[];
+}
+
+const compareNames = (a: StorageLocation, b: StorageLocation) =>
+  a.name.localeCompare(b.name, 'ja', { numeric: true });
+
+// 全保管場所を取得
+export async function getLocations(userId: string): Promise<StorageLocation[]> {
+  return getRepository().locations.list(userId);
+}
+
+// 保管場所を追加（種類は親の階層から決まる）
+export async function addLocation(
+  userId: string,
+  name: string,
+  parent: StorageLocation | null
+): Promise<StorageLocation> {
+  const kind = parent ? CHILD_LOCATION_KIND[parent.kind] : 'room';
+  if (!kind) {
+    throw new Error('段の下には保管場所を追加できません');
+  }
+  return getRepository().locations.add(userId, {
+    name: name.trim(),
+    kind,
+    parentId: parent ? parent.id! : null,
+  });
+}
+
+// 階層ツリーを作る（同じ階層は名前順。数字は数値として比較）
+export function buildLocationTree(locations: StorageLocation[]): LocationNode[] {
+  const build = (parentId: string | null, depth: number): LocationNode[] =>
+    locations
+      .filter((l) => l.parentId === parentId)
+      .sort(compareNames)
+      .map((location) => ({ location, depth, children: build(location.id!, depth + 1) }));
+  return build(null, 0);
+}
+
+// ツリーを表示順の一覧にする
+export function flattenLocationTree(nodes: LocationNode[]): LocationNode[] {
+  return nodes.flatMap((node) => [node, ...flattenLocationTree(node.children)]);
+}
+
+// 部屋から指定した保管場所までの経路
+export function getLocationPath(locations: StorageLocation[], locationId: string): StorageLocation[] {
+  const byId = new Map(locations.map((l) => [l.id!, l]));
+  const path: StorageLocation[] = [];
+  let current = byId.get(locationId);
+  while (current && path.length < KIND_BY_DEPTH.length) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+// 表示名（例: 書斎 / 本棚A / 2段目）
+export function formatLocationPath(locations: StorageLocation[], locationId: string): string {
+  return getLocationPath(locations, locationId).map((l) => l.name).join(LOCATION_PATH_SEPARATOR);
+}
+
+// 指定した保管場所とその下の階層の ID
+export function getLocationSubtreeIds(locations: StorageLocation[], locationId: string): Set<string> {
+  const ids = new Set([locationId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const l of locations) {
+      if (l.parentId && ids.has(l.parentId) && !ids.has(l.id!)) {
+        ids.add(l.id!);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// 書籍に保存するフィールド（表示名も一緒に更新する）
+export function buildLocationFields(
+  locations: StorageLocation[],
+  locationId: string | null
+): Pick<Book, 'locationId' | 'location'> {
+  if (!locationId) return { locationId: null, location: null };
+  return { locationId, location: formatLocationPath(locations, locationId) };
+}
+
+// 保管場所の名前を変更し、その下にある書籍の表示名も更新
+export async function renameLocation(
+  userId: string,
+  locations: StorageLocation[],
+  locationId: string,
+  name: string
+): Promise<void> {
+  const repository = getRepository();
+  await repository.locations.update(userId, locationId, { name: name.trim() });
+
+  const renamed = locations.map((l) => (l.id === locationId ? { ...l, name: name.trim() } : l));
+  const subtree = getLocationSubtreeIds(renamed, locationId);
+  const books = await repository.books.list(userId);
+  for (const book of books) {
+    if (book.locationId && subtree.has(book.locationId)) {
+      await repository.books.update(userId, book.id!, { location: formatLocationPath(renamed, book.locationId) });
+    }
+  }
+}
+
+// 保管場所を削除（下の階層があれば削除できない。置かれていた書籍は保管場所なしに戻す）
+export async function deleteLocation(
+  userId: string,
+  locations: StorageLocation[],
+  locationId: string
+): Promise<void> {
+  if (locations.some((l) => l.parentId === locationId)) {
+    throw new Error('先に下の階層の保管場所を削除してください');
+  }
+  const repository = getRepository();
+  const books = await repository.books.list(userId);
+  const bookIds = books.filter((b) => b.locationId === locationId).map((b) => b.id!);
+  if (bookIds.length > 0) {
+    await repository.books.bulkUpdate(userId, bookIds, { locationId: null, location: null });
+  }
+  await repository.locations.delete(userId, locationId);
+}
+
+// 同じ場所の表記ゆれを吸収するキー（例: 「棚2」「2段目」「２段」→ #2）
+export function locationKey(name: string): string {
+  const normalized = name.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+  const numbered = normalized.match(/^(?:棚|段)?(\d+)(?:段目|段|番目|番)?$/);
+  return numbered ? `#${Number(numbered[1])}` : normalized;
+}
+
+// 自由入力の保管場所を階層に分割（例: 「書斎 棚2」「書斎・棚2」「書斎/2段目」）
+export function splitLocationString(value: string): string[] {
+  const segments = value
+    .normalize('NFKC')
+    .split(/[\/・>→、,\s]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  // 4階層以上は最後の段にまとめる
+  if (segments.length > KIND_BY_DEPTH.length) {
+    return [...segments.slice(0, KIND_BY_DEPTH.length - 1), segments.slice(KIND_BY_DEPTH.length - 1).join(' ')];
+  }
+  return segments;
+}
+
+// 保管場所が未登録（自由入力のみ）の書籍をまとめる
+export function planLocationMigration(books: Book[]): LocationMigrationPlan[] {
+  const plans = new Map<string, LocationMigrationPlan>();
+  for (const book of books) {
+    const value = book.location?.trim();
+    if (!value || book.locationId) continue;
+    const plan = plans.get(value) || { value, path: splitLocationString(value), bookIds: [] };
+    plan.bookIds.push(book.id!);
+    plans.set(value, plan);
+  }
+  return [...plans.values()].sort((a, b) => a.value.localeCompare(b.value, 'ja', { numeric: true }));
+}
+
+// 自由入力の保管場所を階層に登録し、書籍に割り当てる
+// 表記ゆれは同じ階層の同じキーのノードにまとめる
+export async function migrateLocations(
+  userId: string,
+  plans: LocationMigrationPlan[]
+): Promise<{ books: number; created: number }> {
+  const repository = getRepository();
+  const locations = await repository.locations.list(userId);
+  let created = 0;
+  let updatedBooks = 0;
+
+  for (const plan of plans) {
+    if (plan.path.length === 0) continue;
+    let parentId: string | null = null;
+    for (let depth = 0; depth < plan.path.length; depth++) {
+      const key = locationKey(plan.path[depth]);
+      let node = locations.find((l) => l.parentId === parentId && locationKey(l.name) === key);
+      if (!node) {
+        node = await repository.locations.add(userId, {
+          name: plan.path[depth],
+          kind: KIND_BY_DEPTH[depth],
+          parentId,
+        });
+        locations.push(node);
+        created++;
+      }
+      parentId = node.id!;
+    }
+    updatedBooks += await repository.books.bulkUpdate(userId, plan.bookIds, buildLocationFields(locations, parentId));
+  }
+
+  return { books: updatedBooks, created };
+}
+
+// 指定した保管場所（下の階層を含む）にある書籍
+export function getBooksAtLocation(books: Book[], locations: StorageLocation[], locationId: string): Book[] {
+  const subtree = getLocationSubtreeIds(locations, locationId);
+  return books.filter((b) => b.locationId && subtree.has(b.locationId));
+}
@@ -0,0 +1,675 @@
+import { Book, BookChange, Note, NoteImage, NoteLink, NoteVersion, ReadingSession, Series, StorageLocation, Tag } from '@/types/book';
+import {
+  BookChangeRepository,
+  BookRepository,
+  ImageRepository,
+  LibraryRepository,
+  LocationRepository,
+  NoteLinkRepository,
+  NoteRepository,
+  NoteVersionRepository,
+  ReadingSessionRepository,
+  SchemaRepository,
+  SeriesRepository,
+  TagRepository,
+  Unsubscribe,
+} from './repository';
+import { getBookIsbnKey, normalizeIsbn } from './isbn';
+import { ChangeContext, DEFAULT_CHANGE_CONTEXT, diffBookUpdates, generateBatchId } from './bookChanges';
+import { buildNoteVersion } from './noteDiff';
+
+// ユーザーごとのデータ
+interface UserStore {
+  books: Map<string, Book>;
+  notes: Map<string, Map<string, Note>>; // bookId -> noteId -> Note
+  tags: Map<string, Tag>;
+  series: Map<string, Series>;
+  locations: Map<string, StorageLocation>;
+  sessions: Map<string, Map<string, ReadingSession>>; // bookId -> sessionId -> ReadingSession
+  changes: BookChange[];
+  versions: NoteVersion[];
+  links: NoteLink[];
+  schemaVersion: number;
+}
+
+export interface MemorySeed {
+  [userId: string]: {
+    books?: Book[];
+    notes?: Note[];
+    tags?: Tag[];
+    series?: Series[];
+    locations?: StorageLocation[];
+    schemaVersion?: number; // 省略時は 0（移行前のデータとして扱う）
+  };
+}
+
+const generateId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+
+// 呼び出し側での変更がストアに波及しないようコピーを返す
+const clone = <T>(value: T): T => structuredClone(value);
+
+// undefined のフィールドは「変更なし」として扱う（Firestore実装と同じ挙動）
+const withoutUndefined = <T extends object>(obj: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+
+// Firebase を使わずにメモリ上でデータを保持するリポジトリ
+// オフラインでの開発・テスト用。ページを再読み込みするとデータは消える
+export function createMemoryRepository(seed: MemorySeed = {}): LibraryRepository {
+  const stores = new Map<string, UserStore>();
+
+  const getStore = (userId: string): UserStore => {
+    let store = stores.get(userId);
+    if (!store) {
+      store = {
+        books: new Map(),
+        notes: new Map(),
+        tags: new Map(),
+        series: new Map(),
+        locations: new Map(),
+        sessions: new Map(),
+        changes: [],
+        versions: [],
+        links: [],
+        schemaVersion: 0,
+      };
+      stores.set(userId, store);
+    }
+    return store;
+  };
+
+  // 購読（書き込みのたびに再評価し、変わっていれば通知する）
+  const watchers = new Set<() => void>();
+  const notifyWatchers = () => {
+    queueMicrotask(() => watchers.forEach((check) => check()));
+  };
+  const addWatcher = (check: () => void): Unsubscribe => {
+    watchers.add(check);
+    queueMicrotask(() => {
+      if (watchers.has(check)) check();
+    });
+    return () => {
+      watchers.delete(check);
+    };
+  };
+
+  // メモの変更を書籍にも記録する（Firestore 実装と同じ）
+  const touchBookNotes = (userId: string, bookId: string) => {
+    const store = getStore(userId);
+    const book = store.books.get(bookId);
+    if (!book) return;
+    const now = new Date();
+    const noteCount = Array.from(getBookNotes(userId, bookId).values()).filter((note) => !note.deletedAt).length;
+    store.books.set(bookId, { ...book, noteCount, notesUpdatedAt: now, updatedAt: now });
+  };
+
+  const getBookNotes = (userId: string, bookId: string): Map<string, Note> => {
+    const store = getStore(userId);
+    let bookNotes = store.notes.get(bookId);
+    if (!bookNotes) {
+      bookNotes = new Map();
+      store.notes.set(bookId, bookNotes);
+    }
+    return bookNotes;
+  };
+
+  const getBookSessions = (userId: string, bookId: string): Map<string, ReadingSession> => {
+    const store = getStore(userId);
+    let bookSessions = store.sessions.get(bookId);
+    if (!bookSessions) {
+      bookSessions = new Map();
+      store.sessions.set(bookId, bookSessions);
+    }
+    return bookSessions;
+  };
+
+  for (const [userId, data] of Object.entries(seed)) {
+    const store = getStore(userId);
+    for (const book of data.books || []) {
+      const id = book.id || generateId();
+      store.books.set(id, clone({ ...book, id }));
+    }
+    for (const note of data.notes || []) {
+      const id = note.id || generateId();
+      getBookNotes(userId, note.bookId).set(id, clone({ ...note, id }));
+    }
+    for (const tag of data.tags || []) {
+      const id = tag.id || generateId();
+      store.tags.set(id, clone({ ...tag, id }));
+    }
+    for (const item of data.series || []) {
+      const id = item.id || generateId();
+      store.series.set(id, clone({ ...item, id }));
+    }
+    for (const item of data.locations || []) {
+      const id = item.id || generateId();
+      store.locations.set(id, clone({ ...item, id }));
+    }
+    store.schemaVersion = data.schemaVersion ?? 0;
+  }
+
+  const books: BookRepository = {
+    async add(userId, book) {
+      const now = new Date();
+      const newBook: Book = {
+        ...withoutUndefined(book),
+        isbnKey: getBookIsbnKey(book),
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now,
+      } as Book;
+      getStore(userId).books.set(newBook.id!, clone(newBook));
+      notifyWatchers();
+      return clone(newBook);
+    },
+
+    async addMany(userId, newBooks) {
+      for (const book of newBooks) {
+        await books.add(userId, book);
+      }
+      return newBooks.length;
+    },
+
+    async get(userId, bookId) {
+      const book = getStore(userId).books.get(bookId);
+      return book ? clone(book) : null;
+    },
+
+    async list(userId) {
+      return Array.from(getStore(userId).books.values())
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(clone);
+    },
+
+    async listPage(userId, cursor, pageSize) {
+      const all = await books.list(userId);
+      const index = cursor ? all.findIndex((book) => book.id === cursor) : -1;
+      // 見つからないカーソルで先頭から返すと同じ書籍が重複するので、続きはないものとする
+      if (cursor && index === -1) return { books: [], cursor: null };
+      const start = index + 1;
+      const page = all.slice(start, start + pageSize);
+      return {
+        books: page,
+        cursor: start + pageSize < all.length ? page[page.length - 1].id! : null,
+      };
+    },
+
+    async update(userId, bookId, updates, context = DEFAULT_CHANGE_CONTEXT) {
+      const store = getStore(userId);
+      const book = store.books.get(bookId);
+      if (!book) {
+        throw new Error(`Book not found: ${bookId}`);
+      }
+      const now = new Date();
+      const entries = diffBookUpdates(book, updates, { ...context, batchId: context.batchId ?? generateBatchId() });
+      store.changes.push(...entries.map((entry) => clone({ ...entry, id: generateId(), changedAt: now, revertedAt: null })));
+      // null は項目の削除（Firestore の deleteField と同じく項目ごと消す）
+      const updated = Object.fromEntries(
+        Object.entries({ ...book, ...withoutUndefined(updates), id: bookId, updatedAt: now }).filter(([, value]) => value !== null)
+      ) as unknown as Book;
+      store.books.set(bookId, clone({ ...updated, isbnKey: getBookIsbnKey(updated) }));
+      notifyWatchers();
+    },
+
+    async bulkUpdate(userId, bookIds, updates, context) {
+      return books.updateMany(userId, bookIds.map((bookId) => ({ bookId, updates })), context);
+    },
+
+    async updateMany(userId, changes, context = DEFAULT_CHANGE_CONTEXT) {
+      // 1回の操作として同じ batchId で記録する
+      const shared: ChangeContext = { ...context, batchId: context.batchId ?? generateBatchId() };
+      for (const { bookId, updates } of changes) {
+        await books.update(userId, bookId, updates, shared);
+      }
+      return changes.length;
+    },
+
+    async delete(userId, bookId) {
+      getStore(userId).books.delete(bookId);
+      notifyWatchers();
+    },
+
+    async findByIsbn(userId, isbn) {
+      const key = normalizeIsbn(isbn);
+      if (!key) return null;
+      for (const book of getStore(userId).books.values()) {
+        if (book.isbnKey === key) {
+          return clone(book);
+        }
+      }
+      return null;
+    },
+
+    async findManyByIsbn(userId, isbns) {
+      const keys = new Set(isbns.map(normalizeIsbn));
+      const found = new Map<string, Book>();
+      for (const book of getStore(userId).books.values()) {
+        if (book.isbnKey && keys.has(book.isbnKey) && !found.has(book.isbnKey)) {
+          found.set(book.isbnKey, clone(book));
+        }
+      }
+      return found;
+    },
+
+    watch(userId, bookId, listener) {
+      let last: Book | undefined | null = null;
+      return addWatcher(() => {
+        const book = getStore(userId).books.get(bookId);
+        if (book === last) return;
+        last = book;
+        listener(book ? clone(book) : null, { local: true });
+      });
+    },
+
+    watchUpdates(userId, since, listener) {
+      const emitted = new Map<string, Book>();
+      return addWatcher(() => {
+        const store = getStore(userId);
+        const updated: Book[] = [];
+        for (const book of store.books.values()) {
+          if (book.updatedAt > since && emitted.get(book.id!) !== book) {
+            emitted.set(book.id!, book);
+            updated.push(clone(book));
+          }
+        }
+        const removedIds = [...emitted.keys()].filter((id) => !store.books.has(id));
+        removedIds.forEach((id) => emitted.delete(id));
+        if (updated.length > 0 || removedIds.length > 0) {
+          listener(updated, removedIds, { local: true });
+        }
+      });
+    },
+  };
+
+  const notes: NoteRepository = {
+    async add(userId, bookId, note) {
+      const bookNotes = getBookNotes(userId, bookId);
+      const now = new Date();
+      const newNote: Note = {
+        ...withoutUndefined(note),
+        id: generateId(),
+        bookId: note.bookId,
+        content: note.content,
+        displayOrder: note.displayOrder ?? bookNotes.size,
+        createdAt: note.createdAt ?? now,
+        updatedAt: now,
+      };
+      bookNotes.set(newNote.id!, clone(newNote));
+      touchBookNotes(userId, bookId);
+      notifyWatchers();
+      return clone(newNote);
+    },
+
+    async get(userId, bookId, noteId) {
+      const note = getBookNotes(userId, bookId).get(noteId);
+      return note ? clone(note) : null;
+    },
+
+    async list(userId, bookId) {
+      return Array.from(getBookNotes(userId, bookId).values())
+        .sort((a, b) => (a.displayOrder ?? 9999) - (b.displayOrder ?? 9999) || a.createdAt.getTime() - b.createdAt.getTime())
+        .map(clone);
+    },
+
+    async update(userId, bookId, noteId, updates) {
+      const bookNotes = getBookNotes(userId, bookId);
+      const note = bookNotes.get(noteId);
+      if (!note) {
+        throw new Error(`Note not found: ${noteId}`);
+      }
+      const version = buildNoteVersion(note, updates);
+      if (version) {
+        getStore(userId).versions.push({ ...clone(version), id: generateId() });
+      }
+      const next: Note = { ...note, ...withoutUndefined(updates), id: noteId, updatedAt: new Date() };
+      // 空文字・空配列はフィールドの削除として扱う
+      if (updates.title !== undefined && !updates.title) delete next.title;
+      if (updates.pageReference !== undefined && !updates.pageReference) delete next.pageReference;
+      if (updates.tags !== undefined && updates.tags.length === 0) delete next.tags;
+      if (updates.images !== undefined && (!updates.images || updates.images.length === 0)) delete next.images;
+      bookNotes.set(noteId, clone(next));
+      touchBookNotes(userId, bookId);
+      notifyWatchers();
+    },
+
+    async updateOrder(userId, bookId, noteOrders) {
+      for (const { noteId, displayOrder } of noteOrders) {
+        await notes.update(userId, bookId, noteId, { displayOrder });
+      }
+    },
+
+    async delete(userId, bookId, noteId) {
+      getBookNotes(userId, bookId).delete(noteId);
+      touchBookNotes(userId, bookId);
+      notifyWatchers();
+    },
+
+    async deleteMany(userId, bookId, noteIds) {
+      const bookNotes = getBookNotes(userId, bookId);
+      for (const noteId of noteIds) {
+        bookNotes.delete(noteId);
+      }
+      touchBookNotes(userId, bookId);
+      notifyWatchers();
+    },
+
+    async listTrashed(userId) {
+      return Array.from(getStore(userId).notes.values())
+        .flatMap((bookNotes) => Array.from(bookNotes.values()))
+        .filter((note) => note.deletedAt)
+        .map(clone);
+    },
+
+    async listByTag(userId, tagName) {
+      return Array.from(getStore(userId).notes.values())
+        .flatMap((bookNotes) => Array.from(bookNotes.values()))
+        .filter((note) => note.tags?.includes(tagName))
+        .map(clone);
+    },
+
+    watch(userId, bookId, listener) {
+      let last: Note[] = [];
+      let first = true;
+      return addWatcher(() => {
+        const current = Array.from(getBookNotes(userId, bookId).values());
+        if (!first && current.length === last.length && current.every((note, i) => note === last[i])) return;
+        first = false;
+        last = current;
+        notes.list(userId, bookId).then((result) => listener(result, { local: true }));
+      });
+    },
+  };
+
+  const tags: TagRepository = {
+    async add(userId, tag) {
+      const newTag: Tag = {
+        id: generateId(),
+        name: tag.name,
+        color: tag.color || 'gray',
+        createdAt: new Date(),
+      };
+      getStore(userId).tags.set(newTag.id!, clone(newTag));
+      notifyWatchers();
+      return clone(newTag);
+    },
+
+    async list(userId) {
+      return Array.from(getStore(userId).tags.values())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(clone);
+    },
+
+    async update(userId, tagId, updates) {
+      const store = getStore(userId);
+      const tag = store.tags.get(tagId);
+      if (!tag) {
+        throw new Error(`Tag not found: ${tagId}`);
+      }
+      store.tags.set(tagId, clone({ ...tag, ...withoutUndefined(updates), id: tagId }));
+      notifyWatchers();
+    },
+
+    async delete(userId, tagId) {
+      getStore(userId).tags.delete(tagId);
+      notifyWatchers();
+    },
+
+    async findByName(userId, name) {
+      for (const tag of getStore(userId).tags.values()) {
+        if (tag.name === name) return clone(tag);
+      }
+      return null;
+    },
+
+    watch(userId, listener) {
+      let last: Tag[] = [];
+      let first = true;
+      return addWatcher(() => {
+        const current = Array.from(getStore(userId).tags.values());
+        if (!first && current.length === last.length && current.every((tag, i) => tag === last[i])) return;
+        first = false;
+        last = current;
+        tags.list(userId).then(listener);
+      });
+    },
+  };
+
+  const series: SeriesRepository = {
+    async add(userId, newSeries) {
+      const now = new Date();
+      const created: Series = { ...withoutUndefined(newSeries), name: newSeries.name, id: generateId(), createdAt: now, updatedAt: now };
+      getStore(userId).series.set(created.id!, clone(created));
+      return clone(created);
+    },
+
+    async get(userId, seriesId) {
+      const item = getStore(userId).series.get(seriesId);
+      return item ? clone(item) : null;
+    },
+
+    async list(userId) {
+      return Array.from(getStore(userId).series.values())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(clone);
+    },
+
+    async update(userId, seriesId, updates) {
+      const store = getStore(userId);
+      const item = store.series.get(seriesId);
+      if (!item) {
+        throw new Error(`Series not found: ${seriesId}`);
+      }
+      store.series.set(seriesId, clone({ ...item, ...withoutUndefined(updates), id: seriesId, updatedAt: new Date() }));
+    },
+
+    async delete(userId, seriesId) {
+      getStore(userId).series.delete(seriesId);
+    },
+
+    async findByName(userId, name) {
+      for (const item of getStore(userId).series.values()) {
+        if (item.name === name) return clone(item);
+      }
+      return null;
+    },
+  };
+
+  const locations: LocationRepository = {
+    async add(userId, location) {
+      const now = new Date();
+      const created: StorageLocation = { ...location, id: generateId(), createdAt: now, updatedAt: now };
+      getStore(userId).locations.set(created.id!, clone(created));
+      return clone(created);
+    },
+
+    async list(userId) {
+      return Array.from(getStore(userId).locations.values())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(clone);
+    },
+
+    async update(userId, locationId, updates) {
+      const store = getStore(userId);
+      const item = store.locations.get(locationId);
+      if (!item) {
+        throw new Error(`Location not found: ${locationId}`);
+      }
+      store.locations.set(locationId, clone({ ...item, ...withoutUndefined(updates), id: locationId, updatedAt: new Date() }));
+    },
+
+    async delete(userId, locationId) {
+      getStore(userId).locations.delete(locationId);
+    },
+  };
+
+  const sessions: ReadingSessionRepository = {
+    async add(userId, bookId, session) {
+      const newSession: ReadingSession = {
+        ...withoutUndefined(session),
+        id: generateId(),
+        bookId: session.bookId,
+        date: session.date,
+        startPage: session.startPage,
+        endPage: session.endPage,
+        createdAt: new Date(),
+      };
+      getBookSessions(userId, bookId).set(newSession.id!, clone(newSession));
+      return clone(newSession);
+    },
+
+    async list(userId, bookId) {
+      return Array.from(getBookSessions(userId, bookId).values())
+        .sort((a, b) => b.date.getTime() - a.date.getTime())
+        .map(clone);
+    },
+
+    async delete(userId, bookId, sessionId) {
+      getBookSessions(userId, bookId).delete(sessionId);
+    },
+  };
+
+  // 画像はオブジェクトURLとして保持する（ダウンロード用に元のデータも持つ）
+  const imageUrls = new Map<string, string>();
+  const imageFiles = new Map<string, Blob>();
+
+  const images: ImageRepository = {
+    async upload(userId, bookId, noteId, file, fileName) {
+      const imageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      const extension = fileName?.split('.').pop() || 'png';
+      const finalFileName = `${imageId}.${extension}`;
+      const url = typeof URL.createObjectURL === 'function' ? URL.createObjectURL(file) : '';
+      imageUrls.set(`${userId}/${bookId}/${noteId}/${finalFileName}`, url);
+      imageFiles.set(`${userId}/${bookId}/${noteId}/${finalFileName}`, file);
+
+      const image: NoteImage = {
+        id: imageId,
+        url,
+        fileName: finalFileName,
+        uploadedAt: new Date(),
+      };
+      return image;
+    },
+
+    async download(userId, bookId, noteId, fileName) {
+      const file = imageFiles.get(`${userId}/${bookId}/${noteId}/${fileName}`);
+      if (!file) {
+        throw new Error(`Image not found: ${fileName}`);
+      }
+      return file;
+    },
+
+    async delete(userId, bookId, noteId, fileName) {
+      const key = `${userId}/${bookId}/${noteId}/${fileName}`;
+      const url = imageUrls.get(key);
+      if (url && typeof URL.revokeObjectURL === 'function') {
+        URL.revokeObjectURL(url);
+      }
+      imageUrls.delete(key);
+      imageFiles.delete(key);
+    },
+  };
+
+  // 新しい順
+  const listChanges = (userId: string, match: (change: BookChange) => boolean): BookChange[] =>
+    getStore(userId)
+      .changes.filter(match)
+      .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime())
+      .map(clone);
+
+  const changes: BookChangeRepository = {
+    async listByBook(userId, bookId) {
+      return listChanges(userId, (change) => change.bookId === bookId);
+    },
+
+    async listByBatch(userId, batchId) {
+      return listChanges(userId, (change) => change.batchId === batchId);
+    },
+
+    async markReverted(userId, changeIds) {
+      const ids = new Set(changeIds);
+      const now = new Date();
+      for (const change of getStore(userId).changes) {
+        if (ids.has(change.id!)) change.revertedAt = now;
+      }
+    },
+
+    async deleteByBook(userId, bookId) {
+      const store = getStore(userId);
+      store.changes = store.changes.filter((change) => change.bookId !== bookId);
+    },
+  };
+
+  const versions: NoteVersionRepository = {
+    async list(userId, noteId) {
+      return getStore(userId)
+        .versions.filter((version) => version.noteId === noteId)
+        .sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime())
+        .map(clone);
+    },
+
+    async deleteMany(userId, versionIds) {
+      const ids = new Set(versionIds);
+      const store = getStore(userId);
+      store.versions = store.versions.filter((version) => !ids.has(version.id!));
+    },
+
+    async deleteByNote(userId, noteId) {
+      const store = getStore(userId);
+      store.versions = store.versions.filter((version) => version.noteId !== noteId);
+    },
+
+    async deleteByBook(userId, bookId) {
+      const store = getStore(userId);
+      store.versions = store.versions.filter((version) => version.bookId !== bookId);
+    },
+  };
+
+  const listLinks = (userId: string, match: (link: NoteLink) => boolean): NoteLink[] =>
+    getStore(userId).links.filter(match).map(clone);
+
+  const links: NoteLinkRepository = {
+    async listFromBook(userId, bookId) {
+      return listLinks(userId, (link) => link.fromBookId === bookId);
+    },
+
+    async listFromNote(userId, noteId) {
+      return listLinks(userId, (link) => link.fromNoteId === noteId);
+    },
+
+    async listToBook(userId, bookId) {
+      return listLinks(userId, (link) => link.toBookId === bookId);
+    },
+
+    async replaceFromNote(userId, noteId, newLinks) {
+      const store = getStore(userId);
+      store.links = [
+        ...store.links.filter((link) => link.fromNoteId !== noteId),
+        ...newLinks.map((link) => ({ ...withoutUndefined(clone(link)), id: generateId() }) as NoteLink),
+      ];
+    },
+
+    async deleteFromNote(userId, noteId) {
+      const store = getStore(userId);
+      store.links = store.links.filter((link) => link.fromNoteId !== noteId);
+    },
+
+    async deleteFromBook(userId, bookId) {
+      const store = getStore(userId);
+      store.links = store.links.filter((link) => link.fromBookId !== bookId);
+    },
+  };
+
+  const schema: SchemaRepository = {
+    async getVersion(userId) {
+      return getStore(userId).schemaVersion;
+    },
+
+    async setVersion(userId, version) {
+      getStore(userId).schemaVersion = version;
+    },
+  };
+
+  return { books, notes, tags, series, locations, sessions, images, changes, versions, links, schema };
+}
@@ -0,0 +1,123 @@
+import { getRepository, LibraryRepository } from './repository';
+import { getBookIsbnKey } from './isbn';
+import { Book, Note } from '@/types/book';
+
+// データ構造の移行
+// ユーザーごとにバージョンを記録し、ログイン時にまだ適用していない移行を古い順に実行する
+// 途中で失敗してもやり直せるよう、どの移行も「必要なデータだけを直す」ように書く（何度実行しても同じ結果になる）
+
+export interface Migration {
+  version: number;
+  description: string;
+  // report(done, total) で進捗を知らせる
+  run(userId: string, repository: LibraryRepository, report: (done: number, total: number) => void): Promise<void>;
+}
+
+export interface MigrationProgress {
+  step: number; // 何番目の移行か（1始まり）
+  steps: number; // 実行する移行の数
+  description: string;
+  done: number;
+  total: number;
+}
+
+// 新しい移行は末尾に追加する（version は 1 ずつ増やし、既存の移行は書き換えない）
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: '書籍形式が未設定の書籍を紙の書籍にする',
+    async run(userId, repository, report) {
+      const books = await repository.books.list(userId);
+      const bookIds = books.filter((book) => !book.format).map((book) => book.id!);
+      report(0, bookIds.length);
+      if (bookIds.length > 0) {
+        await repository.books.bulkUpdate(userId, bookIds, { format: 'paper' }, { source: 'migration' });
+      }
+      report(bookIds.length, bookIds.length);
+    },
+  },
+  {
+    version: 2,
+    description: 'メモの表示順を設定する',
+    async run(userId, repository, report) {
+      const books = await repository.books.list(userId);
+      report(0, books.length);
+      for (const [index, book] of books.entries()) {
+        const notes = await repository.notes.list(userId, book.id!);
+        const noteOrders = planNoteOrders(notes);
+        if (noteOrders.length > 0) {
+          await repository.notes.updateOrder(userId, book.id!, noteOrders);
+        }
+        report(index + 1, books.length);
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'ISBN の検索用キーを設定する',
+    async run(userId, repository, report) {
+      const books = await repository.books.list(userId);
+      const changes = books
+        .filter((book) => book.isbnKey === undefined)
+        .map((book) => ({ bookId: book.id!, updates: { isbnKey: getBookIsbnKey(book) } }));
+      report(0, changes.length);
+      if (changes.length > 0) {
+        await repository.books.updateMany(userId, changes, { source: 'migration' });
+      }
+      report(changes.length, changes.length);
+    },
+  },
+  {
+    version: 4,
+    description: '書籍にメモ数を記録する',
+    async run(userId, repository, report) {
+      const books = (await repository.books.list(userId)).filter((book) => book.noteCount === undefined);
+      report(0, books.length);
+      const changes: { bookId: string; updates: Partial<Book> }[] = [];
+      for (const [index, book] of books.entries()) {
+        const notes = await repository.notes.list(userId, book.id!);
+        changes.push({ bookId: book.id!, updates: { noteCount: notes.filter((note) => !note.deletedAt).length } });
+        report(index + 1, books.length);
+      }
+      if (changes.length > 0) {
+        await repository.books.updateMany(userId, changes, { source: 'migration' });
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// 表示順のないメモを、表示順のあるメモの後ろに作成日順で並べる
+export function planNoteOrders(notes: Note[]): { noteId: string; displayOrder: number }[] {
+  const missing = notes
+    .filter((note) => note.displayOrder === undefined)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  if (missing.length === 0) return [];
+  const maxOrder = Math.max(-1, ...notes.map((note) => note.displayOrder ?? -1));
+  return missing.map((note, index) => ({ noteId: note.id!, displayOrder: maxOrder + 1 + index }));
+}
+
+export function getPendingMigrations(version: number): Migration[] {
+  return MIGRATIONS.filter((migration) => migration.version > version);
+}
+
+// まだ適用していない移行を実行し、実行した数を返す
+// 1つ終わるたびにバージョンを記録するので、途中で失敗しても次回は続きから再開する
+export async function runMigrations(
+  userId: string,
+  onProgress?: (progress: MigrationProgress) => void,
+  repository: LibraryRepository = getRepository()
+): Promise<number> {
+  const pending = getPendingMigrations(await repository.schema.getVersion(userId));
+
+  for (const [index, migration] of pending.entries()) {
+    const report = (done: number, total: number) =>
+      onProgress?.({ step: index + 1, steps: pending.length, description: migration.description, done, total });
+    report(0, 0);
+    await migration.run(userId, repository, report);
+    await repository.schema.setVersion(userId, migration.version);
+  }
+
+  return pending.length;
+}
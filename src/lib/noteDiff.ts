@@ -0,0 +1,74 @@
+import { NewNoteVersion } from './repository';
+import { Note } from '@/types/book';
+
+// メモの版の作成と比較（保存はリポジトリがメモの更新と一緒に行う）
+
+// 版として残すフィールド
+const VERSIONED_FIELDS = ['title', 'content', 'pageReference'] as const;
+
+// 更新でタイトル・内容・ページ参照のどれかが変わるなら、更新前のメモを版として返す
+// undefined は「変更なし」、空文字はフィールドの削除として扱う
+export function buildNoteVersion(before: Note, updates: Partial<Note>): NewNoteVersion | null {
+  const changed = VERSIONED_FIELDS.some(
+    (field) => updates[field] !== undefined && (updates[field] || '') !== (before[field] || '')
+  );
+  if (!changed) return null;
+  return {
+    noteId: before.id!,
+    bookId: before.bookId,
+    ...(before.title ? { title: before.title } : {}),
+    content: before.content,
+    ...(before.pageReference ? { pageReference: before.pageReference } : {}),
+    savedAt: before.updatedAt,
+  };
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// 行単位の差分（最長共通部分列）
+// 前後の一致する行は先に除いて、表にする範囲を小さくする
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  // lengths[i][j] = midA[i..] と midB[j..] の共通部分列の長さ
+  const lengths = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      result.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: midA[i++] });
+    } else {
+      result.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  for (; i < midA.length; i++) result.push({ type: 'removed', text: midA[i] });
+  for (; j < midB.length; j++) result.push({ type: 'added', text: midB[j] });
+  for (const text of a.slice(endA)) result.push({ type: 'same', text });
+  return result;
+}
@@ -0,0 +1,30 @@
+import { Note, NoteKind } from '@/types/book';
+
+export const NOTE_KIND_LABELS: Record<NoteKind, string> = {
+  quote: '引用',
+  thought: '考え',
+  summary: '要約',
+  question: '問い',
+};
+
+export const NOTE_KINDS: NoteKind[] = ['quote', 'thought', 'summary', 'question'];
+
+// 種類ごとのバッジの色
+export const NOTE_KIND_STYLES: Record<NoteKind, string> = {
+  quote: 'bg-amber-50 text-amber-800 border-amber-200',
+  thought: 'bg-blue-50 text-blue-700 border-blue-200',
+  summary: 'bg-green-50 text-green-700 border-green-200',
+  question: 'bg-purple-50 text-purple-700 border-purple-200',
+};
+
+// 種類を選ぶ前に作ったメモは、読者自身の考えとして扱う
+export const DEFAULT_NOTE_KIND: NoteKind = 'thought';
+
+export function getNoteKind(note: Pick<Note, 'kind'>): NoteKind {
+  return note.kind ?? DEFAULT_NOTE_KIND;
+}
+
+// 引用は本の著者の文章、それ以外は読者の文章
+export function isAuthorText(kind: NoteKind): boolean {
+  return kind === 'quote';
+}
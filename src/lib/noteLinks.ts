@@ -0,0 +1,300 @@
+import { getRepository, NewNoteLink } from './repository';
+import { Book, Note, NoteLink } from '@/types/book';
+
+// メモ本文の [[書籍名]] / [[書籍名#メモのタイトル]] リンク
+// 保存時にリンク先を ID に解決して記録し（noteLinks）、表示と被リンク（バックリンク）の一覧に使う
+
+const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g;
+
+// コードブロック（``` / ~~~）とインラインコード（`...`）の中の [[ ]] はリンクとして扱わない
+const CODE_PATTERN = /(^ {0,3}(?:```|~~~)[^\n]*\n[\s\S]*?(?:^ {0,3}(?:```|~~~)[^\n]*$|(?![\s\S]))|(`+)[\s\S]*?[^`]\2(?!`))/gm;
+
+// コードの外側の部分だけを置き換える
+const replaceOutsideCode = (content: string, replace: (text: string) => string): string => {
+  let result = '';
+  let last = 0;
+  for (const match of content.matchAll(CODE_PATTERN)) {
+    result += replace(content.slice(last, match.index)) + match[0];
+    last = match.index + match[0].length;
+  }
+  return result + replace(content.slice(last));
+};
+
+// リンク切れの目印（MarkdownViewer がこの href を見てリンク切れとして表示する）
+export const MISSING_LINK_HREF = '#wiki-link-missing';
+
+export const noteAnchor = (noteId: string) => `note-${noteId}`;
+
+const linkHref = (bookId: string, noteId?: string) =>
+  noteId ? `/books/${bookId}#${noteAnchor(noteId)}` : `/books/${bookId}`;
+
+// 表示用に解決したリンク
+export interface ResolvedWikiLink {
+  href: string;
+  label: string;
+}
+
+// [[ ]] の中の文字列 → 解決したリンク（解決できないリンクは null）
+export type WikiLinkMap = Map<string, ResolvedWikiLink | null>;
+
+// この書籍（またはそのメモ）にリンクしている他の書籍のメモ
+export interface Backlink {
+  book: Book;
+  note: Note;
+  // リンクしている先のメモ（書籍へのリンクなら undefined）
+  targetNotes: (Note | undefined)[];
+}
+
+export interface WikiLinkSuggestion {
+  target: string;
+  label: string;
+  description?: string;
+}
+
+// 本文中のリンク（重複なし、出てきた順）
+export function parseWikiLinks(content: string): string[] {
+  const targets: string[] = [];
+  replaceOutsideCode(content, (text) => {
+    targets.push(...[...text.matchAll(WIKI_LINK_PATTERN)].map((match) => match[1].trim()));
+    return text;
+  });
+  return [...new Set(targets.filter(Boolean))];
+}
+
+// 表示用に本文のリンクを Markdown のリンクに置き換える
+// 解決できないリンクはリンク切れの目印を付け、MarkdownViewer でリンク切れとして表示する
+export function replaceWikiLinks(content: string, links: WikiLinkMap): string {
+  const escape = (text: string) => text.replace(/([[\]\\])/g, '\\$1');
+  return replaceOutsideCode(content, (text) =>
+    text.replace(WIKI_LINK_PATTERN, (whole, rawTarget: string) => {
+      const target = rawTarget.trim();
+      const resolved = links.get(target);
+      return resolved
+        ? `[${escape(resolved.label)}](${resolved.href})`
+        : `[${escape(target)}](${MISSING_LINK_HREF})`;
+    })
+  );
+}
+
+// 名前の比較用（前後の空白・全角半角・大文字小文字の違いを無視する）
+const normalizeTitle = (title: string) => title.normalize('NFKC').trim().toLowerCase();
+
+// 書籍名に # を含む場合があるので、まず全体を書籍名として探し、なければ # の位置で書籍名とメモのタイトルに分ける
+async function resolveByTitle(
+  target: string,
+  books: Book[],
+  listNotes: (bookId: string) => Promise<Note[]>
+): Promise<Omit<NewNoteLink, 'fromBookId' | 'fromNoteId'> | null> {
+  const findBook = (title: string) => books.find((book) => normalizeTitle(book.title) === normalizeTitle(title));
+
+  const whole = findBook(target);
+  if (whole) return { target, toBookId: whole.id! };
+
+  for (let index = target.indexOf('#'); index !== -1; index = target.indexOf('#', index + 1)) {
+    const book = findBook(target.slice(0, index));
+    if (!book) continue;
+    const noteTitle = normalizeTitle(target.slice(index + 1));
+    const note = (await listNotes(book.id!)).find((n) => !n.deletedAt && normalizeTitle(n.title || '') === noteTitle);
+    return note ? { target, toBookId: book.id!, toNoteId: note.id! } : { target, toBookId: book.id! };
+  }
+  return null;
+}
+
+// 必要になったときだけ書籍・メモを読み込む
+function createTitleIndex(userId: string) {
+  const repository = getRepository();
+  let books: Promise<Book[]> | null = null;
+  const notes = new Map<string, Promise<Note[]>>();
+  return {
+    books: () => (books ??= repository.books.list(userId).then((list) => list.filter((book) => !book.deletedAt))),
+    notes: (bookId: string) => {
+      let list = notes.get(bookId);
+      if (!list) {
+        list = repository.notes.list(userId, bookId);
+        notes.set(bookId, list);
+      }
+      return list;
+    },
+  };
+}
+
+// メモの保存後にリンクを記録し直す
+// 前回解決したリンクはリンク先が残っていればそのまま使う（書籍やメモの名前が変わってもリンクが切れない）
+export async function syncNoteLinks(userId: string, note: Note): Promise<void> {
+  const repository = getRepository();
+  const targets = note.deletedAt ? [] : parseWikiLinks(note.content);
+  const previous = await repository.links.listFromNote(userId, note.id!);
+  if (targets.length === 0 && previous.length === 0) return;
+
+  const previousByTarget = new Map(previous.map((link) => [link.target, link]));
+  const index = createTitleIndex(userId);
+  const links: NewNoteLink[] = [];
+
+  for (const target of targets) {
+    const kept = previousByTarget.get(target);
+    if (kept && (await linkTargetExists(userId, kept))) {
+      links.push({
+        fromBookId: note.bookId,
+        fromNoteId: note.id!,
+        target,
+        toBookId: kept.toBookId,
+        toNoteId: kept.toNoteId,
+      });
+      continue;
+    }
+    const resolved = await resolveByTitle(target, await index.books(), index.notes);
+    if (resolved) links.push({ ...resolved, fromBookId: note.bookId, fromNoteId: note.id! });
+  }
+
+  await repository.links.replaceFromNote(userId, note.id!, links);
+}
+
+// 書籍の統合でメモを移したあと、リンクを残す書籍・移した先のメモに付け替える
+// mergedBookIds: 統合して削除する書籍、movedNoteIds: 移したメモの元の ID → 移した先の ID
+export async function repointNoteLinks(
+  userId: string,
+  survivorId: string,
+  mergedBookIds: string[],
+  movedNoteIds: Map<string, string>
+): Promise<void> {
+  const repository = getRepository();
+  const merged = new Set(mergedBookIds);
+
+  // 統合する書籍のメモから出ているリンクと、統合する書籍（そのメモ）へのリンクを持つメモ
+  const sourceNoteIds = new Set<string>();
+  for (const bookId of mergedBookIds) {
+    const [from, to] = await Promise.all([
+      repository.links.listFromBook(userId, bookId),
+      repository.links.listToBook(userId, bookId),
+    ]);
+    [...from, ...to].forEach((link) => sourceNoteIds.add(link.fromNoteId));
+  }
+
+  for (const noteId of sourceNoteIds) {
+    const fromNoteId = movedNoteIds.get(noteId) ?? noteId;
+    const links = (await repository.links.listFromNote(userId, noteId)).map((link): NewNoteLink => {
+      const toNoteId = link.toNoteId && (movedNoteIds.get(link.toNoteId) ?? link.toNoteId);
+      return {
+        fromBookId: movedNoteIds.has(noteId) ? survivorId : link.fromBookId,
+        fromNoteId,
+        target: link.target,
+        toBookId: merged.has(link.toBookId) ? survivorId : link.toBookId,
+        ...(toNoteId && { toNoteId }),
+      };
+    });
+    await repository.links.replaceFromNote(userId, fromNoteId, links);
+    if (fromNoteId !== noteId) await repository.links.deleteFromNote(userId, noteId);
+  }
+
+  // 移したメモのリンクを記録し直す（付け替えたリンクはそのまま使い、記録のないリンクは名前で探す）
+  for (const noteId of movedNoteIds.values()) {
+    const note = await repository.notes.get(userId, survivorId, noteId);
+    if (note) await syncNoteLinks(userId, note);
+  }
+}
+
+async function linkTargetExists(userId: string, link: NoteLink): Promise<boolean> {
+  const repository = getRepository();
+  const book = await repository.books.get(userId, link.toBookId);
+  if (!book || book.deletedAt) return false;
+  if (!link.toNoteId) return true;
+  const note = await repository.notes.get(userId, link.toBookId, link.toNoteId);
+  return !!note && !note.deletedAt;
+}
+
+// 書籍のメモのリンクを表示用に解決する（リンク先の今の名前で表示する）
+// 記録のないリンク（オフラインで保存したメモなど）やリンク先がなくなったリンクは、名前で探し直す
+export async function resolveWikiLinks(userId: string, bookId: string, notes: Note[]): Promise<Map<string, WikiLinkMap>> {
+  const repository = getRepository();
+  const result = new Map<string, WikiLinkMap>();
+  const noteTargets = notes.map((note) => ({ note, targets: parseWikiLinks(note.content) }));
+  if (noteTargets.every(({ targets }) => targets.length === 0)) return result;
+
+  const stored = await repository.links.listFromBook(userId, bookId);
+  const index = createTitleIndex(userId);
+  const bookCache = new Map<string, Promise<Book | null>>();
+  const getBook = (id: string) => {
+    let book = bookCache.get(id);
+    if (!book) {
+      book = repository.books.get(userId, id);
+      bookCache.set(id, book);
+    }
+    return book;
+  };
+
+  const resolveLink = async (link: Pick<NoteLink, 'toBookId' | 'toNoteId'>): Promise<ResolvedWikiLink | null> => {
+    const book = await getBook(link.toBookId);
+    if (!book || book.deletedAt) return null;
+    if (!link.toNoteId) return { href: linkHref(book.id!), label: book.title };
+    const note = (await index.notes(book.id!)).find((n) => n.id === link.toNoteId);
+    if (!note || note.deletedAt) return null;
+    return { href: linkHref(book.id!, note.id!), label: `${book.title}#${note.title || '無題のメモ'}` };
+  };
+
+  for (const { note, targets } of noteTargets) {
+    const links: WikiLinkMap = new Map();
+    for (const target of targets) {
+      const link = stored.find((l) => l.fromNoteId === note.id && l.target === target);
+      let resolved = link ? await resolveLink(link) : null;
+      if (!resolved) {
+        const found = await resolveByTitle(target, await index.books(), index.notes);
+        resolved = found ? await resolveLink(found) : null;
+      }
+      links.set(target, resolved);
+    }
+    result.set(note.id!, links);
+  }
+  return result;
+}
+
+// この書籍（またはそのメモ）にリンクしている、他の書籍のメモ
+export async function getBacklinks(userId: string, bookId: string): Promise<Backlink[]> {
+  const repository = getRepository();
+  const links = (await repository.links.listToBook(userId, bookId)).filter((link) => link.fromBookId !== bookId);
+  if (links.length === 0) return [];
+
+  const targetNotes = await repository.notes.list(userId, bookId);
+  const backlinks: Backlink[] = [];
+  for (const fromNoteId of new Set(links.map((link) => link.fromNoteId))) {
+    const noteLinks = links.filter((link) => link.fromNoteId === fromNoteId);
+    const fromBookId = noteLinks[0].fromBookId;
+    const [book, note] = await Promise.all([
+      repository.books.get(userId, fromBookId),
+      repository.notes.get(userId, fromBookId, fromNoteId),
+    ]);
+    if (!book || book.deletedAt || !note || note.deletedAt) continue;
+    backlinks.push({
+      book,
+      note,
+      targetNotes: noteLinks.map((link) => targetNotes.find((n) => n.id === link.toNoteId)),
+    });
+  }
+  return backlinks.sort((a, b) => b.note.updatedAt.getTime() - a.note.updatedAt.getTime());
+}
+
+// 入力中のリンクの候補（「書籍名#」まで入力したらその書籍のメモを候補にする）
+// 書籍・メモは最初に必要になったときに読み込み、同じ入力欄の中では使い回す
+export function createWikiLinkSuggester(userId: string): (query: string) => Promise<WikiLinkSuggestion[]> {
+  const index = createTitleIndex(userId);
+  const MAX_SUGGESTIONS = 8;
+
+  return async (query) => {
+    const books = await index.books();
+    const hashIndex = query.lastIndexOf('#');
+    if (hashIndex !== -1) {
+      const book = books.find((b) => normalizeTitle(b.title) === normalizeTitle(query.slice(0, hashIndex)));
+      if (book) {
+        const noteQuery = normalizeTitle(query.slice(hashIndex + 1));
+        return (await index.notes(book.id!))
+          .filter((note) => !note.deletedAt && note.title && normalizeTitle(note.title).includes(noteQuery))
+          .slice(0, MAX_SUGGESTIONS)
+          .map((note) => ({ target: `${book.title}#${note.title}`, label: note.title!, description: book.title }));
+      }
+    }
+    const bookQuery = normalizeTitle(query);
+    return books
+      .filter((book) => normalizeTitle(book.title).includes(bookQuery))
+      .slice(0, MAX_SUGGESTIONS)
+      .map((book) => ({ target: book.title, label: book.title, description: book.author }));
+  };
+}
@@ -0,0 +1,38 @@
+import { getRepository } from './repository';
+import { NoteVersion } from '@/types/book';
+
+// メモの以前の版（保存のたびにリポジトリが更新前の状態を残す）
+
+// 版の保持方針
+// 新しい版は KEEP_RECENT 件まで日数に関係なく残し、それより古い版は MAX_AGE_DAYS 日を過ぎたら削除する
+// どの場合も MAX_VERSIONS 件を超えた古い版は削除する
+export const VERSION_RETENTION = {
+  KEEP_RECENT: 10,
+  MAX_AGE_DAYS: 90,
+  MAX_VERSIONS: 50,
+};
+
+// メモの以前の版（新しい順）
+export async function getNoteVersions(userId: string, noteId: string): Promise<NoteVersion[]> {
+  return getRepository().versions.list(userId, noteId);
+}
+
+// 保持方針から外れる版を選ぶ（versions は新しい順）
+export function planVersionPrune(versions: NoteVersion[], now: Date = new Date()): NoteVersion[] {
+  const cutoff = now.getTime() - VERSION_RETENTION.MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  return versions.filter(
+    (version, index) =>
+      index >= VERSION_RETENTION.MAX_VERSIONS ||
+      (index >= VERSION_RETENTION.KEEP_RECENT && version.savedAt.getTime() < cutoff)
+  );
+}
+
+// 保持方針から外れる版を削除し、削除した数を返す
+export async function pruneNoteVersions(userId: string, noteId: string): Promise<number> {
+  const repository = getRepository();
+  const expired = planVersionPrune(await repository.versions.list(userId, noteId));
+  if (expired.length > 0) {
+    await repository.versions.deleteMany(userId, expired.map((version) => version.id!));
+  }
+  return expired.length;
+}
@@ -1,105 +1,92 @@
+import { getRepository, SnapshotMeta, Unsubscribe } from './repository';
 import {
-  collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  doc,
-  getDocs,
-  getDoc,
-  query,
-  orderBy,
-  serverTimestamp,
-  Timestamp,
-  writeBatch,
-} from 'firebase/firestore';
-import { db } from './firebase';
-import { Note } from '@/types/book';
-
-// メモを追加
+  applyPendingNoteWrites,
+  applyPendingNoteWritesTo,
+  createOfflineNoteId,
+  enqueueWrite,
+  getPendingBaseUpdatedAt,
+  isOfflineNoteId,
+  loadPendingWrites,
+  shouldQueueWrites,
+  watchSyncState,
+} from './offlineQueue';
+import { pruneNoteVersions } from './noteVersions';
+import { syncNoteLinks } from './noteLinks';
+import { Book, Note, NoteVersion } from '@/types/book';
+
+// メモを追加（オフライン中は待ち行列に入れ、仮 ID のメモを返す）
 export async function addNote(
   userId: string,
   bookId: string,
   note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<Note> {
-  const notesRef = collection(db, 'users', userId, 'books', bookId, 'notes');
-  
-  // displayOrderを取得（既存のメモの数）
-  const existingNotes = await getDocs(notesRef);
-  const displayOrder = existingNotes.size;
-
-  const docData: Record<string, unknown> = {
-    bookId: note.bookId,
-    content: note.content,
-    displayOrder,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
-  };
-
-  // undefined の値は保存しない
-  if (note.title) docData.title = note.title;
-  if (note.pageReference) docData.pageReference = note.pageReference;
-  if (note.images && note.images.length > 0) {
-    docData.images = note.images.map(img => ({
-      id: img.id,
-      url: img.url,
-      fileName: img.fileName,
-      uploadedAt: img.uploadedAt,
-    }));
+  if (shouldQueueWrites()) {
+    const noteId = createOfflineNoteId();
+    const { queuedAt } = await enqueueWrite({ type: 'note-add', userId, bookId, noteId, note });
+    return { ...note, id: noteId, createdAt: queuedAt, updatedAt: queuedAt };
   }
+  const created = await getRepository().notes.add(userId, bookId, note);
+  await syncLinks(userId, created);
+  return created;
+}
 
-  const docRef = await addDoc(notesRef, docData);
-
-  return {
-    id: docRef.id,
-    bookId: note.bookId,
-    title: note.title,
-    content: note.content,
-    pageReference: note.pageReference,
-    images: note.images,
-    displayOrder,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+// 本文のリンクを記録し直す（失敗してもメモの保存は成功とする。表示時は名前で探し直す）
+async function syncLinks(userId: string, note: Note | null): Promise<void> {
+  if (!note) return;
+  await syncNoteLinks(userId, note).catch((error) => {
+    console.error('Error syncing note links:', error);
+  });
 }
 
-// メモを更新
+// メモを更新（オフライン中や、まだ同期していないメモは待ち行列に入れる）
 export async function updateNote(
   userId: string,
   bookId: string,
   noteId: string,
   updates: Partial<Note>
 ): Promise<void> {
-  const noteRef = doc(db, 'users', userId, 'books', bookId, 'notes', noteId);
-  
-  const updateData: Record<string, unknown> = {
-    updatedAt: serverTimestamp(),
-  };
-
-  // 各フィールドを個別に設定
-  if (updates.title !== undefined) {
-    updateData.title = updates.title || null;
+  if (shouldQueueWrites() || isOfflineNoteId(noteId)) {
+    await enqueueWrite({
+      type: 'note-update',
+      userId,
+      bookId,
+      noteId,
+      updates,
+      baseUpdatedAt: await getBaseUpdatedAt(userId, bookId, noteId),
+    });
+    return;
   }
+  await getRepository().notes.update(userId, bookId, noteId, updates);
+  // 更新で増えた版を保持方針に沿って整理する（失敗しても保存は成功とする）
+  await pruneNoteVersions(userId, noteId).catch((error) => {
+    console.error('Error pruning note versions:', error);
+  });
   if (updates.content !== undefined) {
-    updateData.content = updates.content;
-  }
-  if (updates.pageReference !== undefined) {
-    updateData.pageReference = updates.pageReference || null;
-  }
-  if (updates.images !== undefined) {
-    updateData.images = updates.images && updates.images.length > 0 
-      ? updates.images.map(img => ({
-          id: img.id,
-          url: img.url,
-          fileName: img.fileName,
-          uploadedAt: img.uploadedAt instanceof Date ? img.uploadedAt : new Date(img.uploadedAt),
-        }))
-      : null;
-  }
-  if (updates.displayOrder !== undefined) {
-    updateData.displayOrder = updates.displayOrder;
+    await syncLinks(userId, await getRepository().notes.get(userId, bookId, noteId));
   }
+}
 
-  await updateDoc(noteRef, updateData);
+// メモを以前の版に戻す（戻す前の状態も版として残るので、戻したこと自体も取り消せる）
+export async function restoreNoteVersion(userId: string, version: NoteVersion): Promise<void> {
+  await updateNote(userId, version.bookId, version.noteId, {
+    title: version.title ?? '',
+    content: version.content,
+    pageReference: version.pageReference ?? '',
+  });
+}
+
+// 同期時の競合判定に使う、編集を始めた時点の更新日時
+async function getBaseUpdatedAt(userId: string, bookId: string, noteId: string): Promise<Date | null> {
+  const pending = getPendingBaseUpdatedAt(noteId);
+  if (pending !== undefined) return pending;
+  if (isOfflineNoteId(noteId)) return null;
+  try {
+    const note = await getRepository().notes.get(userId, bookId, noteId);
+    return note?.updatedAt ?? null;
+  } catch {
+    // オフラインでキャッシュにもない場合は競合を判定しない
+    return null;
+  }
 }
 
 // メモを削除
@@ -108,79 +95,58 @@ export async function deleteNote(
   bookId: string,
   noteId: string
 ): Promise<void> {
-  const noteRef = doc(db, 'users', userId, 'books', bookId, 'notes', noteId);
-  await deleteDoc(noteRef);
+  await getRepository().notes.delete(userId, bookId, noteId);
+  await getRepository().versions.deleteByNote(userId, noteId).catch((error) => {
+    console.error('Error deleting note versions:', error);
+  });
+  await getRepository().links.deleteFromNote(userId, noteId).catch((error) => {
+    console.error('Error deleting note links:', error);
+  });
 }
 
-// 特定の書籍のメモを全取得
+// 特定の書籍のメモを全取得（ゴミ箱のメモは除く、同期前の変更を含む）
 export async function getNotes(userId: string, bookId: string): Promise<Note[]> {
-  const notesRef = collection(db, 'users', userId, 'books', bookId, 'notes');
-  
-  // displayOrderがないドキュメントがあるとorderByでエラーになるため、
-  // orderByなしで取得してクライアント側でソート
-  const snapshot = await getDocs(notesRef);
-
-  const notes = snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      bookId: data.bookId,
-      title: data.title || undefined,
-      content: data.content,
-      pageReference: data.pageReference || undefined,
-      images: data.images ? data.images.map((img: Record<string, unknown>) => ({
-        id: img.id as string,
-        url: img.url as string,
-        fileName: img.fileName as string,
-        uploadedAt: img.uploadedAt instanceof Timestamp 
-          ? img.uploadedAt.toDate() 
-          : new Date(img.uploadedAt as string),
-      })) : undefined,
-      displayOrder: data.displayOrder ?? 9999, // displayOrderがない場合は末尾に
-      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
-    } as Note;
-  });
+  const [notes] = await Promise.all([getRepository().notes.list(userId, bookId), loadPendingWrites()]);
+  return applyPendingNoteWrites(bookId, notes).filter((note) => !note.deletedAt);
+}
 
-  // displayOrder でソート、同じ場合は createdAt でソート
-  return notes.sort((a, b) => {
-    if (a.displayOrder !== b.displayOrder) {
-      return (a.displayOrder ?? 9999) - (b.displayOrder ?? 9999);
-    }
-    return a.createdAt.getTime() - b.createdAt.getTime();
-  });
+// 特定の書籍のメモを購読（ゴミ箱のメモは除く、同期前の変更を含む）
+export function watchNotes(
+  userId: string,
+  bookId: string,
+  listener: (notes: Note[], meta: SnapshotMeta) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  let latest: { notes: Note[]; meta: SnapshotMeta } | null = null;
+  const emit = () => {
+    if (!latest) return;
+    listener(applyPendingNoteWrites(bookId, latest.notes).filter((note) => !note.deletedAt), latest.meta);
+  };
+  const unsubscribeNotes = getRepository().notes.watch(
+    userId,
+    bookId,
+    (notes, meta) => {
+      latest = { notes, meta };
+      emit();
+    },
+    onError
+  );
+  // 待ち行列が変わったら（オフラインでの保存・同期の完了）表示し直す
+  const unsubscribeQueue = watchSyncState(emit);
+  return () => {
+    unsubscribeNotes();
+    unsubscribeQueue();
+  };
 }
 
-// 特定のメモを取得
+// 特定のメモを取得（同期前の変更を含む）
 export async function getNote(
   userId: string,
   bookId: string,
   noteId: string
 ): Promise<Note | null> {
-  const noteRef = doc(db, 'users', userId, 'books', bookId, 'notes', noteId);
-  const snapshot = await getDoc(noteRef);
-
-  if (!snapshot.exists()) return null;
-
-  const data = snapshot.data();
-  return {
-    id: snapshot.id,
-    bookId: data.bookId,
-    title: data.title || undefined,
-    content: data.content,
-    pageReference: data.pageReference || undefined,
-    images: data.images ? data.images.map((img: Record<string, unknown>) => ({
-      id: img.id as string,
-      url: img.url as string,
-      fileName: img.fileName as string,
-      uploadedAt: img.uploadedAt instanceof Timestamp 
-        ? img.uploadedAt.toDate() 
-        : new Date(img.uploadedAt as string),
-    })) : undefined,
-    displayOrder: data.displayOrder ?? 0,
-    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
-  } as Note;
+  const note = isOfflineNoteId(noteId) ? null : await getRepository().notes.get(userId, bookId, noteId);
+  return applyPendingNoteWritesTo(bookId, noteId, note);
 }
 
 // メモの順序を一括更新
@@ -189,41 +155,21 @@ export async function updateNotesOrder(
   bookId: string,
   noteOrders: { noteId: string; displayOrder: number }[]
 ): Promise<void> {
-  const batch = writeBatch(db);
-
-  for (const { noteId, displayOrder } of noteOrders) {
-    const noteRef = doc(db, 'users', userId, 'books', bookId, 'notes', noteId);
-    batch.update(noteRef, { displayOrder, updatedAt: serverTimestamp() });
-  }
-
-  await batch.commit();
+  await getRepository().notes.updateOrder(userId, bookId, noteOrders);
 }
 
-// 複数の書籍のメモ数を一括取得
-export async function getAllNoteCounts(
-  userId: string,
-  bookIds: string[]
-): Promise<Map<string, number>> {
-  const counts = new Map<string, number>();
-  
-  // 初期値を0に設定
-  for (const bookId of bookIds) {
-    counts.set(bookId, 0);
-  }
-
-  // バッチで取得（Firestoreの制限により10件ずつ）
-  const batchSize = 10;
-  for (let i = 0; i < bookIds.length; i += batchSize) {
-    const batchIds = bookIds.slice(i, i + batchSize);
-    
-    await Promise.all(
-      batchIds.map(async (bookId) => {
-        const notesRef = collection(db, 'users', userId, 'books', bookId, 'notes');
-        const snapshot = await getDocs(notesRef);
-        counts.set(bookId, snapshot.size);
-      })
-    );
-  }
+// 複数の書籍のメモ数（書籍に保存したメモ数を使うので、メモを問い合わせない）
+export function getAllNoteCounts(books: Book[]): Map<string, number> {
+  return new Map(books.map((book) => [book.id!, book.noteCount ?? 0]));
+}
 
-  return counts;
+// タグの付いたメモ（書籍をまたいで、更新の新しい順。ゴミ箱の書籍・メモは除く）
+export async function getNotesByTag(userId: string, tagName: string): Promise<{ book: Book; note: Note }[]> {
+  const repository = getRepository();
+  const [books, notes] = await Promise.all([repository.books.list(userId), repository.notes.listByTag(userId, tagName)]);
+  const activeBooks = new Map(books.filter((book) => !book.deletedAt).map((book) => [book.id!, book]));
+  return notes
+    .filter((note) => !note.deletedAt && activeBooks.has(note.bookId))
+    .map((note) => ({ book: activeBooks.get(note.bookId)!, note }))
+    .sort((a, b) => b.note.updatedAt.getTime() - a.note.updatedAt.getTime());
 }
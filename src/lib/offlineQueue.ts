@@ -0,0 +1,300 @@
+import { NewNote, Unsubscribe } from './repository';
+import { Note, NoteImage, ReadingStatus } from '@/types/book';
+
+// オフライン中の書き込みを IndexedDB に貯めておく待ち行列
+// 同期（オンライン復帰時の書き込み）は offlineSync.ts で行う
+
+const DB_NAME = 'bookbrain-offline';
+const STORE_NAME = 'writes';
+const CONFLICTS_KEY = 'bookbrain_sync_conflicts';
+
+// オフラインで作ったメモの仮 ID（同期時に本当の ID に置き換える）
+const OFFLINE_NOTE_PREFIX = 'offline-';
+
+interface PendingWriteBase {
+  id: string;
+  userId: string;
+  bookId: string;
+  queuedAt: Date;
+}
+
+export type PendingWrite =
+  | (PendingWriteBase & { type: 'note-add'; noteId: string; note: NewNote })
+  | (PendingWriteBase & {
+      type: 'note-update';
+      noteId: string;
+      updates: Partial<Note>;
+      baseUpdatedAt: Date | null; // 編集を始めた時点のメモの更新日時（競合の判定用）
+    })
+  | (PendingWriteBase & { type: 'status-change'; from: ReadingStatus; to: ReadingStatus; at: Date })
+  | (PendingWriteBase & {
+      type: 'image-upload';
+      noteId: string;
+      blob: Blob;
+      fileName?: string;
+      placeholderUrl: string; // アップロードまでメモ本文に入れておく仮の URL
+    });
+
+// 種類ごとに id / queuedAt を除く（enqueueWrite で付ける）
+type WithoutMeta<T> = T extends unknown ? Omit<T, 'id' | 'queuedAt'> : never;
+type NewPendingWrite = WithoutMeta<PendingWrite>;
+
+// 同期時に反映できなかった書き込み
+export interface SyncConflict {
+  id: string;
+  message: string;
+  at: Date;
+}
+
+export interface SyncState {
+  pending: number;
+  syncing: boolean;
+  conflicts: SyncConflict[];
+}
+
+let writes: PendingWrite[] = [];
+let loading: Promise<void> | null = null;
+let syncing = false;
+let conflicts: SyncConflict[] = readConflicts();
+const listeners = new Set<(state: SyncState) => void>();
+// 再読み込み後は以前の blob: URL が使えないので、画像ごとに作り直した URL
+const liveImageUrls = new Map<string, string>();
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export function isOfflineQueueAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// 書き込みを待ち行列に入れるべきか（オフラインで IndexedDB が使える場合）
+export function shouldQueueWrites(): boolean {
+  return isOffline() && isOfflineQueueAvailable();
+}
+
+export function createOfflineNoteId(): string {
+  return `${OFFLINE_NOTE_PREFIX}${generateId()}`;
+}
+
+export function isOfflineNoteId(noteId: string): boolean {
+  return noteId.startsWith(OFFLINE_NOTE_PREFIX);
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+const byQueuedAt = (a: PendingWrite, b: PendingWrite) =>
+  a.queuedAt.getTime() - b.queuedAt.getTime() || a.id.localeCompare(b.id);
+
+// 保存済みの待ち行列を読み込む（初回のみ）
+export function loadPendingWrites(): Promise<void> {
+  if (!isOfflineQueueAvailable()) return Promise.resolve();
+  if (!loading) {
+    loading = runStore<PendingWrite[]>('readonly', (store) => store.getAll())
+      .then((stored) => {
+        writes = [...stored, ...writes].sort(byQueuedAt);
+        for (const write of stored) {
+          if (write.type === 'image-upload') {
+            liveImageUrls.set(write.placeholderUrl, URL.createObjectURL(write.blob));
+          }
+        }
+        notify();
+      })
+      .catch((error) => {
+        console.error('Error loading offline queue:', error);
+      });
+  }
+  return loading;
+}
+
+function readConflicts(): SyncConflict[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFLICTS_KEY) || '[]') as SyncConflict[];
+    return stored.map((conflict) => ({ ...conflict, at: new Date(conflict.at) }));
+  } catch {
+    return [];
+  }
+}
+
+function saveConflicts() {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+}
+
+export function getSyncState(): SyncState {
+  return { pending: writes.length, syncing, conflicts };
+}
+
+function notify() {
+  const state = getSyncState();
+  listeners.forEach((listener) => listener(state));
+}
+
+// 待ち行列・同期状態の変化を購読
+export function watchSyncState(listener: (state: SyncState) => void): Unsubscribe {
+  listeners.add(listener);
+  loadPendingWrites().then(() => {
+    if (listeners.has(listener)) listener(getSyncState());
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setSyncing(value: boolean) {
+  syncing = value;
+  notify();
+}
+
+// 書き込みを待ち行列に追加
+export async function enqueueWrite(write: NewPendingWrite): Promise<PendingWrite> {
+  await loadPendingWrites();
+  const queued = { ...write, id: generateId(), queuedAt: new Date() } as PendingWrite;
+  await runStore('readwrite', (store) => store.put(queued));
+  writes = [...writes, queued];
+  notify();
+  return queued;
+}
+
+// 古い順に待ち行列を取得
+export async function getPendingWrites(): Promise<PendingWrite[]> {
+  await loadPendingWrites();
+  return [...writes];
+}
+
+export async function removePendingWrite(id: string): Promise<void> {
+  await runStore('readwrite', (store) => store.delete(id));
+  const removed = writes.find((write) => write.id === id);
+  writes = writes.filter((write) => write.id !== id);
+  if (removed?.type === 'image-upload' && liveImageUrls.has(removed.placeholderUrl)) {
+    URL.revokeObjectURL(liveImageUrls.get(removed.placeholderUrl)!);
+    liveImageUrls.delete(removed.placeholderUrl);
+  }
+  notify();
+}
+
+// 残っている書き込みを書き換える（仮 ID・仮 URL を本物に置き換えるときなど）
+export async function rewritePendingWrites(rewrite: (write: PendingWrite) => PendingWrite): Promise<void> {
+  const changed = writes.map(rewrite).filter((write, i) => write !== writes[i]);
+  if (changed.length === 0) return;
+  for (const write of changed) {
+    await runStore('readwrite', (store) => store.put(write));
+  }
+  const changedById = new Map(changed.map((write) => [write.id, write]));
+  writes = writes.map((write) => changedById.get(write.id) ?? write);
+  notify();
+}
+
+export function addSyncConflict(message: string) {
+  conflicts = [...conflicts, { id: generateId(), message, at: new Date() }];
+  saveConflicts();
+  notify();
+}
+
+export function dismissSyncConflict(id: string) {
+  conflicts = conflicts.filter((conflict) => conflict.id !== id);
+  saveConflicts();
+  notify();
+}
+
+// 文字列中の仮 URL を置き換える
+export function replaceUrls(text: string, urls: Map<string, string>): string {
+  let result = text;
+  urls.forEach((to, from) => {
+    result = result.split(from).join(to);
+  });
+  return result;
+}
+
+// メモの本文・画像の仮 URL を置き換える
+export function replaceNoteUrls<T extends Partial<Note>>(fields: T, urls: Map<string, string>): T {
+  if (urls.size === 0) return fields;
+  return {
+    ...fields,
+    ...(fields.content !== undefined && { content: replaceUrls(fields.content, urls) }),
+    ...(fields.images && {
+      images: fields.images.map((image) => ({ ...image, url: replaceUrls(image.url, urls) })),
+    }),
+  };
+}
+
+// 同期でアップロードした画像に差し替える（仮 URL → アップロードした画像）
+// images は URL だけでなく ID・ファイル名も差し替える（画像の削除は ID とファイル名から保存先を決めるため）
+export function replaceNoteImages<T extends Partial<Note>>(fields: T, uploaded: Map<string, NoteImage>): T {
+  if (uploaded.size === 0) return fields;
+  const urls = new Map([...uploaded].map(([placeholderUrl, image]) => [placeholderUrl, image.url]));
+  return {
+    ...replaceNoteUrls(fields, urls),
+    ...(fields.images && { images: fields.images.map((image) => uploaded.get(image.url) ?? image) }),
+  };
+}
+
+// 同期前のメモの追加・編集を取得済みのメモに重ねる（画面表示用）
+export function applyPendingNoteWrites(bookId: string, notes: Note[]): Note[] {
+  let result = [...notes];
+  for (const write of writes) {
+    if (write.bookId !== bookId) continue;
+    if (write.type === 'note-add') {
+      result.push({
+        ...write.note,
+        id: write.noteId,
+        displayOrder: write.note.displayOrder ?? Number.MAX_SAFE_INTEGER,
+        createdAt: write.queuedAt,
+        updatedAt: write.queuedAt,
+      });
+    } else if (write.type === 'note-update') {
+      result = result.map((note) =>
+        note.id === write.noteId ? { ...note, ...write.updates, updatedAt: write.queuedAt } : note
+      );
+    }
+  }
+  return result.map((note) => replaceNoteUrls(note, liveImageUrls));
+}
+
+// 同期前のメモの変更を1件のメモに重ねる（オフラインで作ったメモは待ち行列から組み立てる）
+export async function applyPendingNoteWritesTo(
+  bookId: string,
+  noteId: string,
+  note: Note | null
+): Promise<Note | null> {
+  await loadPendingWrites();
+  const [result] = applyPendingNoteWrites(bookId, note ? [note] : []).filter((n) => n.id === noteId);
+  return result ?? null;
+}
+
+// まだ同期していない編集があるメモの、編集を始めた時点の更新日時
+export function getPendingBaseUpdatedAt(noteId: string): Date | null | undefined {
+  const write = writes.find((w) => w.type === 'note-update' && w.noteId === noteId);
+  return write?.type === 'note-update' ? write.baseUpdatedAt : undefined;
+}
@@ -0,0 +1,143 @@
+import { getRepository } from './repository';
+import { buildStatusChange, getStatusChangeBlocker, STATUS_LABELS } from './statusHistory';
+import { syncNoteLinks } from './noteLinks';
+import {
+  addSyncConflict,
+  getPendingWrites,
+  getSyncState,
+  isOffline,
+  isOfflineQueueAvailable,
+  PendingWrite,
+  removePendingWrite,
+  replaceNoteImages,
+  rewritePendingWrites,
+  setSyncing,
+} from './offlineQueue';
+import { Note } from '@/types/book';
+
+// オフライン中に貯めた書き込み（ログイン中のユーザーの分）を古い順に反映する
+// 通信エラーで止まった場合は残りを待ち行列に残し、次の機会に続きから再開する
+export async function flushPendingWrites(userId: string): Promise<void> {
+  if (!isOfflineQueueAvailable() || isOffline() || getSyncState().syncing) return;
+  const pending = (await getPendingWrites()).filter((write) => write.userId === userId);
+  if (pending.length === 0) return;
+
+  setSyncing(true);
+  try {
+    for (const { id } of pending) {
+      // 前の書き込みで仮 ID・仮 URL が書き換わっているので最新の内容を使う
+      const write = (await getPendingWrites()).find((w) => w.id === id);
+      if (!write) continue;
+      await applyWrite(write);
+      await removePendingWrite(write.id);
+    }
+  } catch (error) {
+    console.error('Error syncing offline writes:', error);
+  } finally {
+    setSyncing(false);
+  }
+}
+
+async function applyWrite(write: PendingWrite): Promise<void> {
+  const repository = getRepository();
+  const { userId, bookId } = write;
+
+  switch (write.type) {
+    case 'note-add': {
+      const created = await repository.notes.add(userId, bookId, write.note);
+      await syncLinks(userId, created);
+      // 後に続く編集・画像を本当のメモ ID に付け替える
+      await rewritePendingWrites((w) =>
+        (w.type === 'note-update' || w.type === 'image-upload') && w.noteId === write.noteId
+          ? { ...w, noteId: created.id! }
+          : w
+      );
+      return;
+    }
+
+    case 'note-update': {
+      const current = await repository.notes.get(userId, bookId, write.noteId);
+      if (current && !current.deletedAt && !isNewerThan(current.updatedAt, write.baseUpdatedAt)) {
+        await repository.notes.update(userId, bookId, write.noteId, write.updates);
+        // 同じメモへの続きの編集は、いま保存した内容を基準にする
+        const saved = await repository.notes.get(userId, bookId, write.noteId);
+        if (saved && write.updates.content !== undefined) await syncLinks(userId, saved);
+        await rewritePendingWrites((w) =>
+          w.type === 'note-update' && w.noteId === write.noteId && w.baseUpdatedAt
+            ? { ...w, baseUpdatedAt: saved?.updatedAt ?? null }
+            : w
+        );
+        return;
+      }
+      // 他の端末で変更・削除されていた場合は上書きせず、オフラインでの編集を別のメモとして残す
+      const title = write.updates.title ?? current?.title;
+      await repository.notes.add(userId, bookId, {
+        bookId,
+        title: `${title || '無題のメモ'}（オフラインでの編集）`,
+        content: write.updates.content ?? current?.content ?? '',
+        pageReference: write.updates.pageReference ?? current?.pageReference,
+        tags: write.updates.tags ?? current?.tags,
+        images: write.updates.images ?? current?.images,
+      });
+      addSyncConflict(
+        current && !current.deletedAt
+          ? `メモ「${current.title || '無題のメモ'}」は他の端末で更新されていたため、オフラインでの編集を別のメモとして保存しました`
+          : 'メモが削除されていたため、オフラインでの編集を別のメモとして保存しました'
+      );
+      return;
+    }
+
+    case 'status-change': {
+      const book = await repository.books.get(userId, bookId);
+      if (!book) {
+        addSyncConflict(`書籍が削除されていたため、ステータスの変更（${STATUS_LABELS[write.to]}）を反映できませんでした`);
+        return;
+      }
+      if (book.readingStatus !== write.from) {
+        // 他の端末で先にステータスが変わっていれば、そちらを優先する
+        if (book.readingStatus !== write.to) {
+          addSyncConflict(
+            `「${book.title}」のステータスは他の端末で「${STATUS_LABELS[book.readingStatus]}」に変更されていたため、「${STATUS_LABELS[write.to]}」への変更は反映していません`
+          );
+        }
+        return;
+      }
+      const blocker = getStatusChangeBlocker(book, write.to);
+      if (blocker) {
+        addSyncConflict(`「${book.title}」: ${blocker}`);
+        return;
+      }
+      const updates = buildStatusChange(book, write.to, write.at);
+      if (Object.keys(updates).length > 0) {
+        await repository.books.update(userId, bookId, updates, { source: 'status' });
+      }
+      return;
+    }
+
+    case 'image-upload': {
+      const image = await repository.images.upload(userId, bookId, write.noteId, write.blob, write.fileName);
+      const uploaded = new Map([[write.placeholderUrl, image]]);
+      await rewritePendingWrites((w) => {
+        if (w.type === 'note-add') return { ...w, note: replaceNoteImages(w.note, uploaded) };
+        if (w.type === 'note-update') return { ...w, updates: replaceNoteImages(w.updates, uploaded) };
+        return w;
+      });
+      // オンラインに戻ってから保存したメモには仮の画像が入っているので差し替える
+      const note = await repository.notes.get(userId, bookId, write.noteId);
+      if (note) {
+        const fixed = replaceNoteImages({ content: note.content, images: note.images }, uploaded);
+        if (fixed.content !== note.content || JSON.stringify(fixed.images) !== JSON.stringify(note.images)) {
+          await repository.notes.update(userId, bookId, write.noteId, fixed);
+        }
+      }
+      return;
+    }
+  }
+}
+
+// メモのリンクを記録し直す（失敗しても同期は続ける）
+const syncLinks = (userId: string, note: Note) =>
+  syncNoteLinks(userId, note).catch((error) => console.error('Error syncing note links:', error));
+
+const isNewerThan = (updatedAt: Date, base: Date | null) =>
+  base !== null && updatedAt.getTime() > base.getTime();
@@ -0,0 +1,138 @@
+import { Book, Note, NoteLocation } from '@/types/book';
+
+// メモのページ参照（自由入力の文字列）を本の中の位置として解釈する
+// 入力はそのまま保存し、表示・並べ替えのたびに解釈する（解釈できない参照もそのまま残せる）
+
+// 全角数字・記号を半角に揃える
+const normalize = (text: string) =>
+  text
+    .replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[．]/g, '.')
+    .replace(/[％]/g, '%')
+    .replace(/[〜～―−–—]/g, '-')
+    .trim();
+
+const PATTERNS: { pattern: RegExp; build: (m: RegExpMatchArray) => NoteLocation }[] = [
+  // 45%
+  { pattern: /^(\d+(?:\.\d+)?)\s*%$/, build: (m) => ({ type: 'percent', percent: Number(m[1]) }) },
+  // 位置No. 1234 / 位置 1234 / No.1234 / Loc 1234 / location 1234
+  {
+    pattern: /^(?:位置\s*(?:no\.?)?|no\.|loc(?:ation)?\.?)\s*(\d+)$/i,
+    build: (m) => ({ type: 'kindle', location: Number(m[1]) }),
+  },
+  // 第3章 / 3章 / Chapter 3 / ch.3
+  { pattern: /^(?:第\s*(\d+)\s*章|(\d+)\s*章|(?:chapter|ch\.?)\s*(\d+))$/i, build: (m) => ({ type: 'chapter', chapter: Number(m[1] ?? m[2] ?? m[3]) }) },
+  // p.42-45 / pp.42-45 / 42-45ページ
+  {
+    pattern: /^(?:pp?\.?\s*)?(\d+)\s*-\s*(?:p\.?\s*)?(\d+)\s*(?:ページ|頁|p)?$/i,
+    build: (m) => ({ type: 'pages', start: Number(m[1]), end: Number(m[2]) }),
+  },
+  // p.42 / P42 / 42ページ / 42頁 / 42
+  { pattern: /^(?:pp?\.?\s*)?(\d+)\s*(?:ページ|頁|p)?$/i, build: (m) => ({ type: 'page', page: Number(m[1]) }) },
+];
+
+export function parsePageReference(text: string | undefined): NoteLocation | null {
+  if (!text) return null;
+  const normalized = normalize(text);
+  for (const { pattern, build } of PATTERNS) {
+    const match = normalized.match(pattern);
+    if (match) return build(match);
+  }
+  return null;
+}
+
+export function formatNoteLocation(location: NoteLocation): string {
+  switch (location.type) {
+    case 'page':
+      return `p.${location.page}`;
+    case 'pages':
+      return `pp.${location.start}-${location.end}`;
+    case 'chapter':
+      return `第${location.chapter}章`;
+    case 'kindle':
+      return `位置No.${location.location}`;
+    case 'percent':
+      return `${location.percent}%`;
+  }
+}
+
+// 解釈できればそろえた書き方、できなければ入力のまま
+export function formatPageReference(text: string): string {
+  const location = parsePageReference(text);
+  return location ? formatNoteLocation(location) : text;
+}
+
+// 書籍の情報と合わない位置の警告（問題なければ null）
+export function getNoteLocationWarning(
+  location: NoteLocation,
+  book: Pick<Book, 'pageCount'> | null
+): string | null {
+  const pageCount = book?.pageCount;
+  switch (location.type) {
+    case 'page':
+      if (location.page < 1) return 'ページは1以上で入力してください';
+      if (pageCount && location.page > pageCount) return `この本は${pageCount}ページまでです`;
+      return null;
+    case 'pages':
+      if (location.start < 1) return 'ページは1以上で入力してください';
+      if (location.start > location.end) return 'ページの範囲が逆になっています';
+      if (pageCount && location.end > pageCount) return `この本は${pageCount}ページまでです`;
+      return null;
+    case 'chapter':
+      return location.chapter < 1 ? '章は1以上で入力してください' : null;
+    case 'kindle':
+      return location.location < 1 ? '位置No.は1以上で入力してください' : null;
+    case 'percent':
+      return location.percent > 100 ? '100%以下で入力してください' : null;
+  }
+}
+
+// 本の中の位置（0〜1）。ページ数のわからない本のページや、章・位置No.は位置を決められないので null
+export function getNoteLocationPosition(
+  location: NoteLocation | null,
+  book: Pick<Book, 'pageCount'> | null
+): number | null {
+  if (!location) return null;
+  const pageCount = book?.pageCount;
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  switch (location.type) {
+    case 'page':
+      return pageCount ? clamp((location.page - 1) / pageCount) : null;
+    case 'pages':
+      return pageCount ? clamp((location.start - 1) / pageCount) : null;
+    case 'percent':
+      return clamp(location.percent / 100);
+    default:
+      return null;
+  }
+}
+
+// 並べ替え用のキー（グループ、グループ内の値）
+// ページ数のある本はページと読了率を位置にそろえて比べ、ない本はページ・読了率・章・位置No.・参照なしの順にまとめる
+const sortKey = (location: NoteLocation | null, book: Pick<Book, 'pageCount'> | null): [number, number] => {
+  if (!location) return [4, 0];
+  const position = book?.pageCount ? getNoteLocationPosition(location, book) : null;
+  if (position !== null) return [0, position];
+  switch (location.type) {
+    case 'page':
+      return [0, location.page];
+    case 'pages':
+      return [0, location.start];
+    case 'percent':
+      return [1, location.percent];
+    case 'chapter':
+      return [2, location.chapter];
+    case 'kindle':
+      return [3, location.location];
+  }
+};
+
+// 本の中の位置の順に並べる（ページ参照のないメモは元の順のまま末尾に）
+export function sortNotesByLocation(notes: Note[], book: Pick<Book, 'pageCount'> | null): Note[] {
+  const keys = new Map(notes.map((note) => [note, sortKey(parsePageReference(note.pageReference), book)]));
+  return [...notes].sort((a, b) => {
+    const [groupA, valueA] = keys.get(a)!;
+    const [groupB, valueB] = keys.get(b)!;
+    return groupA - groupB || valueA - valueB;
+  });
+}
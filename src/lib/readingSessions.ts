@@ -0,0 +1,103 @@
+import { getRepository, NewReadingSession } from './repository';
+import { buildStatusChange } from './statusHistory';
+import { Book, ReadingSession } from '@/types/book';
+
+// 読書ペースの算出に使う期間（日）
+const PACE_WINDOW_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AddReadingSessionResult {
+  session: ReadingSession;
+  // 書籍に反映した変更（currentPage / readingStatus と履歴）
+  bookUpdates: Partial<Book>;
+}
+
+// 1回の読書で読んだページ数
+export function pagesRead(session: Pick<ReadingSession, 'startPage' | 'endPage'>): number {
+  return Math.max(0, session.endPage - session.startPage + 1);
+}
+
+// 読書の進捗率（0〜100）。ページ数が不明な場合は null
+export function getProgressPercent(book: Pick<Book, 'currentPage' | 'pageCount'>): number | null {
+  if (!book.pageCount || book.pageCount <= 0) return null;
+  const percent = ((book.currentPage || 0) / book.pageCount) * 100;
+  return Math.min(100, Math.max(0, Math.round(percent)));
+}
+
+// 直近のペースから読了予定日を推定する。推定できない場合は null
+export function estimateFinishDate(
+  book: Pick<Book, 'currentPage' | 'pageCount'>,
+  sessions: ReadingSession[],
+  now: Date = new Date()
+): Date | null {
+  if (!book.pageCount) return null;
+  const remaining = book.pageCount - (book.currentPage || 0);
+  if (remaining <= 0) return null;
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const windowStart = today.getTime() - (PACE_WINDOW_DAYS - 1) * DAY_MS;
+  const recent = sessions.filter((s) => s.date.getTime() >= windowStart);
+  if (recent.length === 0) return null;
+
+  const totalPages = recent.reduce((sum, s) => sum + pagesRead(s), 0);
+  if (totalPages === 0) return null;
+
+  // 直近で最初に読んだ日から今日までの日数で割る
+  const firstDay = Math.min(...recent.map((s) => s.date.getTime()));
+  const days = Math.max(1, Math.floor((today.getTime() - firstDay) / DAY_MS) + 1);
+  const pagesPerDay = totalPages / days;
+
+  return new Date(today.getTime() + Math.ceil(remaining / pagesPerDay) * DAY_MS);
+}
+
+// 読書記録を取得
+export async function getReadingSessions(userId: string, bookId: string): Promise<ReadingSession[]> {
+  return getRepository().sessions.list(userId, bookId);
+}
+
+// 読書記録を追加し、現在ページと読書ステータスを更新
+export async function addReadingSession(
+  userId: string,
+  book: Book,
+  session: Omit<NewReadingSession, 'bookId'>
+): Promise<AddReadingSessionResult> {
+  const repository = getRepository();
+  const saved = await repository.sessions.add(userId, book.id!, { ...session, bookId: book.id! });
+
+  let bookUpdates: Partial<Book> = {};
+  const currentPage = Math.max(book.currentPage || 0, session.endPage);
+  if (currentPage !== book.currentPage) {
+    bookUpdates.currentPage = currentPage;
+  }
+
+  // 最後のページに達したら読了、最初の記録なら読書中に（読んだ日で履歴に記録）
+  if (book.pageCount && currentPage >= book.pageCount) {
+    if (book.readingStatus === 'unread' || book.readingStatus === 'reading') {
+      bookUpdates = { ...bookUpdates, ...buildStatusChange(book, 'completed', session.date) };
+    }
+  } else if (book.readingStatus === 'unread') {
+    bookUpdates = { ...bookUpdates, ...buildStatusChange(book, 'reading', session.date) };
+  }
+
+  if (Object.keys(bookUpdates).length > 0) {
+    await repository.books.update(userId, book.id!, bookUpdates);
+  }
+
+  return { session: saved, bookUpdates };
+}
+
+// 読書記録を削除し、現在ページを残りの記録から再計算
+export async function deleteReadingSession(
+  userId: string,
+  bookId: string,
+  sessionId: string
+): Promise<number> {
+  const repository = getRepository();
+  await repository.sessions.delete(userId, bookId, sessionId);
+
+  const remaining = await repository.sessions.list(userId, bookId);
+  const currentPage = remaining.reduce((max, s) => Math.max(max, s.endPage), 0);
+  await repository.books.update(userId, bookId, { currentPage });
+
+  return currentPage;
+}
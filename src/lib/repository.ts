@@ -0,0 +1,218 @@
+import { Book, BookChange, Note, NoteImage, NoteLink, NoteVersion, ReadingSession, Series, StorageLocation, Tag } from '@/types/book';
+import { ChangeContext } from './bookChanges';
+import { createFirestoreRepository } from './firestoreRepository';
+import { createMemoryRepository } from './memoryRepository';
+
+export type NewBook = Omit<Book, 'id' | 'createdAt' | 'updatedAt'>;
+// displayOrder・createdAt は別の書籍に移すメモなど、元の値を残す場合だけ指定する（省略時は末尾・現在日時）
+export type NewNote = Omit<Note, 'id' | 'createdAt' | 'updatedAt'> & { createdAt?: Date };
+export type NewTag = Omit<Tag, 'id' | 'createdAt'>;
+export type NewReadingSession = Omit<ReadingSession, 'id' | 'createdAt'>;
+export type NewSeries = Omit<Series, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewStorageLocation = Omit<StorageLocation, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewBookChange = Omit<BookChange, 'id' | 'changedAt' | 'revertedAt'>;
+export type NewNoteVersion = Omit<NoteVersion, 'id'>;
+export type NewNoteLink = Omit<NoteLink, 'id'>;
+
+// 購読の解除
+export type Unsubscribe = () => void;
+
+// 購読の通知に付く情報（local: この端末の書き込みがまだサーバーに届いていない）
+export interface SnapshotMeta {
+  local: boolean;
+}
+
+// 書籍一覧のページ（cursor は最後の書籍の ID。次のページがなければ null）
+export interface BookPage {
+  books: Book[];
+  cursor: string | null;
+}
+
+export interface BookRepository {
+  add(userId: string, book: NewBook): Promise<Book>;
+  addMany(userId: string, books: NewBook[]): Promise<number>;
+  get(userId: string, bookId: string): Promise<Book | null>;
+  // 登録日の新しい順（ゴミ箱の書籍も含む）
+  list(userId: string): Promise<Book[]>;
+  // list と同じ順で pageSize 件ずつ取得（cursor の書籍の次から）
+  listPage(userId: string, cursor: string | null, pageSize: number): Promise<BookPage>;
+  // 更新したフィールドは変更履歴（changes）に記録する（context 省略時は通常の編集、操作ごとに batchId を振る）
+  update(userId: string, bookId: string, updates: Partial<Book>, context?: ChangeContext): Promise<void>;
+  bulkUpdate(userId: string, bookIds: string[], updates: Partial<Book>, context?: ChangeContext): Promise<number>;
+  // 書籍ごとに異なる内容をまとめて更新する
+  updateMany(
+    userId: string,
+    changes: { bookId: string; updates: Partial<Book> }[],
+    context?: ChangeContext
+  ): Promise<number>;
+  delete(userId: string, bookId: string): Promise<void>;
+  // ISBN-10 / ISBN-13 のどちらで登録されていても見つける（ゴミ箱の書籍も含む）
+  findByIsbn(userId: string, isbn: string): Promise<Book | null>;
+  // 複数の ISBN をまとめて検索（キーは ISBN-13 に揃えた ISBN）
+  findManyByIsbn(userId: string, isbns: string[]): Promise<Map<string, Book>>;
+  // 1冊の変更を購読（削除されたら null）
+  watch(
+    userId: string,
+    bookId: string,
+    listener: (book: Book | null, meta: SnapshotMeta) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // since より後に追加・更新された書籍を購読（最初の通知で since 以降の変更をまとめて受け取る）
+  // removedIds は完全に削除された書籍（ゴミ箱への移動は deletedAt の更新として届く）
+  watchUpdates(
+    userId: string,
+    since: Date,
+    listener: (updated: Book[], removedIds: string[], meta: SnapshotMeta) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
+
+export interface NoteRepository {
+  add(userId: string, bookId: string, note: NewNote): Promise<Note>;
+  get(userId: string, bookId: string, noteId: string): Promise<Note | null>;
+  // displayOrder 順（同じ場合は作成日順）。ゴミ箱のメモも含む
+  list(userId: string, bookId: string): Promise<Note[]>;
+  // タイトル・内容・ページ参照が変わる場合は、更新前の状態を版（versions）に残す
+  update(userId: string, bookId: string, noteId: string, updates: Partial<Note>): Promise<void>;
+  updateOrder(
+    userId: string,
+    bookId: string,
+    noteOrders: { noteId: string; displayOrder: number }[]
+  ): Promise<void>;
+  delete(userId: string, bookId: string, noteId: string): Promise<void>;
+  // 1回のバッチ書き込みで削除する（500件まで）
+  deleteMany(userId: string, bookId: string, noteIds: string[]): Promise<void>;
+  // 以下の2つはすべての書籍のメモを1回の検索で取得する（全メモを読み込まないよう条件で絞り込む）
+  // ゴミ箱にあるメモ（ゴミ箱の書籍のメモも含む）
+  listTrashed(userId: string): Promise<Note[]>;
+  // タグの付いたメモ（ゴミ箱のメモも含む）
+  listByTag(userId: string, tagName: string): Promise<Note[]>;
+  // 書籍のメモを購読（list と同じ順）
+  watch(
+    userId: string,
+    bookId: string,
+    listener: (notes: Note[], meta: SnapshotMeta) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
+
+export interface TagRepository {
+  add(userId: string, tag: NewTag): Promise<Tag>;
+  // 名前順
+  list(userId: string): Promise<Tag[]>;
+  update(userId: string, tagId: string, updates: Partial<Tag>): Promise<void>;
+  delete(userId: string, tagId: string): Promise<void>;
+  findByName(userId: string, name: string): Promise<Tag | null>;
+  // 名前順で購読
+  watch(userId: string, listener: (tags: Tag[]) => void, onError?: (error: Error) => void): Unsubscribe;
+}
+
+export interface SeriesRepository {
+  add(userId: string, series: NewSeries): Promise<Series>;
+  get(userId: string, seriesId: string): Promise<Series | null>;
+  // 名前順
+  list(userId: string): Promise<Series[]>;
+  update(userId: string, seriesId: string, updates: Partial<Series>): Promise<void>;
+  delete(userId: string, seriesId: string): Promise<void>;
+  findByName(userId: string, name: string): Promise<Series | null>;
+}
+
+export interface LocationRepository {
+  add(userId: string, location: NewStorageLocation): Promise<StorageLocation>;
+  // 名前順（階層はまとめて返す）
+  list(userId: string): Promise<StorageLocation[]>;
+  update(userId: string, locationId: string, updates: Partial<StorageLocation>): Promise<void>;
+  delete(userId: string, locationId: string): Promise<void>;
+}
+
+export interface ReadingSessionRepository {
+  add(userId: string, bookId: string, session: NewReadingSession): Promise<ReadingSession>;
+  // 読んだ日の新しい順
+  list(userId: string, bookId: string): Promise<ReadingSession[]>;
+  delete(userId: string, bookId: string, sessionId: string): Promise<void>;
+}
+
+export interface ImageRepository {
+  upload(
+    userId: string,
+    bookId: string,
+    noteId: string,
+    file: File | Blob,
+    fileName?: string
+  ): Promise<NoteImage>;
+  // Storage から直接取得する（ダウンロード URL への fetch は CORS の設定が必要なため使わない）
+  download(userId: string, bookId: string, noteId: string, fileName: string): Promise<Blob>;
+  // 画像が存在しない場合は何もしない。それ以外の失敗は例外を投げる
+  delete(userId: string, bookId: string, noteId: string, fileName: string): Promise<void>;
+}
+
+// 書籍の変更履歴（記録は BookRepository の更新時に行う）
+export interface BookChangeRepository {
+  // 新しい順
+  listByBook(userId: string, bookId: string): Promise<BookChange[]>;
+  listByBatch(userId: string, batchId: string): Promise<BookChange[]>;
+  markReverted(userId: string, changeIds: string[]): Promise<void>;
+  deleteByBook(userId: string, bookId: string): Promise<void>;
+}
+
+// メモの以前の版（記録は NoteRepository の更新時に行い、古い版は noteVersions.ts で整理する）
+export interface NoteVersionRepository {
+  // 新しい順
+  list(userId: string, noteId: string): Promise<NoteVersion[]>;
+  deleteMany(userId: string, versionIds: string[]): Promise<void>;
+  deleteByNote(userId: string, noteId: string): Promise<void>;
+  deleteByBook(userId: string, bookId: string): Promise<void>;
+}
+
+// メモ間のリンク（記録は noteLinks.ts がメモの保存後に行う）
+export interface NoteLinkRepository {
+  // 書籍のメモから出ているリンク
+  listFromBook(userId: string, bookId: string): Promise<NoteLink[]>;
+  listFromNote(userId: string, noteId: string): Promise<NoteLink[]>;
+  // 書籍（またはそのメモ）へのリンク
+  listToBook(userId: string, bookId: string): Promise<NoteLink[]>;
+  // メモから出ているリンクをまとめて置き換える
+  replaceFromNote(userId: string, noteId: string, links: NewNoteLink[]): Promise<void>;
+  deleteFromNote(userId: string, noteId: string): Promise<void>;
+  deleteFromBook(userId: string, bookId: string): Promise<void>;
+}
+
+// ユーザーごとのデータ構造のバージョン（migrations.ts で更新する）
+export interface SchemaRepository {
+  // 記録がなければ 0
+  getVersion(userId: string): Promise<number>;
+  setVersion(userId: string, version: number): Promise<void>;
+}
+
+// データアクセスの共通インターフェース
+// books.ts / notes.ts / tags.ts / storage.ts / search.ts はこれを経由してデータにアクセスする
+export interface LibraryRepository {
+  books: BookRepository;
+  notes: NoteRepository;
+  tags: TagRepository;
+  series: SeriesRepository;
+  locations: LocationRepository;
+  sessions: ReadingSessionRepository;
+  images: ImageRepository;
+  changes: BookChangeRepository;
+  versions: NoteVersionRepository;
+  links: NoteLinkRepository;
+  schema: SchemaRepository;
+}
+
+// NEXT_PUBLIC_DATA_BACKEND=memory でFirebaseなしのメモリバックエンドに切り替え
+export const isMemoryBackend = process.env.NEXT_PUBLIC_DATA_BACKEND === 'memory';
+
+let repository: LibraryRepository | null = null;
+
+export function getRepository(): LibraryRepository {
+  if (!repository) {
+    repository = isMemoryBackend ? createMemoryRepository() : createFirestoreRepository();
+  }
+  return repository;
+}
+
+// リポジトリを差し替える（テストや開発用）
+export function setRepository(next: LibraryRepository): void {
+  repository = next;
+}
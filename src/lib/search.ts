@@ -1,10 +1,5 @@
-import {
-  collection,
-  getDocs,
-  query,
-  orderBy,
-} from 'firebase/firestore';
-import { db } from './firebase';
+import { getRepository } from './repository';
+import { getContributors, contributorKey, CONTRIBUTOR_ROLE_LABELS } from './contributors';
 import { Book, Note } from '@/types/book';
 
 export interface SearchResult {
@@ -23,6 +18,8 @@ export interface SearchOptions {
   searchNotes: boolean;
   searchIsbn: boolean;
   searchStatus: boolean;
+  // メモの検索結果をこのタグの付いたメモに絞り込む
+  noteTag?: string;
 }
 
 export const defaultSearchOptions: SearchOptions = {
@@ -48,67 +45,56 @@ let cachedBooks: Book[] | null = null;
 let cachedNotesMap: Map<string, Note[]> | null = null;
 let cacheUserId: string | null = null;
 let cacheTimestamp: number = 0;
+// 変更の購読でキャッシュを更新している間は期限切れにしない
+let cacheLive = false;
 const CACHE_TTL = 5 * 60 * 1000; // 5分
 
+// ゴミ箱・ウィッシュリストの書籍は検索対象外
+const isSearchable = (book: Book) => !book.deletedAt && book.ownership !== 'wishlist';
+
+const isCacheValid = (userId: string) =>
+  cacheUserId === userId && (cacheLive || Date.now() - cacheTimestamp < CACHE_TTL);
+
 // キャッシュをクリア
 export function clearSearchCache() {
   cachedBooks = null;
   cachedNotesMap = null;
   cacheUserId = null;
   cacheTimestamp = 0;
+  cacheLive = false;
+}
+
+async function fetchSearchableNotes(userId: string, bookId: string): Promise<Note[]> {
+  const allNotes = await getRepository().notes.list(userId, bookId);
+  return allNotes.filter((note) => !note.deletedAt);
 }
 
 // 書籍データを取得（キャッシュ付き）
 async function fetchBooksWithCache(userId: string): Promise<Book[]> {
-  const now = Date.now();
-  if (cachedBooks && cacheUserId === userId && now - cacheTimestamp < CACHE_TTL) {
+  if (cachedBooks && isCacheValid(userId)) {
     return cachedBooks;
   }
 
-  const booksRef = collection(db, 'users', userId, 'books');
-  const booksSnapshot = await getDocs(query(booksRef, orderBy('createdAt', 'desc')));
-
-  const books: Book[] = booksSnapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      ...data,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      updatedAt: data.updatedAt?.toDate() || new Date(),
-    } as Book;
-  });
+  const allBooks = await getRepository().books.list(userId);
+  const books = allBooks.filter(isSearchable);
 
   cachedBooks = books;
   cacheUserId = userId;
-  cacheTimestamp = now;
+  cacheTimestamp = Date.now();
 
   return books;
 }
 
 // 全メモを一括取得（キャッシュ付き）
 async function fetchAllNotesWithCache(userId: string, books: Book[]): Promise<Map<string, Note[]>> {
-  const now = Date.now();
-  if (cachedNotesMap && cacheUserId === userId && now - cacheTimestamp < CACHE_TTL) {
+  if (cachedNotesMap && isCacheValid(userId)) {
     return cachedNotesMap;
   }
 
   const notesMap = new Map<string, Note[]>();
 
   const notePromises = books.map(async (book) => {
-    const notesRef = collection(db, 'users', userId, 'books', book.id!, 'notes');
-    const notesSnapshot = await getDocs(query(notesRef, orderBy('createdAt', 'desc')));
-
-    const notes: Note[] = notesSnapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        bookId: book.id,
-        ...data,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-      } as Note;
-    });
-
+    const notes = await fetchSearchableNotes(userId, book.id!);
     return { bookId: book.id!, notes };
   });
 
@@ -122,6 +108,40 @@ async function fetchAllNotesWithCache(userId: string, books: Book[]): Promise<Ma
   return notesMap;
 }
 
+// 書籍の変更（books.watchUpdates の通知）をキャッシュに反映する
+// メモが変わった書籍はその書籍のメモだけ取り直す
+export async function updateSearchCache(userId: string, updated: Book[], removedIds: string[]): Promise<void> {
+  if (!cachedBooks || cacheUserId !== userId) return;
+  cacheLive = true;
+
+  const previous = new Map(cachedBooks.map((book) => [book.id!, book]));
+  const changedIds = new Set([...removedIds, ...updated.map((book) => book.id!)]);
+  const next = cachedBooks.filter((book) => !changedIds.has(book.id!));
+  const notesToFetch: string[] = [];
+
+  for (const book of updated) {
+    if (!isSearchable(book)) {
+      cachedNotesMap?.delete(book.id!);
+      continue;
+    }
+    next.push(book);
+    const before = previous.get(book.id!);
+    if (!before || before.notesUpdatedAt?.getTime() !== book.notesUpdatedAt?.getTime()) {
+      notesToFetch.push(book.id!);
+    }
+  }
+  removedIds.forEach((id) => cachedNotesMap?.delete(id));
+  cachedBooks = next.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  if (!cachedNotesMap) return;
+  const fetched = await Promise.all(
+    notesToFetch.map(async (bookId) => ({ bookId, notes: await fetchSearchableNotes(userId, bookId) }))
+  );
+  // 取り直している間にキャッシュがクリアされていたら捨てる
+  if (cacheUserId !== userId) return;
+  fetched.forEach(({ bookId, notes }) => cachedNotesMap?.set(bookId, notes));
+}
+
 // 全文検索（キャッシュ使用）
 export async function searchAll(
   userId: string,
@@ -132,6 +152,7 @@ export async function searchAll(
 
   const results: SearchResult[] = [];
   const lowerQuery = searchQuery.toLowerCase();
+  const nameQuery = contributorKey(searchQuery);
 
   // 書籍を取得（キャッシュ使用）
   const books = await fetchBooksWithCache(userId);
@@ -141,18 +162,29 @@ export async function searchAll(
     // ステータス検索用の日本語ラベル
     const statusLabel = statusLabels[book.readingStatus] || '';
 
-    const bookFields: { field: string; value: string | undefined; enabled: boolean }[] = [
+    const bookFields: { field: string; value: string | undefined; enabled: boolean; isName?: boolean }[] = [
       { field: 'タイトル', value: book.title, enabled: options.searchTitle },
       { field: 'サブタイトル', value: book.subtitle, enabled: options.searchTitle },
-      { field: '著者', value: book.author, enabled: options.searchAuthor },
+      // 著者・訳者などは1人ずつ照合する
+      ...getContributors(book).map((c) => ({
+        field: c.role === 'author' ? '著者' : `著者（${CONTRIBUTOR_ROLE_LABELS[c.role]}）`,
+        value: c.name,
+        enabled: options.searchAuthor,
+        isName: true,
+      })),
       { field: '出版社', value: book.publisher, enabled: options.searchPublisher },
       { field: '説明', value: book.description, enabled: options.searchDescription },
       { field: 'ISBN', value: book.isbn13, enabled: options.searchIsbn },
       { field: 'ステータス', value: statusLabel, enabled: options.searchStatus },
     ];
 
-    for (const { field, value, enabled } of bookFields) {
-      if (enabled && value && value.toLowerCase().includes(lowerQuery)) {
+    for (const { field, value, enabled, isName } of bookFields) {
+      if (!enabled || !value) continue;
+      // 人名は空白や中黒の有無を問わずに照合
+      const matched = isName
+        ? !!nameQuery && contributorKey(value).includes(nameQuery)
+        : value.toLowerCase().includes(lowerQuery);
+      if (matched) {
         results.push({
           type: 'book',
           book,
@@ -172,6 +204,8 @@ export async function searchAll(
       const notes = notesMap.get(book.id!) || [];
 
       for (const note of notes) {
+        if (options.noteTag && !note.tags?.includes(options.noteTag)) continue;
+
         const noteFields = [
           { field: 'メモタイトル', value: note.title },
           { field: 'メモ内容', value: note.content },
@@ -0,0 +1,83 @@
+import { getRepository, NewSeries } from './repository';
+import { Book, Series } from '@/types/book';
+
+// シリーズ内の巻の並び（欠巻を含む）
+export interface SeriesVolumeSlot {
+  volume: number;
+  books: Book[]; // 同じ巻を複数持っている場合もある
+}
+
+export interface SeriesVolumes {
+  slots: SeriesVolumeSlot[]; // 1巻から最終巻まで（未所持の巻は books が空）
+  missing: number[]; // 欠巻（売却済みのみの巻を含む）
+  unnumbered: Book[]; // 巻数が未設定の書籍
+}
+
+// シリーズを追加
+export async function addSeries(userId: string, series: NewSeries): Promise<Series> {
+  return getRepository().series.add(userId, series);
+}
+
+// シリーズを取得
+export async function getSeries(userId: string, seriesId: string): Promise<Series | null> {
+  return getRepository().series.get(userId, seriesId);
+}
+
+// 全シリーズを取得
+export async function getSeriesList(userId: string): Promise<Series[]> {
+  return getRepository().series.list(userId);
+}
+
+// シリーズを更新
+export async function updateSeries(userId: string, seriesId: string, updates: Partial<Series>): Promise<void> {
+  await getRepository().series.update(userId, seriesId, updates);
+}
+
+// シリーズを削除（所属していた書籍はシリーズなしに戻す）
+export async function deleteSeries(userId: string, seriesId: string): Promise<void> {
+  const repository = getRepository();
+  const books = await repository.books.list(userId);
+  const bookIds = books.filter((b) => b.seriesId === seriesId).map((b) => b.id!);
+  if (bookIds.length > 0) {
+    await repository.books.bulkUpdate(userId, bookIds, { seriesId: null });
+  }
+  await repository.series.delete(userId, seriesId);
+}
+
+// シリーズ名からシリーズを取得（なければ作成）
+export async function getOrCreateSeries(userId: string, name: string): Promise<Series> {
+  const trimmed = name.trim();
+  const existing = await getRepository().series.findByName(userId, trimmed);
+  if (existing) return existing;
+  return addSeries(userId, { name: trimmed });
+}
+
+// タイトル末尾の巻数を推定（例: 「〇〇 3」「〇〇（3）」「〇〇 第3巻」）
+export function parseVolumeNumber(title: string): number | undefined {
+  const normalized = title.replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0));
+  const match = normalized.match(/(?:第\s*)?(\d{1,3})\s*(?:巻)?\s*[)）]?\s*$/);
+  if (!match) return undefined;
+  const volume = Number(match[1]);
+  return volume > 0 ? volume : undefined;
+}
+
+// シリーズの所持巻を巻数順に並べ、欠巻を求める
+export function getSeriesVolumes(series: Series, books: Book[]): SeriesVolumes {
+  const members = books.filter((b) => b.seriesId === series.id);
+  const numbered = members.filter((b) => b.volume && b.volume > 0);
+  const unnumbered = members.filter((b) => !b.volume || b.volume <= 0);
+
+  const maxOwned = numbered.reduce((max, b) => Math.max(max, b.volume!), 0);
+  const lastVolume = Math.max(series.expectedVolumes || 0, maxOwned);
+
+  const slots: SeriesVolumeSlot[] = [];
+  const missing: number[] = [];
+  for (let volume = 1; volume <= lastVolume; volume++) {
+    const owned = numbered.filter((b) => b.volume === volume);
+    slots.push({ volume, books: owned });
+    // 売却済みの巻しかない場合も欠巻として扱う
+    if (!owned.some((b) => b.readingStatus !== 'sold')) missing.push(volume);
+  }
+
+  return { slots, missing, unnumbered };
+}
@@ -0,0 +1,176 @@
+import { getRepository } from './repository';
+import { isLentOut } from './loans';
+import { enqueueWrite, shouldQueueWrites } from './offlineQueue';
+import { ChangeContext, generateBatchId } from './bookChanges';
+import { Book, ReadingStatus, StatusEvent } from '@/types/book';
+
+export const STATUS_LABELS: Record<ReadingStatus, string> = {
+  unread: '未読',
+  reading: '読書中',
+  completed: '読了',
+  sold: '売却済',
+};
+
+// 読み始めから読み終わりまでの1回分
+export interface ReadCycle {
+  startedAt?: Date; // 読み始めの記録がない場合は未設定
+  completedAt: Date;
+  days?: number; // 読了までの日数
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const generateEventId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+
+// 履歴を日時順に並べ、from を直前のイベントとつじつまが合うように付け直す
+const normalizeHistory = (history: StatusEvent[]): StatusEvent[] => {
+  const sorted = [...history].sort((a, b) => a.at.getTime() - b.at.getTime());
+  return sorted.map((event, i) => (i === 0 ? event : { ...event, from: sorted[i - 1].to }));
+};
+
+const lastEventAt = (history: StatusEvent[], status: ReadingStatus): Date | undefined => {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].to === status) return history[i].at;
+  }
+  return undefined;
+};
+
+// 履歴から書籍の日付フィールドと現在のステータスを算出
+function deriveFromHistory(history: StatusEvent[]): Partial<Book> {
+  const updates: Partial<Book> = { statusHistory: history };
+  const startedAt = lastEventAt(history, 'reading');
+  const completedAt = lastEventAt(history, 'completed');
+  const soldAt = lastEventAt(history, 'sold');
+  if (startedAt) updates.startedAt = startedAt;
+  if (completedAt) updates.completedAt = completedAt;
+  if (soldAt) updates.soldAt = soldAt;
+  if (history.length > 0) updates.readingStatus = history[history.length - 1].to;
+  return updates;
+}
+
+// 読了ごとのサイクル（再読を含む）を古い順に返す
+export function getReadCycles(history: StatusEvent[] = []): ReadCycle[] {
+  const cycles: ReadCycle[] = [];
+  let startedAt: Date | undefined;
+
+  for (const event of history) {
+    if (event.to === 'reading') {
+      startedAt = event.at;
+    } else if (event.to === 'completed') {
+      const days = startedAt
+        ? Math.max(1, Math.round((event.at.getTime() - startedAt.getTime()) / DAY_MS))
+        : undefined;
+      cycles.push({ startedAt, completedAt: event.at, days });
+      startedAt = undefined;
+    }
+  }
+
+  return cycles;
+}
+
+// ステータス変更を履歴に追加した更新内容を作る（保存はしない）
+// 現在のステータスからの変更なので、過去の日付（さかのぼって付けた読書記録など）でも履歴の最後に置く
+// （既存のイベントより前に並ぶと、最後のイベントから算出するステータスが変更前に戻ってしまう）
+export function buildStatusChange(
+  book: Pick<Book, 'readingStatus' | 'statusHistory'>,
+  newStatus: ReadingStatus,
+  at: Date = new Date()
+): Partial<Book> {
+  if (book.readingStatus === newStatus) return {};
+  const history = book.statusHistory || [];
+  const latest = Math.max(at.getTime(), ...history.map((event) => event.at.getTime()));
+  const event: StatusEvent = { id: generateEventId(), from: book.readingStatus, to: newStatus, at: new Date(latest) };
+  return deriveFromHistory(normalizeHistory([...history, event]));
+}
+
+// ステータスを変更できない理由（変更できる場合は null）
+export function getStatusChangeBlocker(book: Pick<Book, 'loans'>, newStatus: ReadingStatus): string | null {
+  if (newStatus === 'sold' && isLentOut(book)) {
+    return '貸出中の書籍は返却されるまで売却済みにできません';
+  }
+  return null;
+}
+
+// 読書ステータスを変更し、履歴に記録
+// オフライン中は待ち行列に入れ、画面に反映する更新内容だけを返す
+export async function changeReadingStatus(
+  userId: string,
+  book: Book,
+  newStatus: ReadingStatus,
+  context: ChangeContext = { source: 'status' }
+): Promise<Partial<Book>> {
+  const blocker = getStatusChangeBlocker(book, newStatus);
+  if (blocker) {
+    throw new Error(blocker);
+  }
+  const at = new Date();
+  const updates = buildStatusChange(book, newStatus, at);
+  if (Object.keys(updates).length === 0) return updates;
+  if (shouldQueueWrites()) {
+    await enqueueWrite({ type: 'status-change', userId, bookId: book.id!, from: book.readingStatus, to: newStatus, at });
+  } else {
+    await getRepository().books.update(userId, book.id!, updates, context);
+  }
+  return updates;
+}
+
+// 複数の書籍のステータスをまとめて変更（書籍ごとに履歴を記録し、変更履歴は1回の操作として残す）
+// 変更できない書籍（貸出中の売却など）は飛ばして返す
+export async function changeReadingStatusMany(
+  userId: string,
+  books: Book[],
+  newStatus: ReadingStatus,
+  context: ChangeContext = { source: 'status', batchId: generateBatchId() }
+): Promise<{ updated: number; skipped: Book[] }> {
+  let updated = 0;
+  const skipped: Book[] = [];
+  for (const book of books) {
+    if (getStatusChangeBlocker(book, newStatus)) {
+      skipped.push(book);
+      continue;
+    }
+    const updates = await changeReadingStatus(userId, book, newStatus, context);
+    if (Object.keys(updates).length > 0) updated++;
+  }
+  return { updated, skipped };
+}
+
+// 過去のイベントの日時として指定できる範囲（前後のイベントの日時）
+export function getStatusEventDateRange(history: StatusEvent[], eventId: string): { min?: Date; max?: Date } {
+  const index = history.findIndex((event) => event.id === eventId);
+  if (index === -1) return {};
+  return { min: history[index - 1]?.at, max: history[index + 1]?.at };
+}
+
+// 過去のイベントの日時を修正した更新内容を作る（保存はしない）
+// 履歴の順番が入れ替わると最後のイベントから算出するステータスが変わってしまうため、前後のイベントの間に収める
+// 前後のイベントと同じ日なら時刻を合わせ、それより前・後の日付はエラーにする。現在のステータスは変えない
+export function buildStatusEventDateChange(
+  book: Pick<Book, 'statusHistory'>,
+  eventId: string,
+  at: Date
+): Partial<Book> {
+  const history = book.statusHistory || [];
+  const { min, max } = getStatusEventDateRange(history, eventId);
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  if ((min && startOfDay(at) < startOfDay(min)) || (max && startOfDay(at) > startOfDay(max))) {
+    throw new Error('前後のステータス変更の日付の間で指定してください');
+  }
+  const clamped = new Date(Math.min(Math.max(at.getTime(), min?.getTime() ?? -Infinity), max?.getTime() ?? Infinity));
+  const updates = deriveFromHistory(history.map((event) => (event.id === eventId ? { ...event, at: clamped } : event)));
+  delete updates.readingStatus;
+  return updates;
+}
+
+// 過去のイベントの日時を修正し、書籍の日付フィールドを再計算
+export async function updateStatusEventDate(
+  userId: string,
+  book: Book,
+  eventId: string,
+  at: Date
+): Promise<Partial<Book>> {
+  const updates = buildStatusEventDateChange(book, eventId, at);
+  await getRepository().books.update(userId, book.id!, updates);
+  return updates;
+}
@@ -1,8 +1,9 @@
-import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
-import { storage } from './firebase';
+import { getRepository } from './repository';
+import { enqueueWrite, shouldQueueWrites } from './offlineQueue';
 import { NoteImage } from '@/types/book';
 
 // 画像をアップロード
+// オフライン中は待ち行列に入れ、同期までは端末内の画像を指す仮の URL を返す
 export async function uploadNoteImage(
   userId: string,
   bookId: string,
@@ -10,25 +11,17 @@ export async function uploadNoteImage(
   file: File | Blob,
   fileName?: string
 ): Promise<NoteImage> {
-  const imageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-  const extension = fileName?.split('.').pop() || 'png';
-  const finalFileName = `${imageId}.${extension}`;
-  const path = `users/${userId}/books/${bookId}/notes/${noteId}/${finalFileName}`;
-  
-  const storageRef = ref(storage, path);
-  
-  await uploadBytes(storageRef, file, {
-    contentType: file.type || 'image/png',
-  });
-  
-  const url = await getDownloadURL(storageRef);
-  
-  return {
-    id: imageId,
-    url,
-    fileName: finalFileName,
-    uploadedAt: new Date(),
-  };
+  if (shouldQueueWrites()) {
+    const placeholderUrl = URL.createObjectURL(file);
+    const queued = await enqueueWrite({ type: 'image-upload', userId, bookId, noteId, blob: file, fileName, placeholderUrl });
+    return {
+      id: queued.id,
+      url: placeholderUrl,
+      fileName: fileName || (file instanceof File ? file.name : 'image.png'),
+      uploadedAt: queued.queuedAt,
+    };
+  }
+  return getRepository().images.upload(userId, bookId, noteId, file, fileName);
 }
 
 // Blobから画像をアップロード（クリップボードペースト用）
@@ -50,25 +43,27 @@ export async function deleteNoteImage(
   noteId: string,
   fileName: string
 ): Promise<void> {
-  const path = `users/${userId}/books/${bookId}/notes/${noteId}/${fileName}`;
-  const storageRef = ref(storage, path);
-  
   try {
-    await deleteObject(storageRef);
+    await getRepository().images.delete(userId, bookId, noteId, fileName);
   } catch (error) {
     console.error('Error deleting image:', error);
-    // 画像が存在しない場合はエラーを無視
   }
 }
 
-// 複数画像を削除
+// 複数画像を削除（削除できなかったファイル名を返す）
 export async function deleteAllNoteImages(
   userId: string,
   bookId: string,
   noteId: string,
   images: NoteImage[]
-): Promise<void> {
-  await Promise.all(
-    images.map(img => deleteNoteImage(userId, bookId, noteId, img.fileName))
+): Promise<string[]> {
+  const results = await Promise.allSettled(
+    images.map(img => getRepository().images.delete(userId, bookId, noteId, img.fileName))
   );
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [];
+    console.error('Error deleting image:', result.reason);
+    return [images[index].fileName];
+  });
 }
@@ -1,17 +1,4 @@
-import {
-  collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  doc,
-  getDocs,
-  query,
-  orderBy,
-  serverTimestamp,
-  Timestamp,
-  where,
-} from 'firebase/firestore';
-import { db } from './firebase';
+import { getRepository, Unsubscribe } from './repository';
 import { Tag } from '@/types/book';
 
 // 定義済みのタグカラー
@@ -41,69 +28,43 @@ export function getTagColorClasses(colorName?: string) {
   return { bg: color.bg, text: color.text };
 }
 
+// タグのページ（そのタグの付いたメモの一覧）
+export function tagPath(name: string): string {
+  return `/tags/${encodeURIComponent(name)}`;
+}
+
 // タグを追加
 export async function addTag(userId: string, tag: Omit<Tag, 'id' | 'createdAt'>): Promise<Tag> {
-  const tagsRef = collection(db, 'users', userId, 'tags');
-  
-  const docRef = await addDoc(tagsRef, {
-    name: tag.name,
-    color: tag.color || 'gray',
-    createdAt: serverTimestamp(),
-  });
-
-  return {
-    id: docRef.id,
-    name: tag.name,
-    color: tag.color || 'gray',
-    createdAt: new Date(),
-  };
+  return getRepository().tags.add(userId, tag);
 }
 
 // 全タグを取得
 export async function getTags(userId: string): Promise<Tag[]> {
-  const tagsRef = collection(db, 'users', userId, 'tags');
-  const q = query(tagsRef, orderBy('name', 'asc'));
-  const snapshot = await getDocs(q);
+  return getRepository().tags.list(userId);
+}
 
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      name: data.name,
-      color: data.color,
-      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-    } as Tag;
-  });
+// 全タグを購読
+export function watchTags(
+  userId: string,
+  listener: (tags: Tag[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return getRepository().tags.watch(userId, listener, onError);
 }
 
 // タグを更新
 export async function updateTag(userId: string, tagId: string, updates: Partial<Tag>): Promise<void> {
-  const tagRef = doc(db, 'users', userId, 'tags', tagId);
-  await updateDoc(tagRef, updates);
+  await getRepository().tags.update(userId, tagId, updates);
 }
 
 // タグを削除
 export async function deleteTag(userId: string, tagId: string): Promise<void> {
-  const tagRef = doc(db, 'users', userId, 'tags', tagId);
-  await deleteDoc(tagRef);
+  await getRepository().tags.delete(userId, tagId);
 }
 
 // タグ名で検索（重複チェック用）
 export async function findTagByName(userId: string, name: string): Promise<Tag | null> {
-  const tagsRef = collection(db, 'users', userId, 'tags');
-  const q = query(tagsRef, where('name', '==', name));
-  const snapshot = await getDocs(q);
-  
-  if (snapshot.empty) return null;
-  
-  const doc = snapshot.docs[0];
-  const data = doc.data();
-  return {
-    id: doc.id,
-    name: data.name,
-    color: data.color,
-    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-  } as Tag;
+  return getRepository().tags.findByName(userId, name);
 }
 
 // タグ名からタグを取得（なければ作成）
@@ -0,0 +1,138 @@
+import { getRepository } from './repository';
+import { deleteBook } from './books';
+import { deleteAllNoteImages } from './storage';
+import { Book, Note } from '@/types/book';
+
+const RETENTION_KEY = 'bookbrain_trash_retention_days';
+const PURGED_AT_KEY = 'bookbrain_trash_purged_at';
+// ホーム画面を開いたときの自動削除の間隔
+const AUTO_PURGE_INTERVAL = 24 * 60 * 60 * 1000;
+
+// ゴミ箱の保持期間（日数）の選択肢。0 は自動削除しない
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface TrashedNote {
+  note: Note;
+  book: Book;
+}
+
+export interface TrashContents {
+  books: Book[];
+  notes: TrashedNote[];
+}
+
+// 保持期間を取得（端末ごとの設定）
+export function getTrashRetentionDays(): number {
+  if (typeof window === 'undefined') return DEFAULT_TRASH_RETENTION_DAYS;
+  const saved = localStorage.getItem(RETENTION_KEY);
+  const days = saved !== null ? Number(saved) : NaN;
+  return TRASH_RETENTION_OPTIONS.includes(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setTrashRetentionDays(days: number): void {
+  localStorage.setItem(RETENTION_KEY, String(days));
+}
+
+// 書籍をゴミ箱に移動
+export async function trashBook(userId: string, bookId: string): Promise<void> {
+  await getRepository().books.update(userId, bookId, { deletedAt: new Date() });
+}
+
+// 書籍をゴミ箱から復元
+export async function restoreBook(userId: string, bookId: string): Promise<void> {
+  await getRepository().books.update(userId, bookId, { deletedAt: null });
+}
+
+// メモをゴミ箱に移動
+export async function trashNote(userId: string, bookId: string, noteId: string): Promise<void> {
+  await getRepository().notes.update(userId, bookId, noteId, { deletedAt: new Date() });
+}
+
+// メモをゴミ箱から復元
+export async function restoreNote(userId: string, bookId: string, noteId: string): Promise<void> {
+  await getRepository().notes.update(userId, bookId, noteId, { deletedAt: null });
+}
+
+// メモを完全に削除（添付画像も削除）
+// 画像を削除できなかった場合は、やり直せるようメモを残してエラーにする
+export async function deleteNotePermanently(userId: string, note: Note): Promise<void> {
+  if (note.images && note.images.length > 0) {
+    const failedFiles = await deleteAllNoteImages(userId, note.bookId, note.id!, note.images);
+    if (failedFiles.length > 0) {
+      throw new Error(`添付画像を削除できませんでした（${failedFiles.join(', ')}）`);
+    }
+  }
+  await getRepository().notes.delete(userId, note.bookId, note.id!);
+  // 以前の版・リンクはメモがなければ不要なので、消せなくても削除は成功とする
+  await getRepository().versions.deleteByNote(userId, note.id!).catch((error) => {
+    console.error('Error deleting note versions:', error);
+  });
+  await getRepository().links.deleteFromNote(userId, note.id!).catch((error) => {
+    console.error('Error deleting note links:', error);
+  });
+}
+
+// ゴミ箱の中身を取得（削除日の新しい順）
+// ゴミ箱にある書籍のメモは書籍と一緒に扱うため、個別には含めない
+export async function getTrash(userId: string): Promise<TrashContents> {
+  const repository = getRepository();
+  const allBooks = await repository.books.list(userId);
+  const books = allBooks.filter((book) => book.deletedAt);
+  const activeBooks = new Map(allBooks.filter((book) => !book.deletedAt).map((book) => [book.id!, book]));
+
+  const trashedNotes = await repository.notes.listTrashed(userId);
+  const notes = trashedNotes
+    .filter((note) => activeBooks.has(note.bookId))
+    .map((note) => ({ note, book: activeBooks.get(note.bookId)! }));
+
+  const byDeletedAt = (a?: Date | null, b?: Date | null) =>
+    (b?.getTime() ?? 0) - (a?.getTime() ?? 0);
+
+  return {
+    books: books.sort((a, b) => byDeletedAt(a.deletedAt, b.deletedAt)),
+    notes: notes.sort((a, b) => byDeletedAt(a.note.deletedAt, b.note.deletedAt)),
+  };
+}
+
+// 保持期間を過ぎたゴミ箱の項目を完全に削除（削除した件数を返す）
+export async function purgeExpiredTrash(
+  userId: string,
+  retentionDays: number = getTrashRetentionDays()
+): Promise<number> {
+  if (retentionDays <= 0) return 0;
+
+  const threshold = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const isExpired = (deletedAt?: Date | null) => !!deletedAt && deletedAt.getTime() < threshold;
+
+  const trash = await getTrash(userId);
+  let purged = 0;
+
+  for (const book of trash.books.filter((b) => isExpired(b.deletedAt))) {
+    const result = await deleteBook(userId, book.id!);
+    if (result.bookDeleted) purged++;
+  }
+
+  for (const { note } of trash.notes.filter(({ note }) => isExpired(note.deletedAt))) {
+    // 削除できなかったメモは次回にやり直す
+    try {
+      await deleteNotePermanently(userId, note);
+      purged++;
+    } catch (error) {
+      console.error('Error purging note:', error);
+    }
+  }
+
+  return purged;
+}
+
+// 前回の自動削除から1日以上たっていれば、保持期間を過ぎたゴミ箱の項目を削除する（ホーム画面を開いたとき用）
+export async function purgeExpiredTrashIfDue(userId: string): Promise<number> {
+  const key = `${PURGED_AT_KEY}_${userId}`;
+  const lastPurgedAt = Number(localStorage.getItem(key)) || 0;
+  if (Date.now() - lastPurgedAt < AUTO_PURGE_INTERVAL) return 0;
+
+  const purged = await purgeExpiredTrash(userId);
+  localStorage.setItem(key, String(Date.now()));
+  return purged;
+}
@@ -0,0 +1,103 @@
+import { getRepository, NewBook } from './repository';
+import { GoogleBookInfo, getCoverImageUrl } from './googleBooks';
+import { parseContributors, buildContributorFields } from './contributors';
+import { Book, WishlistInfo, WishlistPriority } from '@/types/book';
+
+export const WISHLIST_PRIORITY_LABELS: Record<WishlistPriority, string> = {
+  high: '高',
+  medium: '中',
+  low: '低',
+};
+
+export const DESIRED_FORMAT_LABELS: Record<WishlistInfo['desiredFormat'], string> = {
+  paper: '紙',
+  ebook: '電子',
+  either: 'どちらでも',
+};
+
+const PRIORITY_ORDER: Record<WishlistPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export interface PurchaseInfo {
+  purchasedAt: Date;
+  purchasePrice?: number;
+  purchaseStore?: string;
+  format?: 'paper' | 'ebook';
+}
+
+// Google Books の検索結果を書籍データに変換
+export function bookFromGoogleInfo(info: GoogleBookInfo): Omit<NewBook, 'readingStatus'> {
+  return {
+    title: info.title,
+    subtitle: info.subtitle,
+    ...buildContributorFields((info.authors || []).flatMap(parseContributors)),
+    publisher: info.publisher,
+    publishedDate: info.publishedDate,
+    description: info.description,
+    pageCount: info.pageCount,
+    category: info.categories?.join(', '),
+    coverImage: getCoverImageUrl(info.imageLinks),
+    isbn13: info.isbn13,
+    isbn10: info.isbn10,
+  };
+}
+
+// ウィッシュリストを取得（優先度の高い順、同じなら追加の新しい順）
+export async function getWishlist(userId: string): Promise<Book[]> {
+  const books = await getRepository().books.list(userId);
+  return books
+    .filter((book) => !book.deletedAt && book.ownership === 'wishlist')
+    .sort((a, b) => {
+      const pa = PRIORITY_ORDER[a.wishlist?.priority || 'medium'];
+      const pb = PRIORITY_ORDER[b.wishlist?.priority || 'medium'];
+      if (pa !== pb) return pa - pb;
+      return (b.wishlist?.addedAt.getTime() ?? 0) - (a.wishlist?.addedAt.getTime() ?? 0);
+    });
+}
+
+// ウィッシュリストに追加
+export async function addToWishlist(
+  userId: string,
+  book: Omit<NewBook, 'readingStatus'>,
+  options: Pick<WishlistInfo, 'priority' | 'desiredFormat'> = { priority: 'medium', desiredFormat: 'either' }
+): Promise<Book> {
+  return getRepository().books.add(userId, {
+    ...book,
+    readingStatus: 'unread',
+    ownership: 'wishlist',
+    wishlist: { ...options, addedAt: new Date() },
+  });
+}
+
+// 優先度・希望形式を変更
+export async function updateWishlistInfo(
+  userId: string,
+  book: Book,
+  updates: Partial<Pick<WishlistInfo, 'priority' | 'desiredFormat'>>
+): Promise<Partial<Book>> {
+  const current: WishlistInfo = book.wishlist || { priority: 'medium', desiredFormat: 'either', addedAt: book.createdAt };
+  const bookUpdates: Partial<Book> = { wishlist: { ...current, ...updates } };
+  await getRepository().books.update(userId, book.id!, bookUpdates);
+  return bookUpdates;
+}
+
+// 購入済みにして蔵書に加える
+export async function markAsPurchased(userId: string, book: Book, purchase: PurchaseInfo): Promise<Partial<Book>> {
+  const desired = book.wishlist?.desiredFormat;
+  const format = purchase.format || (desired === 'paper' || desired === 'ebook' ? desired : 'paper');
+
+  const updates: Partial<Book> = {
+    ownership: 'owned',
+    wishlist: null,
+    format,
+    purchasedAt: purchase.purchasedAt,
+    purchasePrice: purchase.purchasePrice,
+    purchaseStore: purchase.purchaseStore,
+  };
+  await getRepository().books.update(userId, book.id!, updates);
+  return updates;
+}
+
+// ウィッシュリストから削除（メモなどを持たないのでそのまま削除）
+export async function removeFromWishlist(userId: string, bookId: string): Promise<void> {
+  await getRepository().books.delete(userId, bookId);
+}
@@ -1,9 +1,20 @@
+export type ReadingStatus = 'unread' | 'reading' | 'completed' | 'sold';
+
+// 著者・訳者などの役割
+export type ContributorRole = 'author' | 'translator' | 'editor' | 'supervisor' | 'illustrator' | 'other';
+
+export interface Contributor {
+  name: string;
+  role: ContributorRole;
+}
+
 export interface Book {
   id?: string;
   // 基本情報
   title: string;
   subtitle?: string;
-  author?: string;
+  author?: string; // 表示用（contributors から生成。contributors がない古いデータはこちらのみ）
+  contributors?: Contributor[]; // 著者・訳者・編者・監修者など
   publisher?: string;
   publishedDate?: string;
   description?: string;
@@ -11,42 +22,158 @@ export interface Book {
   // ISBN
   isbn13?: string;
   isbn10?: string;
+  isbnKey?: string | null; // 検索用（isbn13 / isbn10 を ISBN-13 に揃えたもの。保存時に自動で設定、ISBN がなければ null）
   
+  // シリーズ
+  seriesId?: string | null; // 所属するシリーズ（null / 未設定ならシリーズなし）
+  volume?: number | null; // 巻数
+
   // 分類
   category?: string;
   ndc?: string; // 日本十進分類法
   
   // 物理情報
   pageCount?: number;
+  currentPage?: number; // 読み進めたページ（読書記録から更新）
   coverImage?: string;
   
   // 管理情報
-  readingStatus: 'unread' | 'reading' | 'completed' | 'sold';
-  location?: string; // 保管場所
+  readingStatus: ReadingStatus;
+  statusHistory?: StatusEvent[]; // ステータス変更の履歴（古い順）
+  startedAt?: Date; // 最後に読み始めた日時（履歴から算出）
+  completedAt?: Date; // 最後に読み終えた日時（履歴から算出）
+  soldAt?: Date; // 売却した日時（履歴から算出）
+  locationId?: string | null; // 保管場所（StorageLocation の ID）
+  location?: string | null; // 保管場所の表示名（locationId から生成。古いデータは自由入力の文字列のみ）
   format?: 'paper' | 'ebook'; // 書籍形式
+  loans?: Loan[]; // 貸出記録（古い順。紙の書籍のみ）
   tags?: string[]; // タグ
+
+  // 入手
+  ownership?: 'owned' | 'wishlist'; // 未設定なら所持している書籍
+  wishlist?: WishlistInfo | null; // ウィッシュリストの情報（購入後は null）
+  purchasedAt?: Date | null; // 購入日（null で削除）
+  purchasePrice?: number | null; // 購入価格（円）
+  purchaseStore?: string; // 購入した店
+  
+  // 売却（売却日は soldAt）
+  salePrice?: number | null; // 売却価格（円）
+  saleChannel?: string; // 売却先（古書店・フリマアプリなど）
   
   // AI要約（永続化）
-  aiSummary?: string;
-  aiSummaryUpdatedAt?: Date;
+  aiSummary?: string | null;
+  aiSummaryUpdatedAt?: Date | null;
+  
+  // ゴミ箱に移動した日時（null / 未設定なら通常の書籍）
+  deletedAt?: Date | null;
   
   // メタデータ
   createdAt: Date;
-  updatedAt: Date;
+  updatedAt: Date; // メモの変更でも更新される
+  notesUpdatedAt?: Date; // メモを最後に変更した日時
+  noteCount?: number; // メモの数（ゴミ箱のメモを除く。メモの変更時に更新される）
 }
 
+// 書籍の変更履歴（フィールド1つの変更1回分）
+export type BookChangeSource = 'edit' | 'bulk-edit' | 'status' | 'merge' | 'migration' | 'revert';
+
+export interface BookChange {
+  id?: string;
+  bookId: string;
+  field: string; // 変更した Book のフィールド名
+  oldValue: unknown; // 未設定は null
+  newValue: unknown;
+  source: BookChangeSource;
+  batchId: string; // 同じ操作（1回の保存・一括編集など）で記録した変更に共通の ID
+  changedAt: Date;
+  revertedAt?: Date | null; // 元に戻した日時
+}
+
+// 読書ステータスの変更1回分
+export interface StatusEvent {
+  id: string;
+  from: ReadingStatus;
+  to: ReadingStatus;
+  at: Date;
+}
+
+// ほしい本の情報
+export type WishlistPriority = 'high' | 'medium' | 'low';
+
+export interface WishlistInfo {
+  priority: WishlistPriority;
+  desiredFormat: 'paper' | 'ebook' | 'either';
+  addedAt: Date;
+}
+
+// 貸出記録
+export interface Loan {
+  id: string;
+  borrower: string; // 貸した相手
+  lentAt: Date;
+  dueAt?: Date; // 返却予定日
+  returnedAt?: Date; // 未返却なら未設定
+}
+
+// メモのページ参照（pageReference）を解釈した本の中の位置
+export type NoteLocation =
+  | { type: 'page'; page: number }
+  | { type: 'pages'; start: number; end: number }
+  | { type: 'chapter'; chapter: number }
+  | { type: 'kindle'; location: number } // Kindle の位置No.
+  | { type: 'percent'; percent: number }; // 電子書籍の読了率
+
+// メモの種類（引用は本文のそのままの抜き書き、それ以外は読者自身の文章）
+export type NoteKind = 'quote' | 'thought' | 'summary' | 'question';
+
 export interface Note {
   id?: string;
   bookId: string;
+  kind?: NoteKind; // 未設定は考え（thought）として扱う
   title?: string;
   content: string;
   pageReference?: string; // ページ番号や章の参照
+  tags?: string[]; // タグ（書籍のタグと同じ一覧から選ぶ）
   images?: NoteImage[]; // 添付画像
   displayOrder?: number;
+  deletedAt?: Date | null; // ゴミ箱に移動した日時
   createdAt: Date;
   updatedAt: Date;
 }
 
+// メモの以前の版（保存で置き換えられる前のタイトル・内容・ページ参照）
+export interface NoteVersion {
+  id?: string;
+  noteId: string;
+  bookId: string;
+  title?: string;
+  content: string;
+  pageReference?: string;
+  savedAt: Date; // この版が保存された日時（置き換えられる前のメモの updatedAt）
+}
+
+// メモ本文の [[書籍名]] / [[書籍名#メモのタイトル]] リンク（保存時に解決したリンク先）
+// リンク先を ID で持つので、書籍やメモの名前が変わってもたどれる
+export interface NoteLink {
+  id?: string;
+  fromBookId: string;
+  fromNoteId: string;
+  target: string; // [[ ]] の中の文字列
+  toBookId: string;
+  toNoteId?: string;
+}
+
+// 読書記録（1回分の読書）
+export interface ReadingSession {
+  id?: string;
+  bookId: string;
+  date: Date; // 読んだ日
+  startPage: number;
+  endPage: number;
+  minutes?: number; // 読書時間（分）
+  createdAt: Date;
+}
+
 export interface NoteImage {
   id: string;
   url: string;
@@ -54,6 +181,27 @@ export interface NoteImage {
   uploadedAt: Date;
 }
 
+// シリーズ（全集・漫画など）
+export interface Series {
+  id?: string;
+  name: string;
+  expectedVolumes?: number | null; // 全巻数（刊行中・不明なら未設定）
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 保管場所（部屋 → 本棚 → 段 の階層）
+export type LocationKind = 'room' | 'bookcase' | 'shelf';
+
+export interface StorageLocation {
+  id?: string;
+  name: string;
+  kind: LocationKind;
+  parentId: string | null; // 部屋は null
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Tag {
   id?: string;
   name: string;